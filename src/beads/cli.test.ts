@@ -1,5 +1,12 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { BeadsCli } from './cli.js';
+import {
+  BeadsInvalidArgumentsError,
+  BeadsLockedError,
+  BeadsNotFoundError,
+  BeadsNotInstalledError,
+  BeadsParseError,
+} from './errors.js';
 
 vi.mock('execa', () => ({
   execa: vi.fn(),
@@ -40,6 +47,89 @@ describe('BeadsCli', () => {
       );
       consoleSpy.mockRestore();
     });
+
+    it('sends the trace to the given log instead', async () => {
+      const lines: string[] = [];
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const verboseCli = new BeadsCli(projectPath, true, {}, line => lines.push(line));
+
+      await verboseCli.updateStatus('issue-1', 'active');
+
+      expect(lines).toEqual(['[bd] update issue-1 -s active']);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('failures', () => {
+    function bdFailure(stderr: string, exitCode = 1) {
+      return Object.assign(new Error(`Command failed with exit code ${exitCode}`), { stderr, exitCode });
+    }
+
+    it('retries a locked database with backoff and then succeeds', async () => {
+      const retryingCli = new BeadsCli(projectPath, false, { retries: 2, delayMs: 0 });
+      mockExeca
+        .mockRejectedValueOnce(bdFailure('Error: database is locked'))
+        .mockRejectedValueOnce(bdFailure('Error: database is locked'))
+        .mockResolvedValueOnce({ stdout: '' } as any);
+
+      await retryingCli.addDependency('id-1', 'id-2');
+
+      expect(mockExeca).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up once the retries are used up', async () => {
+      const retryingCli = new BeadsCli(projectPath, false, { retries: 1, delayMs: 0 });
+      mockExeca.mockRejectedValue(bdFailure('Error: database is locked', 3));
+
+      const error = await retryingCli.updateStatus('bd-1', 'closed').catch(e => e);
+
+      expect(error).toBeInstanceOf(BeadsLockedError);
+      expect(error.command).toBe('bd update bd-1 -s closed');
+      expect(error.exitCode).toBe(3);
+      expect(mockExeca).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry failures that cannot succeed on a second try', async () => {
+      const retryingCli = new BeadsCli(projectPath, false, { retries: 3, delayMs: 0 });
+      mockExeca.mockRejectedValue(bdFailure('Error: unknown flag: --parent'));
+
+      await expect(retryingCli.createChild('bd-1', 'Child', '')).rejects.toBeInstanceOf(BeadsInvalidArgumentsError);
+      expect(mockExeca).toHaveBeenCalledOnce();
+    });
+
+    it('classifies missing issues', async () => {
+      mockExeca.mockRejectedValue(bdFailure('Error: issue bd-404 not found'));
+
+      const error = await cli.showIssue('bd-404').catch(e => e);
+
+      expect(error).toBeInstanceOf(BeadsNotFoundError);
+      expect(error.stderr).toBe('Error: issue bd-404 not found');
+    });
+
+    it('reports unreadable create output as a parse error', async () => {
+      mockExeca.mockResolvedValue({ stdout: 'Created issue bd-1' } as any);
+
+      const error = await cli.createEpic('Epic', '', 1).catch(e => e);
+
+      expect(error).toBeInstanceOf(BeadsParseError);
+      expect(error.command).toBe('bd create Epic -t epic -p 1 --json');
+    });
+
+    it('reports create output missing fields as a parse error', async () => {
+      mockExeca.mockResolvedValue({ stdout: JSON.stringify({ title: 'Epic' }) } as any);
+
+      await expect(cli.createEpic('Epic', '', 1)).rejects.toThrow('Could not read the output of bd create: id:');
+    });
+
+    it('explains a missing bd binary', async () => {
+      mockExeca.mockRejectedValue(Object.assign(new Error('spawn bd ENOENT'), { code: 'ENOENT' }));
+
+      const error = await cli.listIssues().catch(e => e);
+
+      expect(error).toBeInstanceOf(BeadsNotInstalledError);
+      expect(error.message).toBe('bd is not installed or not on PATH');
+    });
   });
 
   describe('createEpic()', () => {
@@ -56,6 +146,30 @@ describe('BeadsCli', () => {
       );
       expect(result).toEqual({ id: 'abc-123', title: 'Test Epic' });
     });
+
+    it('uses a custom issue type', async () => {
+      mockExeca.mockResolvedValue({ stdout: JSON.stringify({ id: 'abc-123', title: 'Feature' }) } as any);
+
+      await cli.createEpic('Feature', '', 1, 'feature');
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['create', 'Feature', '-t', 'feature', '-p', '1', '--json'],
+        { cwd: projectPath }
+      );
+    });
+
+    it('passes labels as a comma-separated list', async () => {
+      mockExeca.mockResolvedValue({ stdout: JSON.stringify({ id: 'abc-123', title: 'Feature' }) } as any);
+
+      await cli.createEpic('Feature', '', 1, 'epic', ['tm2bd', 'tier:0']);
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['create', 'Feature', '-t', 'epic', '-p', '1', '-l', 'tm2bd,tier:0', '--json'],
+        { cwd: projectPath }
+      );
+    });
   });
 
   describe('createChild()', () => {
@@ -72,6 +186,30 @@ describe('BeadsCli', () => {
       );
       expect(result).toEqual({ id: 'def-456', title: 'Child Task' });
     });
+
+    it('passes issue type and priority when given', async () => {
+      mockExeca.mockResolvedValue({ stdout: JSON.stringify({ id: 'def-456', title: 'Child Task' }) } as any);
+
+      await cli.createChild('parent-id', 'Child Task', '', { type: 'task', priority: 3 });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['create', 'Child Task', '--parent', 'parent-id', '-t', 'task', '-p', '3', '--json'],
+        { cwd: projectPath }
+      );
+    });
+
+    it('passes labels when given', async () => {
+      mockExeca.mockResolvedValue({ stdout: JSON.stringify({ id: 'def-456', title: 'Child Task' }) } as any);
+
+      await cli.createChild('parent-id', 'Child Task', '', { labels: ['tm2bd', 'test'] });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['create', 'Child Task', '--parent', 'parent-id', '-l', 'tm2bd,test', '--json'],
+        { cwd: projectPath }
+      );
+    });
   });
 
   describe('addDependency()', () => {
@@ -86,6 +224,80 @@ describe('BeadsCli', () => {
     });
   });
 
+  describe('removeDependency()', () => {
+    it('calls execa with correct args', async () => {
+      await cli.removeDependency('blocked-1', 'blocking-2');
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['dep', 'remove', 'blocked-1', 'blocking-2'],
+        { cwd: projectPath }
+      );
+    });
+  });
+
+  describe('listDependencies()', () => {
+    it('returns the blocking issues but not the parent', async () => {
+      mockExeca.mockResolvedValueOnce({
+        stdout: JSON.stringify([{
+          id: 'bd-3',
+          title: 'Child',
+          status: 'open',
+          dependencies: [
+            { id: 'bd-1', dependency_type: 'parent-child' },
+            { id: 'bd-2', dependency_type: 'blocks' },
+          ],
+        }]),
+      } as any);
+
+      expect(await cli.listDependencies('bd-3')).toEqual(['bd-2']);
+    });
+  });
+
+  describe('updateIssue()', () => {
+    it('passes title, description and priority flags', async () => {
+      await cli.updateIssue('issue-1', { title: 'New title', description: 'New desc', priority: 2 });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['update', 'issue-1', '--title', 'New title', '-d', 'New desc', '-p', '2'],
+        { cwd: projectPath }
+      );
+    });
+
+    it('only passes the fields that are set', async () => {
+      await cli.updateIssue('issue-1', { priority: 0 });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['update', 'issue-1', '-p', '0'],
+        { cwd: projectPath }
+      );
+    });
+
+    it('adds and removes labels one flag at a time', async () => {
+      await cli.updateIssue('issue-1', { addLabels: ['tm2bd', 'tier:1'], removeLabels: ['tier:0'] });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['update', 'issue-1', '--add-label', 'tm2bd', '--add-label', 'tier:1', '--remove-label', 'tier:0'],
+        { cwd: projectPath }
+      );
+    });
+
+    it('moves the issue under a new parent', async () => {
+      await cli.updateIssue('issue-2', { parent: 'issue-1' });
+
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['update', 'issue-2', '--parent', 'issue-1'], { cwd: projectPath });
+    });
+
+    it('does not call bd when there is nothing to edit', async () => {
+      await cli.updateIssue('issue-1', {});
+
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateStatus()', () => {
     it('calls execa with correct args', async () => {
       await cli.updateStatus('issue-1', 'in-progress');
@@ -108,6 +320,159 @@ describe('BeadsCli', () => {
         { cwd: projectPath }
       );
     });
+
+    it('passes a close reason when given', async () => {
+      await cli.close('issue-99', 'Rolled back');
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['close', 'issue-99', '--reason', 'Rolled back'],
+        { cwd: projectPath }
+      );
+    });
+  });
+
+  describe('deleteIssue()', () => {
+    it('calls bd delete with --force', async () => {
+      await cli.deleteIssue('issue-7');
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['delete', 'issue-7', '--force'],
+        { cwd: projectPath }
+      );
+    });
+  });
+
+  describe('showIssue()', () => {
+    it('parses the issue from bd show --json array output', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([
+          { id: 'bd-1', title: 'Epic', status: 'closed', priority: 1, issue_type: 'epic', owner: 'x' },
+        ]),
+      } as any);
+
+      const result = await cli.showIssue('bd-1');
+
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['show', 'bd-1', '--json'], { cwd: projectPath });
+      expect(result).toEqual({ id: 'bd-1', title: 'Epic', status: 'closed', priority: 1, issue_type: 'epic' });
+    });
+
+    it('accepts a bare object', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify({ id: 'bd-1', title: 'Epic', status: 'open' }),
+      } as any);
+
+      const result = await cli.showIssue('bd-1');
+
+      expect(result.status).toBe('open');
+    });
+
+    it('parses labels and treats null as no labels', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([
+          { id: 'bd-1', title: 'A', status: 'open', labels: ['tm2bd', 'tm:master'] },
+          { id: 'bd-2', title: 'B', status: 'open', labels: null },
+        ]),
+      } as any);
+
+      const result = await cli.showIssues(['bd-1', 'bd-2']);
+
+      expect(result[0].labels).toEqual(['tm2bd', 'tm:master']);
+      expect(result[1].labels).toBeUndefined();
+    });
+
+    it('reads blocking dependencies and the parent from the dependency list', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([
+          {
+            id: 'bd-3',
+            title: 'C',
+            status: 'open',
+            dependencies: [
+              { id: 'bd-1', title: 'A', dependency_type: 'blocks' },
+              { id: 'bd-2', title: 'B', dependency_type: 'parent-child' },
+              { depends_on_id: 'bd-4', type: 'blocks' },
+            ],
+          },
+        ]),
+      } as any);
+
+      const result = await cli.showIssue('bd-3');
+
+      expect(result.blockedBy).toEqual(['bd-1', 'bd-4']);
+      expect(result.parent).toBe('bd-2');
+    });
+
+    it('throws when the issue is missing from the output', async () => {
+      mockExeca.mockResolvedValue({ stdout: '[]' } as any);
+
+      await expect(cli.showIssue('bd-404')).rejects.toThrow('Beads issue bd-404 not found');
+    });
+  });
+
+  describe('showIssues()', () => {
+    it('queries several issues in one bd call', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([
+          { id: 'bd-1', title: 'A', status: 'open' },
+          { id: 'bd-2', title: 'B', status: 'in_progress' },
+        ]),
+      } as any);
+
+      const result = await cli.showIssues(['bd-1', 'bd-2']);
+
+      expect(mockExeca).toHaveBeenCalledWith('bd', ['show', 'bd-1', 'bd-2', '--json'], { cwd: projectPath });
+      expect(result.map(i => i.status)).toEqual(['open', 'in_progress']);
+    });
+
+    it('does not call bd for an empty list', async () => {
+      expect(await cli.showIssues([])).toEqual([]);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listIssues()', () => {
+    it('lists every issue as JSON', async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([{ id: 'bd-1', title: 'A', status: 'closed', issue_type: 'epic' }]),
+      } as any);
+
+      const result = await cli.listIssues();
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['list', '--all', '--limit', '0', '--json'],
+        { cwd: projectPath }
+      );
+      expect(result).toEqual([{ id: 'bd-1', title: 'A', status: 'closed', issue_type: 'epic' }]);
+    });
+
+    it('filters by parent', async () => {
+      mockExeca.mockResolvedValue({ stdout: '[]' } as any);
+
+      await cli.listIssues({ parent: 'bd-1' });
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['list', '--all', '--limit', '0', '--json', '--parent', 'bd-1'],
+        { cwd: projectPath }
+      );
+    });
+  });
+
+  describe('importIssues()', () => {
+    it('imports the JSONL file, renaming IDs that clash with the database prefix', async () => {
+      mockExeca.mockResolvedValue({ stdout: '' } as any);
+
+      await cli.importIssues('/tmp/batch.jsonl');
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        'bd',
+        ['import', '-i', '/tmp/batch.jsonl', '--rename-on-import'],
+        { cwd: projectPath }
+      );
+    });
   });
 
   describe('checkInit()', () => {
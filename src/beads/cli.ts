@@ -1,66 +1,296 @@
 import { execa } from 'execa';
 import { z } from 'zod';
+import type {
+  BeadsCreateResult,
+  BeadsIssue,
+  BeadsChildOptions,
+  BeadsIssueEdit,
+  IssueTracker,
+} from '../tracker/issue-tracker.js';
+import {
+  BeadsCommandError,
+  BeadsNotFoundError,
+  BeadsNotInstalledError,
+  BeadsParseError,
+  beadsCommandError,
+} from './errors.js';
 
-export interface BeadsCreateResult {
-  id: string;
-  title: string;
-  type?: string;
+export type { BeadsCreateResult, BeadsIssue, BeadsChildOptions, BeadsIssueEdit };
+
+/** How often and how patiently to retry bd calls that fail transiently. */
+export interface RetryOptions {
+  /** Attempts after the first one; 0 disables retrying. */
+  retries: number;
+  /** Wait before the first retry, doubled for each one after it. */
+  delayMs: number;
+  maxDelayMs: number;
 }
 
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 3, delayMs: 250, maxDelayMs: 4000 };
+
 const BeadsCreateOutputSchema = z.object({
   id: z.string(),
   title: z.string(),
   type: z.string().optional()
 });
 
-export class BeadsCli {
+// `bd show --json` lists dependencies as the blocking issues themselves with a
+// `dependency_type`; the JSONL export uses `depends_on_id` and `type`
+const BeadsDependencySchema = z.object({
+  id: z.string().optional(),
+  depends_on_id: z.string().optional(),
+  dependency_type: z.string().optional(),
+  type: z.string().optional(),
+});
+
+const BeadsIssueSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.string(),
+  priority: z.number().optional(),
+  issue_type: z.string().optional(),
+  description: z.string().optional(),
+  labels: z.array(z.string()).nullish().transform(labels => labels ?? undefined),
+  external_ref: z.string().nullish().transform(ref => ref ?? undefined),
+  dependencies: z.array(BeadsDependencySchema).nullish(),
+  updated_at: z.string().optional(),
+}).transform(({ dependencies, ...issue }): BeadsIssue => {
+  // Parent links are dependencies too; only `blocks` ones count as blockers
+  const idsOfType = (type: string) => (dependencies ?? [])
+    .filter(dep => (dep.dependency_type ?? dep.type ?? 'blocks') === type)
+    .map(dep => dep.depends_on_id ?? dep.id)
+    .filter((id): id is string => id !== undefined);
+  const blockedBy = idsOfType('blocks');
+  const [parent] = idsOfType('parent-child');
+  return {
+    ...issue,
+    ...(blockedBy.length > 0 ? { blockedBy } : {}),
+    ...(parent !== undefined ? { parent } : {}),
+  };
+});
+
+function parseOutput<T>(args: string[], output: string, parse: (json: unknown) => T): T {
+  try {
+    return parse(JSON.parse(output));
+  } catch (error) {
+    const reason = error instanceof z.ZodError
+      ? error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+      : (error as Error).message;
+    throw new BeadsParseError(`Could not read the output of bd ${args[0]}: ${reason}`, {
+      args,
+      exitCode: 0,
+      stderr: '',
+    });
+  }
+}
+
+// `bd show --json` prints an array for one or more IDs; older versions print a bare object
+function parseIssueList(args: string[], output: string): BeadsIssue[] {
+  return parseOutput(args, output, json => (
+    Array.isArray(json)
+      ? z.array(BeadsIssueSchema).parse(json)
+      : [BeadsIssueSchema.parse(json)]
+  ));
+}
+
+function parseCreateOutput(args: string[], output: string): BeadsCreateResult {
+  return parseOutput(args, output, json => BeadsCreateOutputSchema.parse(json));
+}
+
+// Turn whatever execa rejected with into a typed error
+function toBeadsError(args: string[], error: unknown): BeadsCommandError {
+  if (error instanceof BeadsCommandError) return error;
+  const failure = (error ?? {}) as { code?: unknown; exitCode?: unknown; stderr?: unknown; message?: unknown };
+  if (failure.code === 'ENOENT') {
+    return new BeadsNotInstalledError('bd is not installed or not on PATH', { args, stderr: '' });
+  }
+  return beadsCommandError(
+    {
+      args,
+      exitCode: typeof failure.exitCode === 'number' ? failure.exitCode : undefined,
+      stderr: typeof failure.stderr === 'string' ? failure.stderr : '',
+    },
+    typeof failure.message === 'string' ? failure.message : String(error),
+  );
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class BeadsCli implements IssueTracker {
   private projectPath: string;
   private verbose: boolean;
+  private retry: RetryOptions;
+  private log: (line: string) => void;
 
-  constructor(projectPath: string, verbose: boolean = false) {
+  /** `log` receives the verbose trace of bd calls. */
+  constructor(
+    projectPath: string,
+    verbose: boolean = false,
+    retry: Partial<RetryOptions> = {},
+    log: (line: string) => void = line => console.log(line),
+  ) {
     this.projectPath = projectPath;
     this.verbose = verbose;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...retry };
+    this.log = log;
   }
 
+  /**
+   * Run bd, retrying failures that may go away on their own (a locked
+   * database) with exponential backoff.
+   * @throws BeadsCommandError (or a subclass) describing the final failure
+   */
   private async exec(args: string[]): Promise<string> {
-    if (this.verbose) {
-      console.log(`[bd] ${args.join(' ')}`);
-    }
-    const result = await execa('bd', args, { cwd: this.projectPath });
-    if (this.verbose && result.stdout) {
-      console.log(result.stdout);
+    for (let attempt = 0; ; attempt++) {
+      if (this.verbose) {
+        this.log(`[bd] ${args.join(' ')}`);
+      }
+      try {
+        const result = await execa('bd', args, { cwd: this.projectPath });
+        if (this.verbose && result.stdout) {
+          this.log(result.stdout);
+        }
+        return result.stdout;
+      } catch (error: unknown) {
+        const failure = toBeadsError(args, error);
+        if (!failure.retryable || attempt >= this.retry.retries) {
+          throw failure;
+        }
+        const delay = Math.min(this.retry.maxDelayMs, this.retry.delayMs * 2 ** attempt);
+        if (this.verbose) {
+          this.log(`[bd] ${failure.message}; retry ${attempt + 1}/${this.retry.retries} in ${delay}ms`);
+        }
+        await sleep(delay);
+      }
     }
-    return result.stdout;
   }
 
-  async createEpic(title: string, description: string, priority: number): Promise<BeadsCreateResult> {
-    const args = ['create', title, '-t', 'epic', '-p', priority.toString(), '--json'];
+  async createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    type: string = 'epic',
+    labels: string[] = [],
+  ): Promise<BeadsCreateResult> {
+    const args = ['create', title, '-t', type, '-p', priority.toString()];
+    if (labels.length > 0) {
+      args.push('-l', labels.join(','));
+    }
+    args.push('--json');
     if (description) {
       args.push('-d', description);
     }
     const output = await this.exec(args);
-    return BeadsCreateOutputSchema.parse(JSON.parse(output));
+    return parseCreateOutput(args, output);
   }
 
-  async createChild(parentId: string, title: string, description: string): Promise<BeadsCreateResult> {
-    const args = ['create', title, '--parent', parentId, '--json'];
+  async createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    options: BeadsChildOptions = {},
+  ): Promise<BeadsCreateResult> {
+    const args = ['create', title, '--parent', parentId];
+    if (options.type) {
+      args.push('-t', options.type);
+    }
+    if (options.priority !== undefined) {
+      args.push('-p', options.priority.toString());
+    }
+    if (options.labels && options.labels.length > 0) {
+      args.push('-l', options.labels.join(','));
+    }
+    args.push('--json');
     if (description) {
       args.push('-d', description);
     }
     const output = await this.exec(args);
-    return BeadsCreateOutputSchema.parse(JSON.parse(output));
+    return parseCreateOutput(args, output);
   }
 
   async addDependency(blockedId: string, blockingId: string): Promise<void> {
     await this.exec(['dep', 'add', blockedId, blockingId]);
   }
 
+  async removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    await this.exec(['dep', 'remove', blockedId, blockingId]);
+  }
+
+  async listDependencies(issueId: string): Promise<string[]> {
+    return (await this.showIssue(issueId)).blockedBy ?? [];
+  }
+
+  async updateIssue(issueId: string, edit: BeadsIssueEdit): Promise<void> {
+    const args = ['update', issueId];
+    if (edit.title !== undefined) {
+      args.push('--title', edit.title);
+    }
+    if (edit.description !== undefined) {
+      args.push('-d', edit.description);
+    }
+    if (edit.priority !== undefined) {
+      args.push('-p', edit.priority.toString());
+    }
+    for (const label of edit.addLabels ?? []) {
+      args.push('--add-label', label);
+    }
+    for (const label of edit.removeLabels ?? []) {
+      args.push('--remove-label', label);
+    }
+    if (edit.parent !== undefined) {
+      args.push('--parent', edit.parent);
+    }
+    if (args.length === 2) return;
+    await this.exec(args);
+  }
+
   async updateStatus(issueId: string, status: string): Promise<void> {
     await this.exec(['update', issueId, '-s', status]);
   }
 
-  async close(issueId: string): Promise<void> {
-    await this.exec(['close', issueId]);
+  async close(issueId: string, reason?: string): Promise<void> {
+    const args = ['close', issueId];
+    if (reason) {
+      args.push('--reason', reason);
+    }
+    await this.exec(args);
+  }
+
+  async deleteIssue(issueId: string): Promise<void> {
+    await this.exec(['delete', issueId, '--force']);
+  }
+
+  async showIssue(issueId: string): Promise<BeadsIssue> {
+    const args = ['show', issueId, '--json'];
+    const output = await this.exec(args);
+    const issue = parseIssueList(args, output).find(i => i.id === issueId);
+    if (!issue) {
+      throw new BeadsNotFoundError(`Beads issue ${issueId} not found`, { args, exitCode: 0, stderr: '' });
+    }
+    return issue;
+  }
+
+  async showIssues(issueIds: string[]): Promise<BeadsIssue[]> {
+    if (issueIds.length === 0) return [];
+    const args = ['show', ...issueIds, '--json'];
+    const output = await this.exec(args);
+    return parseIssueList(args, output);
+  }
+
+  /**
+   * List issues of any status, optionally only the children of one parent.
+   */
+  async listIssues(filter: { parent?: string } = {}): Promise<BeadsIssue[]> {
+    const args = ['list', '--all', '--limit', '0', '--json'];
+    if (filter.parent) {
+      args.push('--parent', filter.parent);
+    }
+    const output = await this.exec(args);
+    return parseIssueList(args, output);
+  }
+
+  async importIssues(filePath: string): Promise<void> {
+    await this.exec(['import', '-i', filePath, '--rename-on-import']);
   }
 
   async checkInit(): Promise<boolean> {
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BeadsCommandError,
+  BeadsInvalidArgumentsError,
+  BeadsLockedError,
+  BeadsNotFoundError,
+  beadsCommandError,
+  beadsErrorHint,
+  classifyBeadsFailure,
+} from './errors.js';
+
+describe('classifyBeadsFailure', () => {
+  it.each([
+    ['Error: database is locked', 'locked'],
+    ['sqlite3: SQLITE_BUSY', 'locked'],
+    ['Error: issue bd-42 not found', 'not_found'],
+    ['Error: no issue found matching "bd-9"', 'not_found'],
+    ['Error: unknown flag: --colour', 'invalid_arguments'],
+    ['Error: invalid priority "9" (expected 0-4)', 'invalid_arguments'],
+    ['Error: accepts 2 arg(s), received 1', 'invalid_arguments'],
+    ['panic: something else', 'failed'],
+    ['', 'failed'],
+  ])('classifies %j as %s', (stderr, kind) => {
+    expect(classifyBeadsFailure(stderr)).toBe(kind);
+  });
+});
+
+describe('beadsCommandError', () => {
+  it('builds the typed error with the command, exit code and stderr', () => {
+    const error = beadsCommandError({
+      args: ['dep', 'add', 'bd-1', 'bd-2'],
+      exitCode: 1,
+      stderr: 'Error: issue bd-2 not found\nUsage: ...',
+    });
+
+    expect(error).toBeInstanceOf(BeadsNotFoundError);
+    expect(error).toBeInstanceOf(BeadsCommandError);
+    expect(error.message).toBe('bd dep failed (exit code 1): Error: issue bd-2 not found');
+    expect(error.command).toBe('bd dep add bd-1 bd-2');
+    expect(error.exitCode).toBe(1);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('marks only lock failures as retryable', () => {
+    expect(beadsCommandError({ args: ['create'], stderr: 'database is locked' })).toBeInstanceOf(BeadsLockedError);
+    expect(beadsCommandError({ args: ['create'], stderr: 'database is locked' }).retryable).toBe(true);
+    expect(beadsCommandError({ args: ['create'], stderr: 'unknown flag: -x' })).toBeInstanceOf(BeadsInvalidArgumentsError);
+  });
+
+  it('falls back to the given message when stderr is empty', () => {
+    const error = beadsCommandError({ args: ['list'], exitCode: 2, stderr: '' }, 'Command failed');
+
+    expect(error.message).toBe('bd list failed (exit code 2): Command failed');
+    expect(error.kind).toBe('failed');
+  });
+
+  it('quotes arguments with spaces in the command', () => {
+    const error = beadsCommandError({ args: ['create', 'Fix the bug', '-p', '1'], stderr: '' });
+
+    expect(error.command).toBe('bd create "Fix the bug" -p 1');
+  });
+});
+
+describe('beadsErrorHint', () => {
+  it('suggests what to do for each kind of failure', () => {
+    expect(beadsErrorHint(beadsCommandError({ args: ['create'], stderr: 'database is locked' }))).toContain('--retries');
+    expect(beadsErrorHint(beadsCommandError({ args: ['show'], stderr: 'not found' }))).toContain('mapping file');
+  });
+});
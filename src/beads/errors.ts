@@ -0,0 +1,119 @@
+/**
+ * Typed failures of `bd` invocations. Every error carries the command that
+ * failed, its exit code and stderr so the CLI can say what went wrong and
+ * what to do about it.
+ */
+
+export type BeadsErrorKind = 'not_found' | 'locked' | 'invalid_arguments' | 'parse' | 'not_installed' | 'failed';
+
+export interface BeadsErrorDetails {
+  /** Arguments passed to bd, without the `bd` itself. */
+  args: string[];
+  exitCode?: number;
+  stderr: string;
+}
+
+export class BeadsCommandError extends Error {
+  readonly kind: BeadsErrorKind = 'failed';
+  readonly args: string[];
+  readonly exitCode?: number;
+  readonly stderr: string;
+
+  constructor(message: string, details: BeadsErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.args = details.args;
+    this.exitCode = details.exitCode;
+    this.stderr = details.stderr;
+  }
+
+  /** The failed command as it would be typed in a shell. */
+  get command(): string {
+    const quoted = this.args.map(arg => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg)));
+    return ['bd', ...quoted].join(' ');
+  }
+
+  /** Whether running the same command again may succeed. */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** bd could not find an issue (or other record) the command refers to. */
+export class BeadsNotFoundError extends BeadsCommandError {
+  override readonly kind = 'not_found';
+}
+
+/** Another process holds the Beads database lock. */
+export class BeadsLockedError extends BeadsCommandError {
+  override readonly kind = 'locked';
+
+  override get retryable(): boolean {
+    return true;
+  }
+}
+
+/** bd rejected the command line, e.g. an unknown flag or an invalid value. */
+export class BeadsInvalidArgumentsError extends BeadsCommandError {
+  override readonly kind = 'invalid_arguments';
+}
+
+/** bd succeeded but printed output tm2bd could not read. */
+export class BeadsParseError extends BeadsCommandError {
+  override readonly kind = 'parse';
+}
+
+/** The bd executable could not be started. */
+export class BeadsNotInstalledError extends BeadsCommandError {
+  override readonly kind = 'not_installed';
+}
+
+const LOCKED_PATTERN = /database is locked|database table is locked|sqlite_busy|resource temporarily unavailable|lock(ed)? by another process/i;
+const NOT_FOUND_PATTERN = /not found|no such issue|no issue(s)? (found|with id)|does not exist/i;
+const INVALID_ARGUMENTS_PATTERN = /unknown (flag|command|shorthand flag)|invalid (argument|value|priority|status|type)|required flag|accepts \d+ arg|requires (at least )?\d+ arg/i;
+
+/** Decide which kind of failure bd's stderr describes. */
+export function classifyBeadsFailure(stderr: string): BeadsErrorKind {
+  if (LOCKED_PATTERN.test(stderr)) return 'locked';
+  if (INVALID_ARGUMENTS_PATTERN.test(stderr)) return 'invalid_arguments';
+  if (NOT_FOUND_PATTERN.test(stderr)) return 'not_found';
+  return 'failed';
+}
+
+/**
+ * Build the typed error for a bd invocation that exited with an error.
+ */
+export function beadsCommandError(details: BeadsErrorDetails, fallbackMessage?: string): BeadsCommandError {
+  const firstLine = details.stderr.trim().split('\n')[0];
+  const reason = firstLine || fallbackMessage || 'bd failed';
+  const exit = details.exitCode !== undefined ? ` (exit code ${details.exitCode})` : '';
+  const message = `bd ${details.args[0] ?? ''} failed${exit}: ${reason}`;
+  switch (classifyBeadsFailure(details.stderr)) {
+    case 'locked':
+      return new BeadsLockedError(message, details);
+    case 'invalid_arguments':
+      return new BeadsInvalidArgumentsError(message, details);
+    case 'not_found':
+      return new BeadsNotFoundError(message, details);
+    default:
+      return new BeadsCommandError(message, details);
+  }
+}
+
+/** What the user can do about each kind of failure. */
+export function beadsErrorHint(error: BeadsCommandError): string {
+  switch (error.kind) {
+    case 'locked':
+      return 'Another bd process is holding the database lock. Wait for it to finish, or raise --retries / --retry-delay.';
+    case 'not_found':
+      return 'An issue tm2bd expected is missing from Beads. If it was deleted, remove it from the mapping file or re-run with --force.';
+    case 'invalid_arguments':
+      return 'bd rejected the command line. Check that your bd version supports it (`bd --version`).';
+    case 'parse':
+      return 'bd printed output tm2bd could not read. Check that your bd version supports --json.';
+    case 'not_installed':
+      return 'Install Beads and make sure `bd` is on your PATH.';
+    case 'failed':
+      return 'Re-run with --verbose to see every bd command.';
+  }
+}
@@ -3,27 +3,658 @@ import fs from 'fs/promises';
 import path from 'path';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { TaskMasterProjectSchema } from './schemas/taskmaster.js';
+import { DEFAULT_TAG, parseTasksJson, readTaggedTasksJson } from './schemas/taskmaster.js';
+import { CONFIG_FILE_NAME, discoverConfig, resolveConfig, validateConfig } from './schemas/config.js';
+import type { SyncConfig } from './schemas/config.js';
 import type { TaskMasterProject } from './schemas/taskmaster.js';
+import {
+  defaultComplexityReportPath,
+  discoverComplexityReport,
+  mergeComplexityReport,
+} from './schemas/complexity-report.js';
 import { topologicalSort } from './utils/topological-sort.js';
-import { BeadsCli } from './beads/cli.js';
+import { BeadsCli, DEFAULT_RETRY_OPTIONS } from './beads/cli.js';
+import { BeadsCommandError, beadsErrorHint } from './beads/errors.js';
+import type { IssueTracker } from './tracker/issue-tracker.js';
+import { RecordingTracker } from './tracker/recording-tracker.js';
 import { IdMapper } from './mapping/id-mapper.js';
 import { createEpics } from './sync/epic-creator.js';
 import { createAllChildren } from './sync/child-creator.js';
 import { createAllTestChildren } from './sync/test-creator.js';
-import { wireAllDependencies } from './sync/dependency-wirer.js';
+import { wireAllDependencies, reconcileAllDependencies } from './sync/dependency-wirer.js';
 import { syncAllStatuses } from './sync/status-syncer.js';
+import { updateAllIssues } from './sync/issue-updater.js';
+import type { UpdateSummary } from './sync/issue-updater.js';
+import { collectStatusChanges, writeStatusChanges } from './sync/status-puller.js';
+import type { SkippedStatus, StatusChange } from './sync/status-puller.js';
+import { planRollback, executeRollback } from './sync/rollback.js';
+import type { RollbackMode } from './sync/rollback.js';
+import { adoptIssues } from './sync/adopter.js';
+import type { AdoptReport } from './sync/adopter.js';
+import { detectTaskChanges, snapshotTasks, syncTasks } from './sync/incremental.js';
+import type { TaskSnapshot } from './sync/incremental.js';
+import { buildImportPlan, applyImportPlan } from './sync/bulk-import.js';
+import { SyncReporter } from './sync/report.js';
+import { detectDrift } from './sync/drift.js';
+import type { DriftKind, DriftReport } from './sync/drift.js';
+import { verifyMapping, repairMapping } from './sync/mapping-verifier.js';
+import { validateTasksDocument } from './sync/task-validator.js';
+import { findOrphans, applyOrphanPolicy } from './sync/orphans.js';
+import { classifyItems, recordContentHashes, tasksNeedingSync } from './sync/content-hash.js';
+import {
+  CONFLICT_FIELDS,
+  fetchSyncedIssues,
+  recordLastSynced,
+  settleConflicts,
+} from './sync/conflicts.js';
+import type { ConflictOutcome, ConflictResolution } from './sync/conflicts.js';
+import { applySyncPlan, buildSyncPlan, parseSyncPlan, summarizeSyncPlan } from './sync/sync-plan.js';
+import type { MissingIssue, PlanConflict, PlanIssueRef, SyncPlan, SyncPlanStep } from './sync/sync-plan.js';
+import type { ValidationProblemKind, ValidationReport } from './sync/task-validator.js';
+import type { VerifyProblem, VerifyProblemKind } from './sync/mapping-verifier.js';
+import type { ItemCounts, SyncReport } from './sync/report.js';
+import { watchFiles } from './utils/file-watcher.js';
 
 // ---------------------------------------------------------------------------
-// Inline tasks.json parser (until parseTasksJson is exported from schemas)
+// Helpers
 // ---------------------------------------------------------------------------
 
-async function parseTasksJson(filePath: string): Promise<TaskMasterProject> {
-  const content = await fs.readFile(filePath, 'utf-8');
-  const json = JSON.parse(content) as Record<string, unknown>;
-  // The tasks.json has a "master" wrapper with "tasks" inside
-  const projectData = (json.master || json) as Record<string, unknown>;
-  return TaskMasterProjectSchema.parse(projectData);
+/**
+ * Resolve the --tag / --all-tags options to the projects that should be synced.
+ */
+async function selectTaggedProjects(
+  tasksPath: string,
+  opts: { tag: string; allTags: boolean },
+): Promise<Map<string, TaskMasterProject>> {
+  if (opts.allTags) {
+    const projects = await readTaggedTasksJson(tasksPath);
+    if (projects.size === 0) {
+      throw new Error(`No tags found in ${tasksPath}`);
+    }
+    return projects;
+  }
+  return new Map([[opts.tag, await parseTasksJson(tasksPath, opts.tag)]]);
+}
+
+/**
+ * Merge task-master's complexity report for each tag into its tasks, using
+ * --complexity-report when given. Tags without a report are left as they are.
+ */
+async function applyComplexityReports(
+  projects: Map<string, TaskMasterProject>,
+  tasksPath: string,
+  reportPath?: string,
+): Promise<void> {
+  if (reportPath && projects.size > 1) {
+    throw new Error('--complexity-report can only be used with a single --tag');
+  }
+  for (const [tag, project] of projects) {
+    const report = await discoverComplexityReport(
+      tasksPath,
+      tag,
+      reportPath ? path.resolve(reportPath) : undefined,
+    );
+    if (report) {
+      project.tasks = mergeComplexityReport(project.tasks, report);
+    }
+  }
+}
+
+/**
+ * Read tasks.json and check the selected tags for schema errors, duplicate
+ * IDs and broken or circular dependencies.
+ */
+async function validateTasksFile(
+  tasksPath: string,
+  opts: { tag: string; allTags: boolean },
+): Promise<ValidationReport> {
+  const content = await fs.readFile(tasksPath, 'utf-8');
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${tasksPath} is not valid JSON: ${(error as Error).message}`);
+  }
+  return validateTasksDocument(json, opts.allTags ? undefined : [opts.tag]);
+}
+
+/**
+ * Where a command prints its progress. With --json it goes to stderr, so
+ * stdout carries nothing but the JSON.
+ */
+type Log = (...args: unknown[]) => void;
+
+function progressLog(json: boolean): Log {
+  return json ? (...args) => console.error(...args) : (...args) => console.log(...args);
+}
+
+async function requireBeadsInit(cli: BeadsCli): Promise<void> {
+  if (!(await cli.checkInit())) {
+    console.error(
+      chalk.red('Error: Beads is not initialised in this project. Run `bd init` first.'),
+    );
+    process.exit(1);
+  }
+}
+
+/** Load the mapping file, saying so when it is in an older format. */
+async function loadMapper(mapFilePath: string, log: Log = console.log): Promise<IdMapper> {
+  const mapper = await IdMapper.load(mapFilePath);
+  const migration = mapper.getMigration();
+  if (migration) {
+    log(
+      chalk.yellow(
+        `Mapping file is in version ${migration.from}; it is upgraded to ${migration.to} when next saved, ` +
+        `keeping the original at ${migration.backupPath}`,
+      ),
+    );
+  }
+  return mapper;
+}
+
+async function loadExistingMapper(mapFilePath: string): Promise<IdMapper> {
+  if (!(await IdMapper.exists(mapFilePath))) {
+    console.error(
+      chalk.red(
+        `Error: No mapping file found at ${mapFilePath}.\n` +
+        'Run `tm2bd sync` first to create the Beads issues.',
+      ),
+    );
+    process.exit(1);
+  }
+  return loadMapper(mapFilePath);
+}
+
+/**
+ * Parse a comma-separated list of Task-Master task IDs such as "3,5,8".
+ */
+function parseIdList(value: string): number[] {
+  return value.split(',').map((part) => {
+    const id = Number(part.trim());
+    if (!Number.isInteger(id)) {
+      throw new Error(`Invalid task ID "${part}" in --only`);
+    }
+    return id;
+  });
+}
+
+function parseConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency "${value}" (expected a positive integer)`);
+  }
+  return concurrency;
+}
+
+interface ConfigOptions {
+  config?: string;
+  epicType?: string;
+  childType?: string;
+  testType?: string;
+  priorityMap?: string;
+  defaultPriority?: string;
+  label: string[];
+  orphans?: string;
+  conflicts?: string;
+}
+
+/**
+ * Add the flags that override tm2bd.config.json to a command.
+ */
+function addConfigOptions(command: Command): Command {
+  return command
+    .option('--config <path>', `Path to a config file (default: ${CONFIG_FILE_NAME} next to tasks.json)`)
+    .option('--epic-type <type>', 'Beads issue type for top-level tasks')
+    .option('--child-type <type>', 'Beads issue type for subtasks')
+    .option('--test-type <type>', 'Beads issue type for test issues')
+    .option('--priority-map <map>', 'Priority mapping, e.g. high=P1,medium=P2,low=P3')
+    .option('--default-priority <priority>', 'Priority for child and test issues (0-4 or P0-P4)')
+    .option('--label <name>', 'Extra label for every created issue (repeatable)', collectValues, []);
+}
+
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Numeric strings from the command line become numbers; "P2" stays for the schema
+function priorityFlag(value: string): number | string {
+  return /^\d+$/.test(value.trim()) ? Number(value) : value.trim();
+}
+
+/**
+ * Resolve built-in defaults, then the config file, then CLI flags.
+ */
+async function loadSyncConfig(tasksPath: string, opts: ConfigOptions): Promise<SyncConfig> {
+  const fileConfig = await discoverConfig(
+    tasksPath,
+    opts.config ? path.resolve(opts.config) : undefined,
+  );
+
+  const priorityMap: Record<string, number | string> = {};
+  for (const entry of opts.priorityMap?.split(',') ?? []) {
+    const [level, value] = entry.split('=');
+    if (!level || value === undefined) {
+      throw new Error(`Invalid --priority-map entry "${entry}" (expected level=priority)`);
+    }
+    priorityMap[level.trim()] = priorityFlag(value);
+  }
+
+  // "tm-wins" applies to every field, "status=bd-wins,title=tm-wins" to some
+  const conflicts: Record<string, string> = {};
+  for (const entry of opts.conflicts?.split(',') ?? []) {
+    const [field, strategy] = entry.includes('=') ? entry.split('=') : [undefined, entry];
+    for (const name of field === undefined ? CONFLICT_FIELDS : [field.trim()]) {
+      conflicts[name] = strategy.trim();
+    }
+  }
+
+  const flagConfig = validateConfig(
+    {
+      issueTypes: { epic: opts.epicType, child: opts.childType, test: opts.testType },
+      priorityMap,
+      labels: opts.label,
+      orphans: { policy: opts.orphans },
+      conflicts,
+      defaults: {
+        priority: opts.defaultPriority === undefined ? undefined : priorityFlag(opts.defaultPriority),
+      },
+    },
+    'command-line options',
+  );
+
+  return resolveConfig(fileConfig, flagConfig);
+}
+
+interface RetryFlags {
+  retries: string;
+  retryDelay: string;
+}
+
+/**
+ * Add the flags that control how bd calls failing on a locked database are
+ * retried.
+ */
+function addRetryOptions(command: Command): Command {
+  return command
+    .option('--retries <n>', 'Retry bd calls that fail on a locked database up to n times', String(DEFAULT_RETRY_OPTIONS.retries))
+    .option('--retry-delay <ms>', 'Wait before the first retry, doubled for each one after it', String(DEFAULT_RETRY_OPTIONS.delayMs));
+}
+
+function createBeadsCli(projectPath: string, opts: RetryFlags & { verbose: boolean }, log: Log = console.log): BeadsCli {
+  const retries = Number(opts.retries);
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`Invalid --retries "${opts.retries}" (expected a non-negative integer)`);
+  }
+  const delayMs = Number(opts.retryDelay);
+  if (!Number.isInteger(delayMs) || delayMs < 0) {
+    throw new Error(`Invalid --retry-delay "${opts.retryDelay}" (expected milliseconds)`);
+  }
+  return new BeadsCli(projectPath, opts.verbose, { retries, delayMs }, log);
+}
+
+/** Error message plus, for failed bd calls, the command and what to do next. */
+function describeError(error: Error): string {
+  if (!(error instanceof BeadsCommandError)) {
+    return error.message;
+  }
+  const lines = [error.message, `  Command  : ${error.command}`];
+  if (error.exitCode !== undefined) {
+    lines.push(`  Exit code: ${error.exitCode}`);
+  }
+  if (error.stderr.trim()) {
+    lines.push(`  stderr   : ${error.stderr.trim().split('\n').join('\n             ')}`);
+  }
+  lines.push(`  ${beadsErrorHint(error)}`);
+  return lines.join('\n');
+}
+
+function reportError(error: unknown, verbose: boolean): never {
+  if (error instanceof Error) {
+    console.error(chalk.red(`\nError: ${describeError(error)}`));
+    if (verbose && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+  } else {
+    console.error(chalk.red('\nAn unexpected error occurred.'));
+  }
+  process.exit(1);
+}
+
+/**
+ * Flush the mapping to disk when the process is interrupted so that
+ * `--resume` can pick up from the last created issue. Returns a function
+ * that removes the handlers again.
+ */
+function flushMappingOnSignal(mapper: IdMapper, mapFilePath: string): () => void {
+  const handler = (signal: NodeJS.Signals) => {
+    console.error(chalk.yellow(`\nReceived ${signal}, saving mapping to ${mapFilePath}...`));
+    mapper
+      .save(mapFilePath)
+      .catch((error: unknown) => {
+        console.error(chalk.red(`Failed to save mapping: ${String(error)}`));
+      })
+      .finally(() => {
+        process.exit(signal === 'SIGINT' ? 130 : 143);
+      });
+  };
+  process.once('SIGINT', handler);
+  process.once('SIGTERM', handler);
+  return () => {
+    process.off('SIGINT', handler);
+    process.off('SIGTERM', handler);
+  };
+}
+
+/** How a plan step names an issue: its item, plus its Beads ID if it exists already. */
+function planIssueName(ref: PlanIssueRef): string {
+  return ref.beadsId ? `${ref.item} (${ref.beadsId})` : ref.item;
+}
+
+/** Mapped issues a plan leaves out because they are gone from Beads. */
+function printMissingIssues(missing: MissingIssue[], log: Log): void {
+  if (missing.length === 0) return;
+  log(chalk.yellow(`\n${missing.length} mapped issue(s) are gone from Beads; the plan leaves out every step that touches them:`));
+  for (const issue of missing) {
+    log(chalk.yellow(`  ! ${issue.tag} ${issue.item} (${issue.beadsId})`));
+  }
+  log(chalk.yellow('Run `tm2bd verify --repair` to recreate them.'));
+}
+
+/** Conflicts a plan settled before working out its steps. */
+function printPlanConflicts(conflicts: PlanConflict[], log: Log): void {
+  if (conflicts.length === 0) return;
+  log(chalk.white('\nConflicts:\n'));
+  for (const conflict of conflicts) {
+    log(
+      chalk.cyan(`  ${conflict.tag} ${conflict.item} ${conflict.field}: `) +
+      chalk.gray(`${conflict.message}, `) +
+      (conflict.outcome === 'reported' ? chalk.yellow : chalk.green)(CONFLICT_OUTCOMES[conflict.outcome]),
+    );
+  }
+  if (conflicts.some(c => c.outcome === 'beads' && c.field === 'status')) {
+    log(chalk.yellow('Run `tm2bd pull` afterwards to write the statuses kept from Beads to tasks.json.'));
+  }
+}
+
+const PLAN_CREATE_LABELS = { create_epic: 'epic', create_child: 'child', create_test: 'test issue' } as const;
+
+/**
+ * Print a sync plan step by step: + for what it creates or adds, - for what
+ * it removes and ~ for what it changes.
+ */
+function printSyncPlan(plan: SyncPlan, log: Log = console.log): void {
+  printMissingIssues(plan.missing ?? [], log);
+  printPlanConflicts(plan.conflicts ?? [], log);
+  if (plan.steps.length === 0) {
+    log(chalk.green('\nNo changes: Beads is up to date with tasks.json.'));
+    return;
+  }
+
+  const multipleTags = new Set(plan.steps.map(step => step.tag)).size > 1;
+  let currentTag: string | undefined;
+  log(chalk.white('\ntm2bd will perform the following steps:\n'));
+  for (const step of plan.steps) {
+    if (multipleTags && step.tag !== currentTag) {
+      currentTag = step.tag;
+      log(chalk.magenta(chalk.bold(`  === Tag: ${step.tag} ===`)));
+    }
+    switch (step.op) {
+      case 'create_epic':
+      case 'create_child':
+      case 'create_test':
+        log(
+          chalk.green(`  + ${PLAN_CREATE_LABELS[step.op]} ${step.item}: `) +
+          chalk.white(`"${step.title}" (${step.type}, P${step.priority})`) +
+          chalk.gray(
+            `${step.op === 'create_epic' ? '' : ` under ${planIssueName(step.parent)}`}` +
+            `${step.labels.length > 0 ? ` [${step.labels.join(', ')}]` : ''}`,
+          ),
+        );
+        break;
+      case 'add_dependency':
+        log(chalk.green('  + dependency: ') + chalk.white(`${planIssueName(step.blocked)} depends on ${planIssueName(step.blocking)}`));
+        break;
+      case 'remove_dependency':
+        log(chalk.red('  - dependency: ') + chalk.white(`${planIssueName(step.blocked)} no longer depends on ${planIssueName(step.blocking)}`));
+        break;
+      case 'set_status':
+        log(chalk.yellow('  ~ status: ') + chalk.white(`${planIssueName(step.issue)} \u2192 ${step.status}`));
+        break;
+      case 'close':
+        log(chalk.yellow('  ~ close: ') + chalk.white(planIssueName(step.issue)));
+        break;
+      case 'update_issue': {
+        const fields = (['title', 'description', 'priority'] as const).filter(field => step[field] !== undefined);
+        log(chalk.yellow('  ~ update: ') + chalk.white(`${planIssueName(step.issue)} ${fields.join(', ')}`));
+        break;
+      }
+      case 'orphan':
+        log(chalk.red(`  - orphan (${step.policy}): `) + chalk.white(planIssueName(step.issue)));
+        break;
+    }
+  }
+
+  const summary = summarizeSyncPlan(plan);
+  log(
+    chalk.bold(
+      `\nPlan: create ${countLabel(summary.created)}, add ${summary.addedDependencies} and remove ` +
+      `${summary.removedDependencies} dependencies, change ${summary.statuses} statuses, ` +
+      `update ${summary.updates} issues, handle ${summary.orphans} orphans.`,
+    ),
+  );
+}
+
+/** "create_child 3.2", "set_status 3 (bd-4)": what a plan step acts on. */
+function describePlanStep(step: SyncPlanStep): string {
+  switch (step.op) {
+    case 'create_epic':
+    case 'create_child':
+    case 'create_test':
+      return `${step.op} ${step.item}`;
+    case 'add_dependency':
+    case 'remove_dependency':
+      return `${step.op} ${planIssueName(step.blocked)} \u2192 ${planIssueName(step.blocking)}`;
+    case 'set_status':
+    case 'close':
+    case 'update_issue':
+    case 'orphan':
+      return `${step.op} ${planIssueName(step.issue)}`;
+  }
+}
+
+/** "2 epics, 5 child issues and 1 test issue", or "nothing". */
+function countLabel(counts: ItemCounts): string {
+  const parts = [
+    [counts.epics, 'epic', 'epics'],
+    [counts.children, 'child issue', 'child issues'],
+    [counts.tests, 'test issue', 'test issues'],
+  ] as const;
+  const described = parts
+    .filter(([count]) => count > 0)
+    .map(([count, one, many]) => `${count} ${count === 1 ? one : many}`);
+  if (described.length === 0) return 'nothing';
+  return described.length === 1
+    ? described[0]
+    : `${described.slice(0, -1).join(', ')} and ${described[described.length - 1]}`;
+}
+
+/**
+ * Print the sync report, or the plan of a dry run, as JSON (--json) and/or
+ * write it to a file (--report).
+ */
+async function emitSyncReport(report: SyncReport, opts: { json: boolean; report?: string }): Promise<void> {
+  const content = `${JSON.stringify(report, null, 2)}\n`;
+  if (opts.report) {
+    await fs.writeFile(path.resolve(opts.report), content, 'utf-8');
+  }
+  if (opts.json) {
+    process.stdout.write(content);
+  }
+}
+
+const DRIFT_LABELS: Record<DriftKind, string> = {
+  unmapped: 'not synced',
+  removed: 'removed',
+  missing_issue: 'missing in Beads',
+  changed: 'changed',
+  status: 'status',
+  dependency: 'dependency',
+};
+
+/** Print drift grouped by epic, followed by a count per kind. */
+function printDrift(report: DriftReport): void {
+  for (const epic of report.epics) {
+    console.log(
+      chalk.white(`\n[${epic.taskId}] ${epic.title}`) +
+      chalk.gray(epic.beadsId ? ` (${epic.beadsId})` : ''),
+    );
+    for (const entry of epic.entries) {
+      console.log(
+        chalk.cyan(`  ${entry.ref.padEnd(10)} `) +
+        chalk.yellow(`${DRIFT_LABELS[entry.kind]}: `) +
+        chalk.white(entry.message),
+      );
+    }
+  }
+  const counts = Object.entries(report.counts)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${DRIFT_LABELS[kind as DriftKind]}`);
+  if (counts.length > 0) {
+    console.log(chalk.gray(`\n${report.tag}: ${counts.join(', ')}`));
+  }
+}
+
+const VERIFY_LABELS: Record<VerifyProblemKind, string> = {
+  duplicate: 'duplicate',
+  missing: 'missing in Beads',
+  wrong_type: 'wrong type',
+  wrong_parent: 'wrong parent',
+  missing_dependency: 'missing dependency',
+};
+
+function printVerifyProblems(problems: VerifyProblem[]): void {
+  for (const problem of problems) {
+    console.log(
+      chalk.cyan(`  ${problem.ref.padEnd(10)} `) +
+      chalk.yellow(`${VERIFY_LABELS[problem.kind]}: `) +
+      chalk.white(problem.message) +
+      (problem.repairable ? '' : chalk.gray(' (not repairable)')),
+    );
+  }
+}
+
+const VALIDATION_LABELS: Record<ValidationProblemKind, string> = {
+  schema: 'schema',
+  duplicate_id: 'duplicate ID',
+  dangling_dependency: 'dangling dependency',
+  self_dependency: 'self-dependency',
+  cycle: 'cycle',
+};
+
+function printValidationProblems(report: ValidationReport, log: Log = console.log): void {
+  for (const problem of report.problems) {
+    const tagPrefix = report.tags.length > 1 ? `[${problem.tag}] ` : '';
+    log(
+      chalk.cyan(`  ${tagPrefix}${(problem.ref ?? '').padEnd(10)} `) +
+      chalk.yellow(`${VALIDATION_LABELS[problem.kind]}: `) +
+      (problem.path ? chalk.gray(`${problem.path}: `) : '') +
+      chalk.white(problem.message),
+    );
+  }
+}
+
+/**
+ * Validate the selected tags of tasks.json before a command writes to Beads,
+ * listing every problem and stopping if there are any.
+ */
+async function requireValidTasks(
+  tasksPath: string,
+  opts: { tag: string; allTags: boolean },
+  outcome: string,
+  log: Log = console.log,
+): Promise<void> {
+  const validation = await validateTasksFile(tasksPath, opts);
+  if (validation.problems.length > 0) {
+    printValidationProblems(validation, log);
+    throw new Error(`tasks.json has ${validation.problems.length} problem(s); ${outcome}`);
+  }
+}
+
+/**
+ * Apply the orphan policy to the mapped items of one tag that are no longer
+ * in tasks.json. With the ignore policy they are only listed.
+ */
+async function handleOrphans(
+  tasks: TaskMasterProject['tasks'],
+  tracker: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig,
+  log: Log = console.log,
+): Promise<void> {
+  const orphans = findOrphans(tasks, mapper);
+  if (orphans.length === 0) return;
+  if (config.orphans.policy === 'ignore') {
+    log(
+      chalk.yellow(
+        `\n${orphans.length} mapped item(s) no longer in tasks.json left alone: ${orphans.map(o => o.ref).join(', ')}` +
+        '\nUse --orphans close, label or delete to clean them up.',
+      ),
+    );
+    return;
+  }
+  log(chalk.blue(`\nHandling ${orphans.length} item(s) removed from tasks.json (${config.orphans.policy})...`));
+  for (const action of await applyOrphanPolicy(orphans, tracker, mapper, config.orphans.policy, config.orphans.reason)) {
+    log(chalk.green(`  ${action.ref.padEnd(10)} ${action.beadsId} ${action.outcome === 'missing' ? 'already gone from Beads' : action.outcome}`));
+  }
+}
+
+const ORPHAN_POLICY_HELP = 'What to do with issues whose task or subtask left tasks.json: ignore, close, label or delete (default: ignore)';
+
+const CONFLICT_OUTCOMES: Record<ConflictOutcome, string> = {
+  taskMaster: 'pushed tasks.json',
+  beads: 'kept Beads',
+  reported: 'left as is',
+};
+
+/** Write the statuses Beads won in conflicts back to tasks.json. */
+async function writePulledStatuses(tasksPath: string, changes: StatusChange[], log: Log = console.log): Promise<void> {
+  if (changes.length === 0) return;
+  const applied = await writeStatusChanges(tasksPath, changes);
+  log(chalk.green(`\nWrote ${applied} status(es) kept from Beads to ${tasksPath}.`));
+}
+
+/** List each conflict with how it was resolved. */
+function printConflicts(
+  resolutions: (ConflictResolution & { tag: string })[],
+  multipleTags: boolean,
+  log: Log = console.log,
+): void {
+  if (resolutions.length === 0) return;
+  log(chalk.white('\nConflicts:\n'));
+  for (const resolution of resolutions) {
+    const tagPrefix = multipleTags ? `[${resolution.tag}] ` : '';
+    log(
+      chalk.cyan(`  ${tagPrefix}#${resolution.ref} ${resolution.field} `) +
+      chalk.white(`"${resolution.title}": `) +
+      chalk.gray(`${resolution.message}, `) +
+      (resolution.outcome === 'reported' ? chalk.yellow : chalk.green)(CONFLICT_OUTCOMES[resolution.outcome]),
+    );
+  }
+  if (resolutions.some(r => r.outcome === 'reported')) {
+    log(chalk.yellow(
+      '\nResolve the conflicts by hand, or pick a strategy with --conflicts or the "conflicts" section of the config file.',
+    ));
+  }
+}
+
+const CONFLICT_STRATEGY_HELP =
+  'How to resolve fields changed in both tasks.json and Beads: tm-wins, bd-wins, newest or report-only, ' +
+  'for every field or per field, e.g. status=bd-wins,title=tm-wins (default: report-only)';
+
+function progressLabel(kind: string, current: number, total: number, skipped: boolean): string {
+  return skipped
+    ? chalk.gray(`  ${kind} ${current}/${total} already synced, skipped`)
+    : chalk.green(`  ${kind} ${current}/${total} created`);
 }
 
 // ---------------------------------------------------------------------------
@@ -37,47 +668,63 @@ program
   .description('Sync task-master-ai tasks to Beads issue tracker')
   .version('1.0.0');
 
-program
-  .command('sync')
+addRetryOptions(addConfigOptions(program.command('sync')))
   .description('Synchronise Task-Master tasks into Beads as epics, children, and dependencies')
   .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
   .option('--project <dir>', 'Beads project directory', '.')
-  .option('--dry-run', 'Show what would be created without making changes', false)
+  .option('--tag <name>', 'Task-Master tag to sync', DEFAULT_TAG)
+  .option('--all-tags', 'Sync every tag in tasks.json', false)
+  .option('--complexity-report <path>', 'Path to a task-master complexity report (default: .taskmaster/reports)')
+  .option('--dry-run', 'Print the plan of this sync without making changes', false)
   .option('--force', 'Overwrite existing mapping file', false)
   .option('--resume', 'Resume a previously interrupted sync using existing mapping', false)
+  .option('--bulk', 'Create all new issues with a single `bd import` instead of one bd call each', false)
+  .option('--concurrency <n>', 'Number of bd calls to run in parallel', '1')
   .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--orphans <policy>', ORPHAN_POLICY_HELP)
+  .option('--conflicts <strategies>', 'With --resume: ' + CONFLICT_STRATEGY_HELP)
+  .option('--json', 'Print a JSON report (with --dry-run, the plan) on stdout; progress goes to stderr', false)
+  .option('--report <file>', 'Write a JSON report of the run (with --dry-run, the plan) to this file')
   .option('-v, --verbose', 'Enable verbose output', false)
   .action(async (opts: {
     tasks: string;
     project: string;
+    tag: string;
+    allTags: boolean;
+    complexityReport?: string;
     dryRun: boolean;
     force: boolean;
     resume: boolean;
+    bulk: boolean;
+    concurrency: string;
     mapFile: string;
+    json: boolean;
+    report?: string;
     verbose: boolean;
-  }) => {
+  } & ConfigOptions & RetryFlags) => {
+    const log = progressLog(opts.json);
+    let reporter: SyncReporter | undefined;
+    let recorder: RecordingTracker | undefined;
+    let mapper: IdMapper | undefined;
+
     try {
       const tasksPath = path.resolve(opts.tasks);
       const projectPath = path.resolve(opts.project);
       const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+      const concurrency = parseConcurrency(opts.concurrency);
 
       if (opts.verbose) {
-        console.log(chalk.gray(`Tasks file : ${tasksPath}`));
-        console.log(chalk.gray(`Project dir: ${projectPath}`));
-        console.log(chalk.gray(`Map file   : ${mapFilePath}`));
+        log(chalk.gray(`Tasks file : ${tasksPath}`));
+        log(chalk.gray(`Project dir: ${projectPath}`));
+        log(chalk.gray(`Map file   : ${mapFilePath}`));
       }
 
       // ------------------------------------------------------------------
       // 1. Check beads init
       // ------------------------------------------------------------------
-      const cli = new BeadsCli(projectPath, opts.verbose);
-      const isInit = await cli.checkInit();
-      if (!isInit) {
-        console.error(
-          chalk.red('Error: Beads is not initialised in this project. Run `bd init` first.'),
-        );
-        process.exit(1);
-      }
+      const cli = createBeadsCli(projectPath, opts, log);
+      await requireBeadsInit(cli);
 
       // ------------------------------------------------------------------
       // 2. Check idempotency – mapping file exists?
@@ -87,7 +734,8 @@ program
         console.error(
           chalk.red(
             `Error: Mapping file already exists at ${mapFilePath}.\n` +
-            'Use --force to overwrite or --resume to continue a previous sync.',
+            'Use --force to overwrite, --resume to continue a previous sync, ' +
+            'or `tm2bd update` to push edits to existing issues.',
           ),
         );
         process.exit(1);
@@ -96,10 +744,9 @@ program
       // ------------------------------------------------------------------
       // 3. Load or create IdMapper
       // ------------------------------------------------------------------
-      let mapper: IdMapper;
       if (opts.resume && mapExists) {
-        console.log(chalk.yellow('Resuming from existing mapping file...'));
-        mapper = await IdMapper.load(mapFilePath);
+        log(chalk.yellow('Resuming from existing mapping file...'));
+        mapper = await loadMapper(mapFilePath, log);
       } else {
         mapper = new IdMapper();
       }
@@ -107,139 +754,983 @@ program
       // ------------------------------------------------------------------
       // 4. Parse tasks.json
       // ------------------------------------------------------------------
-      console.log(chalk.blue('Parsing tasks.json...'));
-      const project = await parseTasksJson(tasksPath);
-      const taskCount = project.tasks.length;
-      const subtaskCount = project.tasks.reduce(
-        (sum, t) => sum + (t.subtasks?.length ?? 0),
-        0,
-      );
-      console.log(
-        chalk.green(`Found ${taskCount} tasks and ${subtaskCount} subtasks.`),
-      );
+      log(chalk.blue('Validating tasks.json...'));
+      await requireValidTasks(tasksPath, opts, 'nothing was synced', log);
 
-      // ------------------------------------------------------------------
-      // 5. Topological sort
-      // ------------------------------------------------------------------
-      console.log(chalk.blue('Sorting tasks by dependency order...'));
-      const sorted = topologicalSort(project.tasks);
-      const orderedTasks = sorted.map((s) => s.task);
+      log(chalk.blue('Parsing tasks.json...'));
+      const projects = await selectTaggedProjects(tasksPath, opts);
+      await applyComplexityReports(projects, tasksPath, opts.complexityReport);
 
-      if (opts.verbose) {
-        for (const entry of sorted) {
-          console.log(
-            chalk.gray(
-              `  Tier ${entry.tier}: [${entry.task.id}] ${entry.task.title}`,
-            ),
-          );
+      // A dry run prints the plan of this sync, the same one `tm2bd plan`
+      // would save, without running it; the report carries the plan
+      if (opts.dryRun) {
+        const dryRunReport = new SyncReporter(mapper, true);
+        for (const [tag, project] of projects) {
+          const subtaskCount = project.tasks.reduce((sum, t) => sum + (t.subtasks?.length ?? 0), 0);
+          dryRunReport.startTag(tag, project.tasks.length, subtaskCount);
+          dryRunReport.recordSkipped(project.tasks, mapper.forTag(tag));
         }
+        const plan = await buildSyncPlan(projects, mapper, config, cli, (await fs.stat(tasksPath)).mtime);
+        dryRunReport.recordPlan(plan);
+        printSyncPlan(plan, log);
+        log(chalk.yellow('\nDry run: nothing was changed. Use `tm2bd plan --out <file>` to save the plan.'));
+        await emitSyncReport(dryRunReport.build([], mapper), opts);
+        return;
       }
 
-      // ------------------------------------------------------------------
-      // 6. Dry run – just print what would happen
-      // ------------------------------------------------------------------
-      if (opts.dryRun) {
-        console.log(chalk.yellow('\n--- DRY RUN ---\n'));
-        console.log(chalk.white('The following operations would be performed:\n'));
+      recorder = new RecordingTracker(cli);
+      reporter = new SyncReporter(mapper, false);
+      const tracker: IssueTracker = recorder;
+      const report = reporter;
 
-        for (const entry of sorted) {
-          const task = entry.task;
-          console.log(
-            chalk.cyan(`  [Tier ${entry.tier}] Create epic: `) +
-            chalk.white(`#${task.id} "${task.title}" (priority: ${task.priority})`),
-          );
-          if (task.subtasks && task.subtasks.length > 0) {
-            for (const sub of task.subtasks) {
-              console.log(
-                chalk.gray(`    Create child: #${task.id}.${sub.id} "${sub.title}"`),
-              );
-            }
-          }
-          if (task.dependencies.length > 0) {
-            console.log(
+      // Checkpoint after every created issue and flush on Ctrl-C so an
+      // interrupted sync can be resumed with --resume.
+      mapper.enableCheckpoints(mapFilePath);
+      const removeSignalHandlers = flushMappingOnSignal(mapper, mapFilePath);
+
+      const resolutions: (ConflictResolution & { tag: string })[] = [];
+      const pulledStatuses: StatusChange[] = [];
+      const tasksModifiedAt = (await fs.stat(tasksPath)).mtime;
+      for (const [tag, project] of projects) {
+        const tagMapper = mapper.forTag(tag);
+        const taskCount = project.tasks.length;
+        const subtaskCount = project.tasks.reduce(
+          (sum, t) => sum + (t.subtasks?.length ?? 0),
+          0,
+        );
+        const tagReport = report.startTag(tag, taskCount, subtaskCount);
+
+        if (projects.size > 1) {
+          log(chalk.magenta(chalk.bold(`\n=== Tag: ${tag} ===`)));
+        }
+        log(
+          chalk.green(`Found ${taskCount} tasks and ${subtaskCount} subtasks.`),
+        );
+
+        // ----------------------------------------------------------------
+        // 5. Topological sort
+        // ----------------------------------------------------------------
+        log(chalk.blue('Sorting tasks by dependency order...'));
+        const sorted = topologicalSort(project.tasks);
+        const orderedTasks = sorted.map((s) => s.task);
+        const tiers = new Map(sorted.map((s) => [s.task.id, s.tier]));
+        report.recordSkipped(orderedTasks, tagMapper);
+
+        // Only items created in this run are known to match tasks.json in
+        // full; `tm2bd update` pushes edits to the others
+        const newRefs = new Set(
+          classifyItems(orderedTasks, tagMapper, config).filter(i => i.state === 'new').map(i => i.ref),
+        );
+        const recordHashes = () => {
+          recordContentHashes(orderedTasks, tagMapper, config, ref => newRefs.has(ref));
+          recordLastSynced(orderedTasks, tagMapper, config, ref => newRefs.has(ref));
+        };
+
+        if (opts.verbose) {
+          for (const entry of sorted) {
+            log(
               chalk.gray(
-                `    Wire dependencies: depends on [${task.dependencies.join(', ')}]`,
+                `  Tier ${entry.tier}: [${entry.task.id}] ${entry.task.title}`,
               ),
             );
           }
         }
 
-        console.log(chalk.yellow('\n--- END DRY RUN ---'));
-        console.log(
-          chalk.green(
-            `\nWould create ${taskCount} epics, ${subtaskCount} children, and wire dependencies.`,
-          ),
-        );
-        return;
+        // Issues synced in an earlier run may have been edited in Beads
+        // since: as in `tm2bd update`, Beads edits are kept and conflicts
+        // resolved before statuses are pushed
+        let statusTracker = tracker;
+        if (opts.resume && mapExists) {
+          const { tracker: guarded, ...resolved } = await settleConflicts(orderedTasks, tracker, tagMapper, config, tasksModifiedAt);
+          statusTracker = guarded;
+          resolutions.push(...resolved.resolutions.map(resolution => ({ ...resolution, tag })));
+          pulledStatuses.push(...resolved.statusChanges);
+        }
+
+        // Mapped items removed from tasks.json since the last run
+        if (opts.resume && mapExists) {
+          await report.phase(tagReport, 'orphans', () =>
+            handleOrphans(orderedTasks, tracker, tagMapper, config, log));
+        }
+
+        // ----------------------------------------------------------------
+        // 6. Bulk mode: one JSONL batch carries every new issue with its
+        //    parent, dependencies, labels and status
+        // ----------------------------------------------------------------
+        if (opts.bulk) {
+          const plan = buildImportPlan(orderedTasks, tagMapper, config, { tiers });
+          log(chalk.blue(`\nImporting ${plan.records.length} new issues in one batch...`));
+          await report.phase(tagReport, 'import', () => applyImportPlan(plan, tracker, tagMapper));
+          log(chalk.green('  Import complete.'));
+
+          // Issues from an interrupted earlier run may still lack their
+          // dependencies and statuses
+          if (opts.resume && mapExists) {
+            log(chalk.blue('\nWiring dependencies...'));
+            await report.phase(tagReport, 'dependencies', () =>
+              reconcileAllDependencies(orderedTasks, tracker, tagMapper, concurrency));
+            log(chalk.blue('\nSyncing statuses...'));
+            await report.phase(tagReport, 'statuses', () =>
+              syncAllStatuses(orderedTasks, statusTracker, tagMapper, config));
+          }
+          recordHashes();
+          continue;
+        }
+
+        // ----------------------------------------------------------------
+        // 7. Create epics with progress
+        // ----------------------------------------------------------------
+        log(chalk.blue('\nCreating epics...'));
+        await report.phase(tagReport, 'epics', () =>
+          createEpics(orderedTasks, tracker, tagMapper, (current, total, skipped) => {
+            log(progressLabel('Epic', current, total, skipped));
+          }, config, tiers, concurrency));
+
+        // ----------------------------------------------------------------
+        // 8. Create children
+        // ----------------------------------------------------------------
+        if (subtaskCount > 0) {
+          log(chalk.blue('\nCreating child issues...'));
+          await report.phase(tagReport, 'children', () =>
+            createAllChildren(orderedTasks, tracker, tagMapper, (current, total, skipped) => {
+              log(progressLabel('Child', current, total, skipped));
+            }, config, concurrency));
+        }
+
+        // ----------------------------------------------------------------
+        // 8b. Create test issues
+        // ----------------------------------------------------------------
+        const tasksWithTests = orderedTasks.filter(t => t.testStrategy);
+        if (tasksWithTests.length > 0) {
+          log(chalk.blue('\nCreating test issues...'));
+          await report.phase(tagReport, 'tests', () =>
+            createAllTestChildren(orderedTasks, tracker, tagMapper, (current, total, skipped) => {
+              log(progressLabel('Test', current, total, skipped));
+            }, config, concurrency));
+        }
+
+        // ----------------------------------------------------------------
+        // 9. Wire dependencies
+        // ----------------------------------------------------------------
+        // On resume, edges dropped from tasks.json since the last run are
+        // removed as well
+        log(chalk.blue('\nWiring dependencies...'));
+        await report.phase(tagReport, 'dependencies', async () => {
+          if (opts.resume && mapExists) {
+            await reconcileAllDependencies(orderedTasks, tracker, tagMapper, concurrency);
+          } else {
+            await wireAllDependencies(orderedTasks, tracker, tagMapper, concurrency);
+          }
+        });
+        log(chalk.green('  Dependencies wired.'));
+
+        // ----------------------------------------------------------------
+        // 10. Sync statuses
+        // ----------------------------------------------------------------
+        log(chalk.blue('\nSyncing statuses...'));
+        await report.phase(tagReport, 'statuses', () =>
+          syncAllStatuses(orderedTasks, statusTracker, tagMapper, config));
+        log(chalk.green('  Statuses synced.'));
+        recordHashes();
       }
 
       // ------------------------------------------------------------------
-      // 7. Create epics with progress
+      // 11. Save mapping
       // ------------------------------------------------------------------
-      console.log(chalk.blue('\nCreating epics...'));
-      await createEpics(orderedTasks, cli, mapper, (current, total) => {
-        console.log(chalk.green(`  Epic ${current}/${total} created`));
-      });
+      await mapper.save(mapFilePath);
+      removeSignalHandlers();
+      log(chalk.green(`\nMapping saved to ${mapFilePath}`));
+      await writePulledStatuses(tasksPath, pulledStatuses, log);
+      printConflicts(resolutions, projects.size > 1, log);
 
       // ------------------------------------------------------------------
-      // 8. Create children
+      // 12. Success
       // ------------------------------------------------------------------
-      if (subtaskCount > 0) {
-        console.log(chalk.blue('\nCreating child issues...'));
-        await createAllChildren(orderedTasks, cli, mapper, (current, total) => {
-          console.log(chalk.green(`  Child ${current}/${total} created`));
-        });
+      const result = report.build(recorder.operations, mapper);
+      const skipped = countLabel(result.summary.skipped);
+      log(
+        chalk.green(chalk.bold(
+          `\nSync complete! Created ${countLabel(result.summary.created)} in Beads` +
+          `${skipped === 'nothing' ? '' : ` (already synced: ${skipped})`}.`,
+        )),
+      );
+      await emitSyncReport(result, opts);
+    } catch (error: unknown) {
+      if (reporter && recorder && mapper) {
+        reporter.recordError(error);
+        await emitSyncReport(reporter.build(recorder.operations, mapper), opts).catch(() => {});
       }
+      reportError(error, opts.verbose);
+    }
+  });
 
-      // ------------------------------------------------------------------
-      // 8b. Create test issues
-      // ------------------------------------------------------------------
-      const tasksWithTests = orderedTasks.filter(t => t.testStrategy);
-      if (tasksWithTests.length > 0) {
-        console.log(chalk.blue('\nCreating test issues...'));
-        await createAllTestChildren(orderedTasks, cli, mapper, (current, total) => {
-          console.log(chalk.green(`  Test ${current}/${total} created`));
-        });
+addRetryOptions(addConfigOptions(program.command('plan')))
+  .description('Work out what `tm2bd sync --resume` would change in Beads, to review before `tm2bd apply`')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to plan', DEFAULT_TAG)
+  .option('--all-tags', 'Plan every tag in tasks.json', false)
+  .option('--complexity-report <path>', 'Path to a task-master complexity report (default: .taskmaster/reports)')
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--orphans <policy>', ORPHAN_POLICY_HELP)
+  .option('--conflicts <strategies>', CONFLICT_STRATEGY_HELP)
+  .option('--out <file>', 'Save the plan to this file for `tm2bd apply`')
+  .option('--json', 'Print the plan as JSON on stdout; everything else goes to stderr', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    complexityReport?: string;
+    mapFile: string;
+    out?: string;
+    json: boolean;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    const log = progressLog(opts.json);
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts, log);
+      await requireBeadsInit(cli);
+      const mapper = (await IdMapper.exists(mapFilePath)) ? await loadMapper(mapFilePath, log) : new IdMapper();
+
+      await requireValidTasks(tasksPath, opts, 'no plan was made', log);
+      const projects = await selectTaggedProjects(tasksPath, opts);
+      await applyComplexityReports(projects, tasksPath, opts.complexityReport);
+
+      const plan = await buildSyncPlan(projects, mapper, config, cli, (await fs.stat(tasksPath)).mtime);
+      printSyncPlan(plan, log);
+
+      const content = `${JSON.stringify(plan, null, 2)}\n`;
+      if (opts.out) {
+        await fs.writeFile(path.resolve(opts.out), content, 'utf-8');
+        log(chalk.green(`\nPlan saved to ${opts.out}. Run \`tm2bd apply ${opts.out}\` to execute it.`));
+      }
+      if (opts.json) {
+        process.stdout.write(content);
       }
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
 
-      // ------------------------------------------------------------------
-      // 9. Wire dependencies
-      // ------------------------------------------------------------------
-      console.log(chalk.blue('\nWiring dependencies...'));
-      await wireAllDependencies(orderedTasks, cli, mapper);
-      console.log(chalk.green('  Dependencies wired.'));
+addRetryOptions(program.command('apply'))
+  .description('Execute a plan saved by `tm2bd plan --out`, step by step as reviewed')
+  .argument('<plan>', 'Plan file written by `tm2bd plan --out`')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (planFile: string, opts: {
+    project: string;
+    mapFile: string;
+    verbose: boolean;
+  } & RetryFlags) => {
+    try {
+      const planPath = path.resolve(planFile);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
 
-      // ------------------------------------------------------------------
-      // 10. Sync statuses
-      // ------------------------------------------------------------------
-      console.log(chalk.blue('\nSyncing statuses...'));
-      await syncAllStatuses(orderedTasks, cli, mapper);
-      console.log(chalk.green('  Statuses synced.'));
+      const content = await fs.readFile(planPath, 'utf-8');
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch (error) {
+        throw new Error(`${planPath} is not valid JSON: ${(error as Error).message}`);
+      }
+      const plan = parseSyncPlan(json, planPath);
+      if (plan.steps.length === 0) {
+        console.log(chalk.yellow('The plan has no steps; nothing to apply.'));
+        return;
+      }
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = (await IdMapper.exists(mapFilePath)) ? await loadMapper(mapFilePath) : new IdMapper();
+
+      // Created issues are checkpointed as they are made; an interrupted
+      // apply needs a fresh plan, since the old one no longer fits
+      mapper.enableCheckpoints(mapFilePath);
+      const removeSignalHandlers = flushMappingOnSignal(mapper, mapFilePath);
+
+      console.log(chalk.blue(`Applying ${plan.steps.length} steps...`));
+      await applySyncPlan(plan, cli, mapper, (step, current, total) => {
+        console.log(chalk.green(`  Step ${current}/${total}: ${describePlanStep(step)}`));
+      });
 
-      // ------------------------------------------------------------------
-      // 11. Save mapping
-      // ------------------------------------------------------------------
       await mapper.save(mapFilePath);
+      removeSignalHandlers();
       console.log(chalk.green(`\nMapping saved to ${mapFilePath}`));
+      console.log(
+        chalk.green(chalk.bold(`\nApply complete! Created ${countLabel(summarizeSyncPlan(plan).created)} in Beads.`)),
+      );
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('update')))
+  .description(
+    'Push title, description, priority, label, dependency and status edits from tasks.json to already-synced Beads issues, ' +
+    'leaving fields edited only in Beads alone and reporting fields edited on both sides',
+  )
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to update', DEFAULT_TAG)
+  .option('--all-tags', 'Update every tag in tasks.json', false)
+  .option('--complexity-report <path>', 'Path to a task-master complexity report (default: .taskmaster/reports)')
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--full', 'Push every synced task, not only those changed in tasks.json since the last sync', false)
+  .option('--conflicts <strategies>', CONFLICT_STRATEGY_HELP)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    complexityReport?: string;
+    mapFile: string;
+    full: boolean;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = await loadExistingMapper(mapFilePath);
+
+      console.log(chalk.blue('Validating tasks.json...'));
+      await requireValidTasks(tasksPath, opts, 'nothing was updated');
+
+      console.log(chalk.blue('Parsing tasks.json...'));
+      const projects = await selectTaggedProjects(tasksPath, opts);
+      await applyComplexityReports(projects, tasksPath, opts.complexityReport);
+
+      const summary: UpdateSummary = { updated: 0, unmapped: [] };
+      const dependencies = { added: 0, removed: 0 };
+      const resolutions: (ConflictResolution & { tag: string })[] = [];
+      const pulledStatuses: StatusChange[] = [];
+      const tasksModifiedAt = (await fs.stat(tasksPath)).mtime;
+      let unchanged = 0;
+      for (const [tag, project] of projects) {
+        const tiers = new Map(topologicalSort(project.tasks).map((s) => [s.task.id, s.tier]));
+        const tagMapper = mapper.forTag(tag);
+        // The content hashes in the mapping tell which tasks changed
+        // without asking Beads
+        const tasks = opts.full ? project.tasks : tasksNeedingSync(project.tasks, tagMapper, config);
+        unchanged += project.tasks.length - tasks.length;
+        if (tasks.length === 0) continue;
+
+        // Compare with the last-synced state first: fields edited only in
+        // Beads are kept, and conflicts are resolved or left for the user.
+        // Statuses won by Beads are written to tasks.json at the end
+        const { tracker: guarded, ...resolved } = await settleConflicts(tasks, cli, tagMapper, config, tasksModifiedAt);
+        resolutions.push(...resolved.resolutions.map(resolution => ({ ...resolution, tag })));
+        pulledStatuses.push(...resolved.statusChanges);
+
+        console.log(chalk.blue(`\nUpdating issues${projects.size > 1 ? ` for tag ${tag}` : ''}...`));
+        const tagSummary = await updateAllIssues(tasks, guarded, tagMapper, (current, total) => {
+          if (opts.verbose) {
+            console.log(chalk.gray(`  Task ${current}/${total} updated`));
+          }
+        }, config, tiers);
+        summary.updated += tagSummary.updated;
+        summary.unmapped.push(
+          ...tagSummary.unmapped.map(id => (projects.size > 1 ? `${tag}:${id}` : id)),
+        );
+
+        // Dependencies and statuses can only be synced once every item has
+        // an issue
+        if (tagSummary.unmapped.length === 0) {
+          const tagDependencies = await reconcileAllDependencies(tasks, cli, tagMapper);
+          dependencies.added += tagDependencies.added;
+          dependencies.removed += tagDependencies.removed;
+          await syncAllStatuses(tasks, guarded, tagMapper, config);
+          // Items left in conflict keep their old state, so the next run
+          // reports them again
+          const { settled } = resolved;
+          recordLastSynced(tasks, tagMapper, config, settled, await fetchSyncedIssues(tasks, cli, tagMapper));
+          recordContentHashes(tasks, tagMapper, config, settled);
+          await mapper.save(mapFilePath);
+        }
+      }
+
+      if (unchanged > 0 && opts.verbose) {
+        console.log(chalk.gray(`\n${unchanged} task(s) unchanged since the last sync, skipped.`));
+      }
+
+      await writePulledStatuses(tasksPath, pulledStatuses);
+      printConflicts(resolutions, projects.size > 1);
+
+      if (summary.unmapped.length > 0) {
+        console.log(
+          chalk.yellow(
+            `\nSkipped ${summary.unmapped.length} unsynced item(s): ${summary.unmapped.join(', ')}`,
+          ),
+        );
+        console.log(chalk.yellow('Dependencies and statuses were left as they are; run `tm2bd sync --resume` to sync them.'));
+      }
+      if (dependencies.added + dependencies.removed > 0) {
+        console.log(
+          chalk.green(`\nAdded ${dependencies.added} and removed ${dependencies.removed} dependencies.`),
+        );
+      }
 
-      // ------------------------------------------------------------------
-      // 12. Success
-      // ------------------------------------------------------------------
       console.log(
-        chalk.green(chalk.bold(
-          `\nSync complete! Created ${taskCount} epics and ${subtaskCount} child issues in Beads.`,
-        )),
+        chalk.green(chalk.bold(`\nUpdate complete! Edited ${summary.updated} issues in Beads.`)),
       );
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error(chalk.red(`\nError: ${error.message}`));
-        if (opts.verbose && error.stack) {
-          console.error(chalk.gray(error.stack));
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('pull')))
+  .description('Write Beads statuses back into tasks.json for already-synced issues')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to pull', DEFAULT_TAG)
+  .option('--all-tags', 'Pull every tag in tasks.json', false)
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--dry-run', 'Show the status changes without rewriting tasks.json', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    mapFile: string;
+    dryRun: boolean;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = await loadExistingMapper(mapFilePath);
+
+      console.log(chalk.blue('Parsing tasks.json...'));
+      const projects = await selectTaggedProjects(tasksPath, opts);
+
+      console.log(chalk.blue('Reading statuses from Beads...'));
+      const changes: StatusChange[] = [];
+      const skipped: SkippedStatus[] = [];
+      for (const [tag, project] of projects) {
+        const pulled = await collectStatusChanges(project.tasks, cli, mapper.forTag(tag), config);
+        changes.push(...pulled.changes);
+        skipped.push(...pulled.skipped);
+      }
+
+      if (skipped.length > 0) {
+        console.log(chalk.yellow(`\n${skipped.length} mapped issue(s) are gone from Beads; their statuses were skipped:`));
+        for (const item of skipped) {
+          const id = item.subtaskId === undefined ? `#${item.taskId}` : `#${item.taskId}.${item.subtaskId}`;
+          const tagPrefix = projects.size > 1 ? `[${item.tag}] ` : '';
+          console.log(chalk.yellow(`  ! ${tagPrefix}${id} "${item.title}" (${item.beadsId})`));
+        }
+        console.log(chalk.yellow('Run `tm2bd verify --repair` to recreate them.'));
+      }
+
+      if (changes.length === 0) {
+        console.log(chalk.green('\ntasks.json is already up to date with Beads.'));
+        return;
+      }
+
+      console.log(chalk.white('\nStatus changes:\n'));
+      for (const change of changes) {
+        const id = change.subtaskId === undefined
+          ? `#${change.taskId}`
+          : `#${change.taskId}.${change.subtaskId}`;
+        const tagPrefix = projects.size > 1 ? `[${change.tag}] ` : '';
+        console.log(
+          chalk.cyan(`  ${tagPrefix}${id} `) +
+          chalk.white(`"${change.title}": `) +
+          chalk.gray(change.from) + ' \u2192 ' + chalk.green(change.to),
+        );
+      }
+
+      if (opts.dryRun) {
+        console.log(chalk.yellow(`\nDry run: ${changes.length} status change(s) not written.`));
+        return;
+      }
+
+      const applied = await writeStatusChanges(tasksPath, changes);
+      console.log(
+        chalk.green(chalk.bold(`\nPull complete! Updated ${applied} status(es) in ${tasksPath}.`)),
+      );
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+program.command('validate')
+  .description('Check tasks.json for schema errors, duplicate IDs and broken or circular dependencies (exit code 1 when invalid)')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--tag <name>', 'Task-Master tag to validate', DEFAULT_TAG)
+  .option('--all-tags', 'Validate every tag in tasks.json', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    tag: string;
+    allTags: boolean;
+    verbose: boolean;
+  }) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const report = await validateTasksFile(tasksPath, opts);
+      const checked = `${report.tasks} tasks and ${report.subtasks} subtasks`;
+
+      if (report.problems.length === 0) {
+        console.log(chalk.green(`tasks.json is valid (${checked} checked).`));
+        return;
+      }
+      printValidationProblems(report);
+      console.log(chalk.yellow(`\n${report.problems.length} problem(s) found in ${checked}.`));
+      process.exitCode = 1;
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('status')))
+  .description('Show drift between tasks.json, the mapping file and Beads without changing anything (exit code 2 when out of sync)')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to check', DEFAULT_TAG)
+  .option('--all-tags', 'Check every tag in tasks.json', false)
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    mapFile: string;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = await loadExistingMapper(mapFilePath);
+      const projects = await selectTaggedProjects(tasksPath, opts);
+
+      let total = 0;
+      for (const [tag, project] of projects) {
+        const report = await detectDrift(project.tasks, cli, mapper.forTag(tag), config);
+        if (projects.size > 1) {
+          console.log(chalk.magenta(chalk.bold(`\n=== Tag: ${tag} ===`)));
+        }
+        printDrift(report);
+        total += report.epics.reduce((sum, epic) => sum + epic.entries.length, 0);
+      }
+
+      if (total === 0) {
+        console.log(chalk.green('\nBeads is in sync with tasks.json.'));
+        return;
+      }
+      console.log(chalk.yellow(`\n${total} difference(s) found. Run \`tm2bd sync --resume\` or \`tm2bd update\` to reconcile.`));
+      process.exitCode = 2;
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('verify')))
+  .description('Check every issue in the mapping file against Beads (exit code 2 when problems remain)')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to verify', DEFAULT_TAG)
+  .option('--all-tags', 'Verify every tag in tasks.json', false)
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--repair', 'Recreate deleted issues, move children back under their epics and add missing dependencies', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    mapFile: string;
+    repair: boolean;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = await loadExistingMapper(mapFilePath);
+      const projects = await selectTaggedProjects(tasksPath, opts);
+      if (opts.repair) {
+        mapper.enableCheckpoints(mapFilePath);
+      }
+
+      let remaining = 0;
+      let repairable = 0;
+      for (const [tag, project] of projects) {
+        const tagMapper = mapper.forTag(tag);
+        if (projects.size > 1) {
+          console.log(chalk.magenta(chalk.bold(`\n=== Tag: ${tag} ===`)));
+        }
+        let report = await verifyMapping(project.tasks, cli, tagMapper, config);
+        console.log(chalk.blue(`Checked ${report.checked} mapped issue(s).`));
+        printVerifyProblems(report.problems);
+
+        if (opts.repair && report.problems.some(p => p.repairable)) {
+          console.log(chalk.blue('\nRepairing...'));
+          const tiers = new Map(topologicalSort(project.tasks).map((s) => [s.task.id, s.tier]));
+          const actions = await repairMapping(project.tasks, cli, tagMapper, config, tiers);
+          for (const action of actions) {
+            console.log(chalk.green(`  ${action.ref.padEnd(10)} ${action.kind}: ${action.beadsId} ${action.message}`));
+          }
+          await mapper.save(mapFilePath);
+          report = await verifyMapping(project.tasks, cli, tagMapper, config);
+          if (report.problems.length > 0) {
+            console.log(chalk.yellow('\nStill wrong after repair:'));
+            printVerifyProblems(report.problems);
+          }
+        }
+        remaining += report.problems.length;
+        repairable += report.problems.filter(p => p.repairable).length;
+      }
+
+      if (remaining === 0) {
+        console.log(chalk.green('\nThe mapping file matches Beads.'));
+        return;
+      }
+      console.log(chalk.yellow(`\n${remaining} problem(s) found.`));
+      if (repairable > 0 && !opts.repair) {
+        console.log(chalk.yellow(`Run \`tm2bd verify --repair\` to fix ${repairable} of them.`));
+      }
+      process.exitCode = 2;
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(program.command('rollback'))
+  .description('Delete or close every Beads issue recorded in the mapping file')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--tag <name>', 'Only roll back this Task-Master tag (default: all tags)')
+  .option('--only <tmIds>', 'Only roll back these comma-separated task IDs and their children')
+  .option('--mode <mode>', 'What to do with each issue: delete or close', 'delete')
+  .option('--dry-run', 'Show what would be removed without making changes', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    project: string;
+    mapFile: string;
+    tag?: string;
+    only?: string;
+    mode: string;
+    dryRun: boolean;
+    verbose: boolean;
+  } & RetryFlags) => {
+    try {
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+
+      if (opts.mode !== 'delete' && opts.mode !== 'close') {
+        throw new Error(`Invalid --mode "${opts.mode}" (expected delete or close)`);
+      }
+      const mode: RollbackMode = opts.mode;
+      const only = opts.only ? parseIdList(opts.only) : undefined;
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+      const mapper = await loadExistingMapper(mapFilePath);
+
+      const tags = opts.tag ? [opts.tag] : mapper.getTags();
+      const plans = tags.map((tag) => ({ tag, actions: planRollback(mapper.forTag(tag), only) }));
+      const total = plans.reduce((sum, p) => sum + p.actions.length, 0);
+
+      if (total === 0) {
+        console.log(chalk.yellow('Nothing to roll back.'));
+        return;
+      }
+
+      const verb = mode === 'delete' ? 'Delete' : 'Close';
+      if (opts.dryRun) {
+        console.log(chalk.yellow('\n--- DRY RUN ---\n'));
+        for (const { tag, actions } of plans) {
+          for (const action of actions) {
+            const tagPrefix = tags.length > 1 ? `[${tag}] ` : '';
+            console.log(
+              chalk.cyan(`  ${verb} ${action.kind}: `) +
+              chalk.white(`${tagPrefix}#${action.label} (${action.beadsId})`),
+            );
+          }
         }
+        console.log(chalk.yellow('\n--- END DRY RUN ---'));
+        console.log(chalk.green(`\nWould ${verb.toLowerCase()} ${total} issues.`));
+        return;
+      }
+
+      // A full rollback archives the original mapping up front; checkpoints
+      // then track what is left so an interrupted rollback can be re-run.
+      const stats = mapper.getStats();
+      const fullRollback = total === stats.epicCount + stats.childCount + stats.testIssueCount;
+      const archivePath = fullRollback ? await IdMapper.archive(mapFilePath) : undefined;
+
+      mapper.enableCheckpoints(mapFilePath);
+      const removeSignalHandlers = flushMappingOnSignal(mapper, mapFilePath);
+
+      let current = 0;
+      for (const { tag, actions } of plans) {
+        await executeRollback(actions, cli, mapper.forTag(tag), mode, (_c, _t, action) => {
+          current++;
+          console.log(chalk.green(`  ${verb} ${current}/${total}: #${action.label} (${action.beadsId})`));
+        });
+      }
+
+      removeSignalHandlers();
+      if (archivePath) {
+        await fs.rm(mapFilePath, { force: true });
+        console.log(chalk.green(`\nMapping archived to ${archivePath}`));
       } else {
-        console.error(chalk.red('\nAn unexpected error occurred.'));
+        await mapper.save(mapFilePath);
+        console.log(chalk.green(`\nMapping saved to ${mapFilePath}`));
+      }
+
+      console.log(
+        chalk.green(chalk.bold(`\nRollback complete! ${mode === 'delete' ? 'Deleted' : 'Closed'} ${total} issues in Beads.`)),
+      );
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('adopt')))
+  .description('Rebuild the mapping file from existing Beads issues without creating anything')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to adopt', DEFAULT_TAG)
+  .option('--all-tags', 'Adopt every tag in tasks.json', false)
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--dry-run', 'Show what would be adopted without writing the mapping file', false)
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    mapFile: string;
+    dryRun: boolean;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+
+      // Fill the gaps in an existing mapping rather than starting over
+      const mapExists = await IdMapper.exists(mapFilePath);
+      const mapper = mapExists ? await loadMapper(mapFilePath) : new IdMapper();
+      if (mapExists) {
+        console.log(chalk.yellow('Extending existing mapping file...'));
+      }
+
+      console.log(chalk.blue('Parsing tasks.json...'));
+      const projects = await selectTaggedProjects(tasksPath, opts);
+
+      console.log(chalk.blue('Listing Beads issues...'));
+      const issues = await cli.listIssues();
+      const claimed = mapper.getBeadsIds();
+
+      const report: AdoptReport = { epics: 0, children: 0, tests: 0, unmatched: [] };
+      for (const [tag, project] of projects) {
+        const tagReport = await adoptIssues(project.tasks, issues, claimed, cli, mapper.forTag(tag), config);
+        report.epics += tagReport.epics;
+        report.children += tagReport.children;
+        report.tests += tagReport.tests;
+        report.unmatched.push(
+          ...tagReport.unmatched.map(id => (projects.size > 1 ? `${tag}:${id}` : id)),
+        );
+      }
+
+      console.log(
+        chalk.green(
+          `\nMatched ${report.epics} epics, ${report.children} children and ${report.tests} test issues.`,
+        ),
+      );
+      if (report.unmatched.length > 0) {
+        console.log(
+          chalk.yellow(
+            `No Beads issue found for ${report.unmatched.length} item(s): ${report.unmatched.join(', ')}`,
+          ),
+        );
       }
-      process.exit(1);
+
+      if (opts.dryRun) {
+        console.log(chalk.yellow('\nDry run: mapping file not written.'));
+        return;
+      }
+
+      await mapper.save(mapFilePath);
+      console.log(chalk.green(chalk.bold(`\nAdopt complete! Mapping saved to ${mapFilePath}`)));
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
+    }
+  });
+
+addRetryOptions(addConfigOptions(program.command('watch')))
+  .description('Watch tasks.json and sync changed tasks to Beads whenever it is rewritten')
+  .option('--tasks <path>', 'Path to tasks.json file', '.taskmaster/tasks/tasks.json')
+  .option('--project <dir>', 'Beads project directory', '.')
+  .option('--tag <name>', 'Task-Master tag to watch', DEFAULT_TAG)
+  .option('--all-tags', 'Watch every tag in tasks.json', false)
+  .option('--complexity-report <path>', 'Path to a task-master complexity report (default: .taskmaster/reports)')
+  .option('--map-file <path>', 'Path for the ID mapping file', './tm2bd-map.json')
+  .option('--orphans <policy>', ORPHAN_POLICY_HELP)
+  .option('--conflicts <strategies>', CONFLICT_STRATEGY_HELP)
+  .option('--debounce <ms>', 'Wait this long after the last write before syncing', '500')
+  .option('-v, --verbose', 'Enable verbose output', false)
+  .action(async (opts: {
+    tasks: string;
+    project: string;
+    tag: string;
+    allTags: boolean;
+    complexityReport?: string;
+    mapFile: string;
+    debounce: string;
+    verbose: boolean;
+  } & ConfigOptions & RetryFlags) => {
+    try {
+      const tasksPath = path.resolve(opts.tasks);
+      const projectPath = path.resolve(opts.project);
+      const mapFilePath = path.resolve(opts.mapFile);
+      const config = await loadSyncConfig(tasksPath, opts);
+      const debounceMs = Number(opts.debounce);
+      if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+        throw new Error(`Invalid --debounce "${opts.debounce}" (expected milliseconds)`);
+      }
+
+      const cli = createBeadsCli(projectPath, opts);
+      await requireBeadsInit(cli);
+
+      // The mapping decides per task whether a cycle creates or updates
+      const mapper = (await IdMapper.exists(mapFilePath))
+        ? await loadMapper(mapFilePath)
+        : new IdMapper();
+      mapper.enableCheckpoints(mapFilePath);
+      flushMappingOnSignal(mapper, mapFilePath);
+
+      const snapshots = new Map<string, TaskSnapshot>();
+      let cycle = 0;
+
+      const runCycle = async (reason: string): Promise<void> => {
+        cycle++;
+        const time = new Date().toISOString().slice(11, 19);
+        try {
+          // A half-written or broken tasks.json fails the cycle; the next
+          // write starts another
+          await requireValidTasks(tasksPath, opts, 'nothing was synced');
+          const projects = await selectTaggedProjects(tasksPath, opts);
+          await applyComplexityReports(projects, tasksPath, opts.complexityReport);
+
+          let changedCount = 0;
+          const totals = { created: 0, updated: 0 };
+          const removed: string[] = [];
+          const resolutions: (ConflictResolution & { tag: string })[] = [];
+          const pulledStatuses: StatusChange[] = [];
+          const tasksModifiedAt = (await fs.stat(tasksPath)).mtime;
+          for (const [tag, project] of projects) {
+            const sorted = topologicalSort(project.tasks);
+            const orderedTasks = sorted.map((s) => s.task);
+            const tagMapper = mapper.forTag(tag);
+            const previous = snapshots.get(tag);
+            const { changed: snapshotChanged, removed: removedIds } = detectTaskChanges(orderedTasks, previous);
+            // Before the first snapshot, the content hashes from the last
+            // sync tell which tasks changed while nobody was watching
+            const changed = previous ? snapshotChanged : tasksNeedingSync(orderedTasks, tagMapper, config);
+            removed.push(...removedIds.map(id => (projects.size > 1 ? `${tag}:${id}` : String(id))));
+
+            if (changed.length > 0) {
+              if (opts.verbose) {
+                console.log(chalk.gray(`  ${tag}: ${changed.map(t => `#${t.id}`).join(', ')}`));
+              }
+              // As in `tm2bd update`, Beads edits are kept and conflicts
+              // resolved before anything is pushed
+              const { tracker: guarded, ...resolved } = await settleConflicts(changed, cli, tagMapper, config, tasksModifiedAt);
+              resolutions.push(...resolved.resolutions.map(resolution => ({ ...resolution, tag })));
+              pulledStatuses.push(...resolved.statusChanges);
+              const tiers = new Map(sorted.map((s) => [s.task.id, s.tier]));
+              const summary = await syncTasks(changed, guarded, tagMapper, config, tiers);
+              recordContentHashes(changed, tagMapper, config, resolved.settled);
+              recordLastSynced(changed, tagMapper, config, resolved.settled, await fetchSyncedIssues(changed, cli, tagMapper));
+              changedCount += changed.length;
+              totals.created += summary.created;
+              totals.updated += summary.updated;
+            }
+            if (config.orphans.policy !== 'ignore') {
+              await handleOrphans(orderedTasks, cli, tagMapper, config);
+            }
+            // Only remember a tag once it synced, so a failed cycle is retried
+            snapshots.set(tag, snapshotTasks(orderedTasks));
+          }
+          await mapper.save(mapFilePath);
+
+          console.log(
+            chalk.green(`[${time}] Cycle ${cycle} (${reason}): `) +
+            chalk.white(
+              changedCount === 0
+                ? 'no task changes'
+                : `${changedCount} changed task(s), created ${totals.created} and updated ${totals.updated} issues`,
+            ),
+          );
+          if (removed.length > 0 && config.orphans.policy === 'ignore') {
+            console.log(
+              chalk.yellow(`  Task(s) removed from tasks.json, issues left in Beads: ${removed.join(', ')}`),
+            );
+          }
+          // The snapshots already hold these statuses, so writing them does
+          // not count as a change in the next cycle
+          await writePulledStatuses(tasksPath, pulledStatuses);
+          printConflicts(resolutions, projects.size > 1);
+        } catch (error: unknown) {
+          const message = error instanceof Error ? describeError(error) : String(error);
+          console.error(chalk.red(`[${time}] Cycle ${cycle} (${reason}) failed: ${message}`));
+        }
+      };
+
+      await runCycle('initial sync');
+
+      const tags = opts.allTags ? [...(await readTaggedTasksJson(tasksPath)).keys()] : [opts.tag];
+      const watched = [
+        tasksPath,
+        ...(opts.complexityReport
+          ? [path.resolve(opts.complexityReport)]
+          : tags.map(tag => defaultComplexityReportPath(tasksPath, tag))),
+      ];
+      watchFiles(watched, (changed) => {
+        return runCycle(changed.map(p => path.basename(p)).join(', ') + ' changed');
+      }, debounceMs);
+
+      console.log(chalk.blue(`\nWatching ${watched.join(', ')} (Ctrl-C to stop)...`));
+    } catch (error: unknown) {
+      reportError(error, opts.verbose);
     }
   });
 
@@ -1,5 +1,6 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { IdMapper } from './id-mapper.js';
+import { MAPPING_FILE_VERSION, MappingFileError } from './mapping-file.js';
 import os from 'os';
 import path from 'path';
 import fs from 'fs/promises';
@@ -112,6 +113,293 @@ describe('IdMapper', () => {
     });
   });
 
+  describe('checkpoint()', () => {
+    it('does not write anything until checkpoints are enabled', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'epic-1');
+
+      await mapper.checkpoint();
+
+      expect(await IdMapper.exists(filePath)).toBe(false);
+    });
+
+    it('saves the current mapping to the checkpoint file', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.enableCheckpoints(filePath);
+      mapper.addEpic(1, 'epic-1');
+
+      await mapper.checkpoint();
+
+      const loaded = await IdMapper.load(filePath);
+      expect(loaded.getEpicId(1)).toBe('epic-1');
+    });
+
+    it('keeps the newest mapping when checkpoints overlap', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.enableCheckpoints(filePath);
+
+      const writes = [1, 2, 3].map((id) => {
+        mapper.addEpic(id, `epic-${id}`);
+        return mapper.checkpoint();
+      });
+      await Promise.all(writes);
+
+      const loaded = await IdMapper.load(filePath);
+      expect(loaded.getEpicId(3)).toBe('epic-3');
+    });
+  });
+
+  describe('forTag()', () => {
+    it('keeps the same task ID in different tags apart', () => {
+      const mapper = new IdMapper();
+      const master = mapper.forTag('master');
+      const feature = mapper.forTag('feature-x');
+      master.addEpic(1, 'epic-master-1');
+      feature.addEpic(1, 'epic-feature-1');
+      feature.addSubtask(1, 1, 'child-feature-1.1');
+
+      expect(master.getEpicId(1)).toBe('epic-master-1');
+      expect(feature.getEpicId(1)).toBe('epic-feature-1');
+      expect(master.getSubtaskId(1, 1)).toBeUndefined();
+      expect(feature.getSubtaskId(1, 1)).toBe('child-feature-1.1');
+      expect(mapper.getTags()).toEqual(['master', 'feature-x']);
+    });
+
+    it('defaults a new mapper to the master tag', () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'epic-1');
+
+      expect(mapper.getTag()).toBe('master');
+      expect(mapper.forTag('master').getEpicId(1)).toBe('epic-1');
+      expect(mapper.forTag('other').getEpicId(1)).toBeUndefined();
+    });
+
+    it('shares checkpoints and storage with the root mapper', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.enableCheckpoints(filePath);
+      const feature = mapper.forTag('feature-x');
+      feature.addEpic(3, 'epic-3');
+
+      await feature.checkpoint();
+
+      const loaded = await IdMapper.load(filePath);
+      expect(loaded.forTag('feature-x').getEpicId(3)).toBe('epic-3');
+      expect(mapper.getStats().epicCount).toBe(1);
+    });
+
+    it('loads untagged mapping files as master', async () => {
+      const filePath = getTempFile();
+      await fs.writeFile(
+        filePath,
+        JSON.stringify({
+          version: '1.0',
+          generatedAt: new Date().toISOString(),
+          tasks: [{ tmId: 1, beadsId: 'epic-1', type: 'epic', subtasks: [] }],
+        }),
+        'utf-8',
+      );
+
+      tempFiles.push(`${filePath}.v1.0.bak`);
+
+      const loaded = await IdMapper.load(filePath);
+
+      expect(loaded.forTag('master').getEpicId(1)).toBe('epic-1');
+    });
+  });
+
+  describe('clone()', () => {
+    it('copies every tag without sharing storage or checkpoints', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.enableCheckpoints(filePath);
+      mapper.forTag('feature-x').addEpic(1, 'epic-1');
+
+      const copy = mapper.clone();
+      copy.forTag('feature-x').addSubtask(1, 1, 'child-1.1');
+      await copy.checkpoint();
+
+      expect(copy.forTag('feature-x').getEpicId(1)).toBe('epic-1');
+      expect(mapper.forTag('feature-x').getSubtaskId(1, 1)).toBeUndefined();
+      expect(await IdMapper.exists(filePath)).toBe(false);
+    });
+  });
+
+  describe('content hashes', () => {
+    it('are stored per task and subtask and survive save and load', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'epic-1');
+      mapper.addSubtask(1, 2, 'child-2');
+      mapper.setContentHash(1, 'a'.repeat(64));
+      mapper.setSubtaskContentHash(1, 2, 'b'.repeat(64));
+      await mapper.save(filePath);
+
+      const loaded = await IdMapper.load(filePath);
+
+      expect(loaded.getContentHash(1)).toBe('a'.repeat(64));
+      expect(loaded.getSubtaskContentHash(1, 2)).toBe('b'.repeat(64));
+      expect(() => loaded.setSubtaskContentHash(1, 3, 'c'.repeat(64))).toThrow('Subtask 1.3 not found');
+    });
+  });
+
+  describe('recorded dependencies', () => {
+    it('are kept per epic, child and test issue across tags and survive save and load', async () => {
+      const filePath = getTempFile();
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'epic-1');
+      mapper.addSubtask(1, 1, 'child-1');
+      mapper.setTestIssueId(1, 'test-1');
+      mapper.forTag('feature').addEpic(1, 'feature-1');
+      mapper.recordDependency('child-1', 'feature-1');
+      mapper.recordDependency('child-1', 'feature-1');
+      mapper.recordDependency('test-1', 'child-1');
+      mapper.forTag('feature').recordDependency('feature-1', 'epic-1');
+      await mapper.save(filePath);
+
+      const loaded = await IdMapper.load(filePath);
+
+      expect(loaded.getRecordedDependencies('child-1')).toEqual(['feature-1']);
+      expect(loaded.getRecordedDependencies('test-1')).toEqual(['child-1']);
+      expect(loaded.getRecordedDependencies('feature-1')).toEqual(['epic-1']);
+      expect(loaded.getRecordedDependencies('epic-1')).toEqual([]);
+      expect(() => loaded.recordDependency('bd-404', 'epic-1')).toThrow('bd-404 not found in mapping');
+
+      loaded.forgetDependency('test-1', 'child-1');
+      expect(loaded.getRecordedDependencies('test-1')).toEqual([]);
+      expect(loaded.getTaskMappings()[0]).not.toHaveProperty('testDependsOn', expect.anything());
+    });
+  });
+
+  describe('load() of older and invalid files', () => {
+    function writeMapping(filePath: string, data: unknown): Promise<void> {
+      return fs.writeFile(filePath, typeof data === 'string' ? data : JSON.stringify(data), 'utf-8');
+    }
+
+    it('migrates a 1.0 file in memory and backs it up on the first save', async () => {
+      const filePath = getTempFile();
+      const backupPath = `${filePath}.v1.0.bak`;
+      tempFiles.push(backupPath);
+      const original = {
+        version: '1.0',
+        generatedAt: '2024-01-01T00:00:00.000Z',
+        tasks: [{ tmId: 1, beadsId: 'epic-1', type: 'epic', subtasks: [] }],
+      };
+      await writeMapping(filePath, original);
+
+      const loaded = await IdMapper.load(filePath);
+
+      expect(loaded.getMigration()).toEqual({ from: '1.0', to: MAPPING_FILE_VERSION, backupPath });
+      expect(loaded.getEpicId(1)).toBe('epic-1');
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual(original);
+      expect(await IdMapper.exists(backupPath)).toBe(false);
+
+      loaded.enableCheckpoints(filePath);
+      await loaded.forTag('master').checkpoint();
+      await loaded.save(filePath);
+
+      expect(JSON.parse(await fs.readFile(backupPath, 'utf-8'))).toEqual(original);
+      const upgraded = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      expect(upgraded.version).toBe(MAPPING_FILE_VERSION);
+      expect(upgraded.tasks[0].tag).toBe('master');
+      expect((await IdMapper.load(filePath)).getMigration()).toBeUndefined();
+    });
+
+    it('rejects files that are not JSON', async () => {
+      const filePath = getTempFile();
+      await writeMapping(filePath, '{"version": "1.1", "tasks": [');
+
+      await expect(IdMapper.load(filePath)).rejects.toThrow(MappingFileError);
+      await expect(IdMapper.load(filePath)).rejects.toThrow('is not valid JSON');
+    });
+
+    it('rejects files written by a newer tm2bd without touching them', async () => {
+      const filePath = getTempFile();
+      await writeMapping(filePath, { version: '9.0', generatedAt: '', tasks: [] });
+
+      await expect(IdMapper.load(filePath)).rejects.toThrow('Upgrade tm2bd');
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).version).toBe('9.0');
+    });
+
+    it('names every invalid field', async () => {
+      const filePath = getTempFile();
+      await writeMapping(filePath, {
+        version: MAPPING_FILE_VERSION,
+        generatedAt: '',
+        tasks: [{ tmId: 'one', tag: 'master', beadsId: '', type: 'epic', subtasks: [] }],
+      });
+
+      await expect(IdMapper.load(filePath)).rejects.toThrow(/tasks\.0\.tmId: .*\n {2}tasks\.0\.beadsId: /);
+    });
+  });
+
+  describe('getTaskMappings() + removeTask()', () => {
+    it('lists the view tag in task ID order and removes tasks', () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(2, 'epic-2');
+      mapper.addEpic(1, 'epic-1');
+      mapper.forTag('other').addEpic(1, 'other-1');
+
+      expect(mapper.getTaskMappings().map(t => t.beadsId)).toEqual(['epic-1', 'epic-2']);
+
+      expect(mapper.removeTask(1)).toBe(true);
+      expect(mapper.removeTask(1)).toBe(false);
+      expect(mapper.getEpicId(1)).toBeUndefined();
+      expect(mapper.forTag('other').getEpicId(1)).toBe('other-1');
+    });
+  });
+
+  describe('setEpicId() + removeSubtask() + removeTestIssueId()', () => {
+    it('replaces and forgets individual issues of a mapped task', () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'e1');
+      mapper.addSubtask(1, 1, 'c1');
+      mapper.addSubtask(1, 2, 'c2');
+      mapper.setTestIssueId(1, 't1');
+
+      mapper.setEpicId(1, 'e1-new');
+      expect(mapper.removeSubtask(1, 1)).toBe(true);
+      expect(mapper.removeSubtask(1, 1)).toBe(false);
+      expect(mapper.removeTestIssueId(1)).toBe(true);
+      expect(mapper.removeTestIssueId(1)).toBe(false);
+
+      expect(mapper.getEpicId(1)).toBe('e1-new');
+      expect(mapper.getSubtaskId(1, 1)).toBeUndefined();
+      expect(mapper.getSubtaskId(1, 2)).toBe('c2');
+      expect(mapper.getTestIssueId(1)).toBeUndefined();
+      expect(() => mapper.setEpicId(2, 'e2')).toThrow('Task 2 not found in mapping');
+    });
+  });
+
+  describe('getBeadsIds()', () => {
+    it('collects epic, child and test issue IDs from every tag', () => {
+      const mapper = new IdMapper();
+      mapper.addEpic(1, 'e1');
+      mapper.addSubtask(1, 1, 'c1');
+      mapper.setTestIssueId(1, 't1');
+      mapper.forTag('other').addEpic(1, 'o1');
+
+      expect([...mapper.getBeadsIds()].sort()).toEqual(['c1', 'e1', 'o1', 't1']);
+    });
+  });
+
+  describe('archive()', () => {
+    it('moves the mapping file to a timestamped backup', async () => {
+      const filePath = getTempFile();
+      await fs.writeFile(filePath, '{}', 'utf-8');
+
+      const archivePath = await IdMapper.archive(filePath);
+      tempFiles.push(archivePath);
+
+      expect(archivePath).toMatch(/\.bak$/);
+      expect(await IdMapper.exists(filePath)).toBe(false);
+      expect(await fs.readFile(archivePath, 'utf-8')).toBe('{}');
+    });
+  });
+
   describe('exists()', () => {
     it('returns true for an existing file', async () => {
       const filePath = getTempFile();
@@ -1,57 +1,271 @@
 import fs from 'fs/promises';
+import path from 'path';
+import { DEFAULT_TAG } from '../schemas/taskmaster.js';
+import { MAPPING_FILE_VERSION, MappingFileError, parseMappingFile } from './mapping-file.js';
+import type { LastSynced, MappingFile, SubtaskMapping, SyncedFields, TaskMapping } from './mapping-file.js';
 
-export interface TaskMapping {
-  tmId: number;
-  beadsId: string;
-  type: 'epic';
-  subtasks: SubtaskMapping[];
-  testIssueId?: string;
-}
+export type { LastSynced, MappingFile, SubtaskMapping, SyncedFields, TaskMapping };
 
-export interface SubtaskMapping {
-  tmId: number;
-  beadsId: string;
-  type: 'child';
+/**
+ * An older mapping file that `load` upgraded in memory, and where the
+ * original is kept once the upgraded mapping is first saved over it.
+ */
+export interface MappingMigration {
+  from: string;
+  to: string;
+  backupPath: string;
 }
 
-export interface MappingFile {
-  version: string;
-  generatedAt: string;
-  tasks: TaskMapping[];
-}
+let saveCounter = 0;
 
 export class IdMapper {
   private tasks: TaskMapping[] = [];
+  private tag: string = DEFAULT_TAG;
+  private root?: IdMapper;
+  private checkpointPath?: string;
+  private checkpointQueue: Promise<void> = Promise.resolve();
+  private migration?: MappingMigration;
+  /** The file `load` migrated, until the first save over it backs it up. */
+  private migratedPath?: string;
+  private backup?: Promise<void>;
 
+  /**
+   * Return a view of this mapping scoped to a Task-Master tag. The view shares
+   * storage with this mapper, so the same numeric task ID in two tags maps to
+   * two different Beads issues. A new IdMapper is scoped to the master tag.
+   */
+  forTag(tag: string): IdMapper {
+    const view = new IdMapper();
+    view.tasks = this.tasks;
+    view.tag = tag;
+    view.root = this.root ?? this;
+    return view;
+  }
+
+  /**
+   * An independent copy of the whole mapping, scoped to the master tag, for
+   * working out changes without touching this one. Checkpoints are not copied.
+   */
+  clone(): IdMapper {
+    const copy = new IdMapper();
+    copy.tasks = structuredClone(this.tasks);
+    return copy;
+  }
+
+  getTag(): string {
+    return this.tag;
+  }
+
+  /** Set when `load` upgraded the file from an older format. */
+  getMigration(): MappingMigration | undefined {
+    return (this.root ?? this).migration;
+  }
+
+  /** Every tag that has at least one mapped task. */
+  getTags(): string[] {
+    return [...new Set(this.tasks.map(t => t.tag))];
+  }
+
+  private findTask(tmId: number): TaskMapping | undefined {
+    return this.tasks.find(t => t.tmId === tmId && t.tag === this.tag);
+  }
+
+  /**
+   * Make checkpoint() persist the mapping to the given file. Creators call
+   * checkpoint() after every successful bd call so an interrupted sync can
+   * be resumed from exactly where it stopped.
+   */
+  enableCheckpoints(filePath: string): void {
+    (this.root ?? this).checkpointPath = filePath;
+  }
+
+  async checkpoint(): Promise<void> {
+    const root = this.root ?? this;
+    const checkpointPath = root.checkpointPath;
+    if (checkpointPath) {
+      // Parallel creators checkpoint at the same time; queue the writes so an
+      // older snapshot can never be renamed over a newer one
+      const write = root.checkpointQueue.then(() => this.save(checkpointPath));
+      root.checkpointQueue = write.catch(() => {});
+      await write;
+    }
+  }
+
+  /**
+   * Epics are kept in task ID order within their tag, so the mapping comes
+   * out the same however parallel creations finish.
+   */
   addEpic(tmId: number, beadsId: string): void {
-    this.tasks.push({ tmId, beadsId, type: 'epic', subtasks: [] });
+    const entry: TaskMapping = { tmId, tag: this.tag, beadsId, type: 'epic', subtasks: [] };
+    const next = this.tasks.findIndex(t => t.tag === this.tag && t.tmId > tmId);
+    if (next === -1) {
+      this.tasks.push(entry);
+    } else {
+      this.tasks.splice(next, 0, entry);
+    }
   }
 
   addSubtask(taskTmId: number, subtaskTmId: number, beadsId: string): void {
-    const task = this.tasks.find(t => t.tmId === taskTmId);
+    const task = this.findTask(taskTmId);
     if (!task) throw new Error(`Task ${taskTmId} not found in mapping`);
     task.subtasks.push({ tmId: subtaskTmId, beadsId, type: 'child' });
   }
 
+  /** Point an already-mapped task at a different epic, e.g. a recreated one. */
+  setEpicId(tmId: number, beadsId: string): void {
+    const task = this.findTask(tmId);
+    if (!task) throw new Error(`Task ${tmId} not found in mapping`);
+    task.beadsId = beadsId;
+  }
+
   getEpicId(tmId: number): string | undefined {
-    return this.tasks.find(t => t.tmId === tmId)?.beadsId;
+    return this.findTask(tmId)?.beadsId;
   }
 
   getSubtaskId(taskTmId: number, subtaskTmId: number): string | undefined {
-    const task = this.tasks.find(t => t.tmId === taskTmId);
+    const task = this.findTask(taskTmId);
     return task?.subtasks.find(s => s.tmId === subtaskTmId)?.beadsId;
   }
 
   setTestIssueId(taskTmId: number, beadsId: string): void {
-    const task = this.tasks.find(t => t.tmId === taskTmId);
+    const task = this.findTask(taskTmId);
     if (!task) throw new Error(`Task ${taskTmId} not found in mapping`);
     task.testIssueId = beadsId;
   }
 
   getTestIssueId(taskTmId: number): string | undefined {
-    return this.tasks.find(t => t.tmId === taskTmId)?.testIssueId;
+    return this.findTask(taskTmId)?.testIssueId;
+  }
+
+  /** Remember the content hash of a task as it was last synced. */
+  setContentHash(tmId: number, hash: string): void {
+    const task = this.findTask(tmId);
+    if (!task) throw new Error(`Task ${tmId} not found in mapping`);
+    task.contentHash = hash;
+  }
+
+  getContentHash(tmId: number): string | undefined {
+    return this.findTask(tmId)?.contentHash;
+  }
+
+  setSubtaskContentHash(taskTmId: number, subtaskTmId: number, hash: string): void {
+    const subtask = this.findTask(taskTmId)?.subtasks.find(s => s.tmId === subtaskTmId);
+    if (!subtask) throw new Error(`Subtask ${taskTmId}.${subtaskTmId} not found in mapping`);
+    subtask.contentHash = hash;
+  }
+
+  getSubtaskContentHash(taskTmId: number, subtaskTmId: number): string | undefined {
+    return this.findTask(taskTmId)?.subtasks.find(s => s.tmId === subtaskTmId)?.contentHash;
+  }
+
+  /** Remember the fields of a task's epic as they were last synced. */
+  setLastSynced(tmId: number, state: LastSynced): void {
+    const task = this.findTask(tmId);
+    if (!task) throw new Error(`Task ${tmId} not found in mapping`);
+    task.lastSynced = state;
+  }
+
+  getLastSynced(tmId: number): LastSynced | undefined {
+    return this.findTask(tmId)?.lastSynced;
+  }
+
+  setSubtaskLastSynced(taskTmId: number, subtaskTmId: number, state: LastSynced): void {
+    const subtask = this.findTask(taskTmId)?.subtasks.find(s => s.tmId === subtaskTmId);
+    if (!subtask) throw new Error(`Subtask ${taskTmId}.${subtaskTmId} not found in mapping`);
+    subtask.lastSynced = state;
+  }
+
+  getSubtaskLastSynced(taskTmId: number, subtaskTmId: number): LastSynced | undefined {
+    return this.findTask(taskTmId)?.subtasks.find(s => s.tmId === subtaskTmId)?.lastSynced;
+  }
+
+  /**
+   * Read and write the recorded dependencies of an issue, found by its Beads
+   * ID in any tag. Empty lists are dropped from the mapping.
+   */
+  private recordedDependencies(beadsId: string): { read(): string[]; write(ids: string[]): void } | undefined {
+    const orUndefined = (ids: string[]) => (ids.length > 0 ? ids : undefined);
+    for (const task of this.tasks) {
+      if (task.beadsId === beadsId) {
+        return { read: () => task.dependsOn ?? [], write: (ids) => { task.dependsOn = orUndefined(ids); } };
+      }
+      if (task.testIssueId === beadsId) {
+        return { read: () => task.testDependsOn ?? [], write: (ids) => { task.testDependsOn = orUndefined(ids); } };
+      }
+      const subtask = task.subtasks.find(s => s.beadsId === beadsId);
+      if (subtask) {
+        return { read: () => subtask.dependsOn ?? [], write: (ids) => { subtask.dependsOn = orUndefined(ids); } };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remember that tm2bd made `blockedId` depend on `blockingId`. Only such
+   * dependencies are removed when tasks.json drops them; ones added by hand
+   * in Beads are left alone.
+   */
+  recordDependency(blockedId: string, blockingId: string): void {
+    const recorded = this.recordedDependencies(blockedId);
+    if (!recorded) throw new Error(`Beads issue ${blockedId} not found in mapping`);
+    if (!recorded.read().includes(blockingId)) {
+      recorded.write([...recorded.read(), blockingId]);
+    }
+  }
+
+  forgetDependency(blockedId: string, blockingId: string): void {
+    const recorded = this.recordedDependencies(blockedId);
+    recorded?.write(recorded.read().filter(id => id !== blockingId));
+  }
+
+  /** Beads IDs tm2bd made this issue depend on. */
+  getRecordedDependencies(blockedId: string): string[] {
+    return [...(this.recordedDependencies(blockedId)?.read() ?? [])];
+  }
+
+  /** Forget a subtask's child issue so the next sync creates it again. */
+  removeSubtask(taskTmId: number, subtaskTmId: number): boolean {
+    const task = this.findTask(taskTmId);
+    const index = task?.subtasks.findIndex(s => s.tmId === subtaskTmId) ?? -1;
+    if (index === -1) return false;
+    task!.subtasks.splice(index, 1);
+    return true;
   }
 
+  /** Forget a task's test issue so the next sync creates it again. */
+  removeTestIssueId(taskTmId: number): boolean {
+    const task = this.findTask(taskTmId);
+    if (task?.testIssueId === undefined) return false;
+    delete task.testIssueId;
+    delete task.testDependsOn;
+    return true;
+  }
+
+  /** Task mappings for this view's tag, in task ID order. */
+  getTaskMappings(): TaskMapping[] {
+    return this.tasks.filter(t => t.tag === this.tag);
+  }
+
+  /** Drop a task (and its subtask and test issue mappings) from this view's tag. */
+  removeTask(tmId: number): boolean {
+    const index = this.tasks.findIndex(t => t.tmId === tmId && t.tag === this.tag);
+    if (index === -1) return false;
+    this.tasks.splice(index, 1);
+    return true;
+  }
+
+  /** Every Beads ID recorded in the mapping, across all tags. */
+  getBeadsIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const task of this.tasks) {
+      ids.add(task.beadsId);
+      if (task.testIssueId) ids.add(task.testIssueId);
+      for (const subtask of task.subtasks) ids.add(subtask.beadsId);
+    }
+    return ids;
+  }
+
+  /** Counts cover every tag in the mapping, not just this view's tag. */
   getStats(): { epicCount: number; childCount: number; testIssueCount: number } {
     return {
       epicCount: this.tasks.length,
@@ -61,22 +275,62 @@ export class IdMapper {
   }
 
   async save(filePath: string): Promise<void> {
+    // The first save over a migrated file keeps the original next to it.
+    // A file moved away since loading, as a full rollback archives it, is
+    // kept already and there is nothing left to copy
+    const root = this.root ?? this;
+    if (root.migration && root.migratedPath === path.resolve(filePath)) {
+      root.backup ??= fs.copyFile(filePath, root.migration.backupPath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+      await root.backup;
+    }
     const data: MappingFile = {
-      version: '1.0',
+      version: MAPPING_FILE_VERSION,
       generatedAt: new Date().toISOString(),
       tasks: this.tasks
     };
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    // Write then rename so a crash or signal mid-write never leaves a truncated file
+    const tmpPath = `${filePath}.${process.pid}-${++saveCounter}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
   }
 
+  /**
+   * Load and validate a mapping file. Files in an older format are migrated
+   * in memory only; the file itself is copied to a backup and rewritten in
+   * the current format by the first `save` or checkpoint to it.
+   * @throws MappingFileError if the file is corrupted, invalid or too new
+   */
   static async load(filePath: string): Promise<IdMapper> {
     const content = await fs.readFile(filePath, 'utf-8');
-    const data: MappingFile = JSON.parse(content);
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      throw new MappingFileError(`Mapping file ${filePath} is not valid JSON: ${(error as Error).message}`);
+    }
+    const { file, migratedFrom } = parseMappingFile(json, filePath);
+
     const mapper = new IdMapper();
-    mapper.tasks = data.tasks;
+    mapper.tasks = file.tasks;
+    if (migratedFrom !== undefined) {
+      mapper.migration = { from: migratedFrom, to: MAPPING_FILE_VERSION, backupPath: `${filePath}.v${migratedFrom}.bak` };
+      mapper.migratedPath = path.resolve(filePath);
+    }
     return mapper;
   }
 
+  /**
+   * Move a mapping file aside to a timestamped backup and return its new path.
+   */
+  static async archive(filePath: string): Promise<string> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archivePath = `${filePath}.${stamp}.bak`;
+    await fs.rename(filePath, archivePath);
+    return archivePath;
+  }
+
   static async exists(filePath: string): Promise<boolean> {
     try {
       await fs.access(filePath);
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { MAPPING_FILE_VERSION, MappingFileError, parseMappingFile } from './mapping-file.js';
+
+describe('parseMappingFile', () => {
+  const current = {
+    version: MAPPING_FILE_VERSION,
+    generatedAt: '2024-01-01T00:00:00.000Z',
+    tasks: [{
+      tmId: 1,
+      tag: 'feature-x',
+      beadsId: 'epic-1',
+      type: 'epic',
+      subtasks: [{ tmId: 1, beadsId: 'child-1', type: 'child' }],
+      testIssueId: 'test-1',
+    }],
+  };
+
+  it('accepts a file in the current format as is', () => {
+    expect(parseMappingFile(current, 'map.json')).toEqual({ file: current });
+  });
+
+  it('migrates 1.0 files and reports the version it started from', () => {
+    const result = parseMappingFile(
+      { version: '1.0', generatedAt: '', tasks: [{ tmId: 2, beadsId: 'epic-2', type: 'epic', subtasks: [] }] },
+      'map.json',
+    );
+
+    expect(result.migratedFrom).toBe('1.0');
+    expect(result.file.version).toBe(MAPPING_FILE_VERSION);
+    expect(result.file.tasks[0].tag).toBe('master');
+  });
+
+  it('migrates 1.2 files without last-synced state', () => {
+    const result = parseMappingFile({ ...current, version: '1.2' }, 'map.json');
+
+    expect(result).toEqual({ file: current, migratedFrom: '1.2' });
+  });
+
+  it('migrates 1.3 files without recorded dependencies', () => {
+    const result = parseMappingFile({ ...current, version: '1.3' }, 'map.json');
+
+    expect(result).toEqual({ file: current, migratedFrom: '1.3' });
+  });
+
+  it('rejects missing, unknown and newer versions', () => {
+    expect(() => parseMappingFile({ tasks: [] }, 'map.json')).toThrow('has no valid version');
+    expect(() => parseMappingFile({ ...current, version: '0.9' }, 'map.json')).toThrow('unknown version 0.9');
+    expect(() => parseMappingFile({ ...current, version: '1.10' }, 'map.json')).toThrow(MappingFileError);
+  });
+
+  it('rejects documents that are not objects', () => {
+    expect(() => parseMappingFile([], 'map.json')).toThrow('must contain a JSON object');
+  });
+});
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { DEFAULT_TAG } from '../schemas/taskmaster.js';
+
+/**
+ * Versioned format of the mapping file. Every format change bumps
+ * MAPPING_FILE_VERSION and adds a migration from the previous version, so
+ * older files are upgraded step by step when they are loaded.
+ */
+export const MAPPING_FILE_VERSION = '1.4';
+
+// --- Schemas ---
+
+/** Hash of the Task-Master fields last synced, see src/sync/content-hash.ts. */
+export const ContentHashSchema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a SHA-256 hex digest');
+
+/** The synced fields of an issue, as Beads sees them; see src/sync/conflicts.ts. */
+export const SyncedFieldsSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  priority: z.number().int().optional(),
+});
+
+/**
+ * The fields of an item when it was last synced, as tm2bd rendered them from
+ * tasks.json and as Beads had them. The two differ where a conflict was
+ * resolved in favour of Beads.
+ */
+export const LastSyncedSchema = z.object({
+  taskMaster: SyncedFieldsSchema,
+  beads: SyncedFieldsSchema,
+});
+
+/**
+ * Beads IDs an issue depends on through `blocks` dependencies that tm2bd
+ * added. Only these are removed again when tasks.json drops them.
+ */
+export const DependsOnSchema = z.array(z.string().min(1));
+
+export const SubtaskMappingSchema = z.object({
+  tmId: z.number().int(),
+  beadsId: z.string().min(1),
+  type: z.literal('child'),
+  contentHash: ContentHashSchema.optional(),
+  lastSynced: LastSyncedSchema.optional(),
+  dependsOn: DependsOnSchema.optional(),
+});
+
+export const TaskMappingSchema = z.object({
+  tmId: z.number().int(),
+  tag: z.string().min(1),
+  beadsId: z.string().min(1),
+  type: z.literal('epic'),
+  subtasks: z.array(SubtaskMappingSchema),
+  testIssueId: z.string().min(1).optional(),
+  contentHash: ContentHashSchema.optional(),
+  lastSynced: LastSyncedSchema.optional(),
+  /** Dependencies tm2bd added to the epic. */
+  dependsOn: DependsOnSchema.optional(),
+  /** Dependencies tm2bd added to the test issue. */
+  testDependsOn: DependsOnSchema.optional(),
+});
+
+export const MappingFileSchema = z.object({
+  version: z.literal(MAPPING_FILE_VERSION),
+  generatedAt: z.string(),
+  tasks: z.array(TaskMappingSchema),
+});
+
+// --- Types ---
+
+export type SyncedFields = z.infer<typeof SyncedFieldsSchema>;
+export type LastSynced = z.infer<typeof LastSyncedSchema>;
+export type SubtaskMapping = z.infer<typeof SubtaskMappingSchema>;
+export type TaskMapping = z.infer<typeof TaskMappingSchema>;
+export type MappingFile = z.infer<typeof MappingFileSchema>;
+
+/** A mapping file that cannot be loaded: corrupted, invalid or too new. */
+export class MappingFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MappingFileError';
+  }
+}
+
+// --- Migrations ---
+
+type RawMappingFile = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: RawMappingFile) => RawMappingFile;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 1.0 files written before tag support have no tag; they only ever
+    // covered master
+    from: '1.0',
+    to: '1.1',
+    migrate: (data) => ({
+      ...data,
+      tasks: Array.isArray(data.tasks)
+        ? data.tasks.map((task: unknown) => (
+          typeof task === 'object' && task !== null && !('tag' in task)
+            ? { ...task, tag: DEFAULT_TAG }
+            : task
+        ))
+        : data.tasks,
+    }),
+  },
+  {
+    // 1.2 adds optional content hashes; items without one count as changed
+    from: '1.1',
+    to: '1.2',
+    migrate: (data) => data,
+  },
+  {
+    // 1.3 adds the optional last-synced fields; items without them are not
+    // checked for conflicts
+    from: '1.2',
+    to: '1.3',
+    migrate: (data) => data,
+  },
+  {
+    // 1.4 records the dependencies tm2bd added. Older files have none
+    // recorded; edges tasks.json still lists are recorded on the next
+    // reconcile, and the rest are left alone
+    from: '1.3',
+    to: '1.4',
+    migrate: (data) => data,
+  },
+];
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor, aMinor] = a.split('.').map(Number);
+  const [bMajor, bMinor] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Validate a parsed mapping file, running the migrations from its version up
+ * to the current one first. `migratedFrom` is set when any ran.
+ * @throws MappingFileError if the file is invalid, of an unknown version or
+ *   written by a newer tm2bd
+ */
+export function parseMappingFile(
+  json: unknown,
+  source: string,
+): { file: MappingFile; migratedFrom?: string } {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new MappingFileError(`Mapping file ${source} must contain a JSON object`);
+  }
+
+  let data = json as RawMappingFile;
+  const original = data.version;
+  if (typeof original !== 'string' || !/^\d+\.\d+$/.test(original)) {
+    throw new MappingFileError(`Mapping file ${source} has no valid version (found ${JSON.stringify(original)})`);
+  }
+  if (compareVersions(original, MAPPING_FILE_VERSION) > 0) {
+    throw new MappingFileError(
+      `Mapping file ${source} has version ${original}, but this tm2bd only reads up to ${MAPPING_FILE_VERSION}. ` +
+      'Upgrade tm2bd to use it.',
+    );
+  }
+
+  let version = original;
+  while (version !== MAPPING_FILE_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new MappingFileError(`Mapping file ${source} has unknown version ${version}`);
+    }
+    data = { ...migration.migrate(data), version: migration.to };
+    version = migration.to;
+  }
+
+  const result = MappingFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new MappingFileError(`Invalid mapping file ${source}:\n${issues}`);
+  }
+  return { file: result.data, ...(original !== MAPPING_FILE_VERSION ? { migratedFrom: original } : {}) };
+}
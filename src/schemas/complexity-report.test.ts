@@ -0,0 +1,151 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import type { TaskMasterTask } from './taskmaster.js';
+import {
+  ComplexityReportSchema,
+  defaultComplexityReportPath,
+  discoverComplexityReport,
+  mergeComplexityReport,
+} from './complexity-report.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+const sampleReport = {
+  meta: { generatedAt: '2025-01-01T00:00:00.000Z', thresholdScore: 5, projectName: 'demo', usedResearch: false },
+  complexityAnalysis: [
+    {
+      taskId: 1,
+      taskTitle: 'Task',
+      complexityScore: 8,
+      recommendedSubtasks: 6,
+      expansionPrompt: 'Break down the auth flow',
+      reasoning: 'Touches several services',
+    },
+  ],
+};
+
+// ===========================================================================
+// ComplexityReportSchema
+// ===========================================================================
+
+describe('ComplexityReportSchema', () => {
+  it('parses a task-master report', () => {
+    const report = ComplexityReportSchema.parse(sampleReport);
+    expect(report.complexityAnalysis[0].complexityScore).toBe(8);
+    expect(report.meta?.thresholdScore).toBe(5);
+  });
+
+  it('coerces string task IDs', () => {
+    const report = ComplexityReportSchema.parse({
+      complexityAnalysis: [{ taskId: '4', complexityScore: 2 }],
+    });
+    expect(report.complexityAnalysis[0].taskId).toBe(4);
+  });
+
+  it('throws when a score is out of range', () => {
+    expect(() =>
+      ComplexityReportSchema.parse({ complexityAnalysis: [{ taskId: 1, complexityScore: 11 }] }),
+    ).toThrow();
+  });
+});
+
+// ===========================================================================
+// defaultComplexityReportPath
+// ===========================================================================
+
+describe('defaultComplexityReportPath', () => {
+  it('points at .taskmaster/reports with a suffix for non-master tags', () => {
+    const tasksPath = path.join('/repo', '.taskmaster', 'tasks', 'tasks.json');
+    expect(defaultComplexityReportPath(tasksPath)).toBe(
+      path.join('/repo', '.taskmaster', 'reports', 'task-complexity-report.json'),
+    );
+    expect(defaultComplexityReportPath(tasksPath, 'feature-x')).toBe(
+      path.join('/repo', '.taskmaster', 'reports', 'task-complexity-report_feature-x.json'),
+    );
+  });
+});
+
+// ===========================================================================
+// discoverComplexityReport
+// ===========================================================================
+
+describe('discoverComplexityReport', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(async () => {
+    for (const dir of tempDirs) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  async function makeTaskmasterDir(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-report-test-'));
+    tempDirs.push(dir);
+    await fs.mkdir(path.join(dir, 'tasks'));
+    await fs.mkdir(path.join(dir, 'reports'));
+    return dir;
+  }
+
+  it('finds the report for the tag', async () => {
+    const dir = await makeTaskmasterDir();
+    await fs.writeFile(
+      path.join(dir, 'reports', 'task-complexity-report.json'),
+      JSON.stringify(sampleReport),
+      'utf-8',
+    );
+
+    const report = await discoverComplexityReport(path.join(dir, 'tasks', 'tasks.json'));
+
+    expect(report?.complexityAnalysis).toHaveLength(1);
+  });
+
+  it('returns undefined when the tag has no report', async () => {
+    const dir = await makeTaskmasterDir();
+
+    expect(await discoverComplexityReport(path.join(dir, 'tasks', 'tasks.json'), 'other')).toBeUndefined();
+  });
+
+  it('names the file when the report is invalid', async () => {
+    const dir = await makeTaskmasterDir();
+    const reportPath = path.join(dir, 'custom.json');
+    await fs.writeFile(reportPath, JSON.stringify({ meta: {} }), 'utf-8');
+
+    await expect(
+      discoverComplexityReport(path.join(dir, 'tasks', 'tasks.json'), 'master', reportPath),
+    ).rejects.toThrow(`Invalid complexity report ${reportPath}`);
+  });
+});
+
+// ===========================================================================
+// mergeComplexityReport
+// ===========================================================================
+
+describe('mergeComplexityReport', () => {
+  it('copies the score and analysis onto matching tasks only', () => {
+    const tasks = [makeTask({ id: 1, complexity: 3 }), makeTask({ id: 2 })];
+
+    const merged = mergeComplexityReport(tasks, ComplexityReportSchema.parse(sampleReport));
+
+    expect(merged[0].complexity).toBe(8);
+    expect(merged[0].complexityAnalysis).toEqual({
+      recommendedSubtasks: 6,
+      expansionPrompt: 'Break down the auth flow',
+      reasoning: 'Touches several services',
+    });
+    expect(merged[1]).toBe(tasks[1]);
+    expect(tasks[0].complexity).toBe(3);
+  });
+});
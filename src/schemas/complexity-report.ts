@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { DEFAULT_TAG } from './taskmaster.js';
+import type { TaskMasterTask } from './taskmaster.js';
+
+// --- Schemas ---
+
+/** One entry of `complexityAnalysis` in task-complexity-report.json. */
+export const ComplexityAnalysisEntrySchema = z.object({
+  taskId: z.coerce.number(),
+  taskTitle: z.string().optional(),
+  complexityScore: z.number().min(1).max(10),
+  recommendedSubtasks: z.number().int().min(0).optional(),
+  expansionPrompt: z.string().optional(),
+  reasoning: z.string().optional(),
+});
+
+export const ComplexityReportSchema = z.object({
+  meta: z
+    .object({
+      generatedAt: z.string().optional(),
+      thresholdScore: z.number().optional(),
+      projectName: z.string().optional(),
+    })
+    .optional(),
+  complexityAnalysis: z.array(ComplexityAnalysisEntrySchema),
+});
+
+// --- Inferred Types ---
+export type ComplexityAnalysisEntry = z.infer<typeof ComplexityAnalysisEntrySchema>;
+export type ComplexityReport = z.infer<typeof ComplexityReportSchema>;
+
+// --- Report Loading ---
+
+/**
+ * Where task-master writes the report for a tag: `.taskmaster/reports/` next
+ * to `.taskmaster/tasks/`, with non-master tags suffixed `_<tag>`.
+ */
+export function defaultComplexityReportPath(tasksPath: string, tag: string = DEFAULT_TAG): string {
+  const fileName = tag === DEFAULT_TAG
+    ? 'task-complexity-report.json'
+    : `task-complexity-report_${tag}.json`;
+  return path.resolve(path.dirname(tasksPath), '..', 'reports', fileName);
+}
+
+export async function parseComplexityReport(filePath: string): Promise<ComplexityReport> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const result = ComplexityReportSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    throw new Error(`Invalid complexity report ${filePath}: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the report given explicitly, or task-master's report for the tag if
+ * it exists. Returns undefined when there is no report to load.
+ */
+export async function discoverComplexityReport(
+  tasksPath: string,
+  tag: string = DEFAULT_TAG,
+  explicitPath?: string,
+): Promise<ComplexityReport | undefined> {
+  if (explicitPath) {
+    return parseComplexityReport(explicitPath);
+  }
+  const candidate = defaultComplexityReportPath(tasksPath, tag);
+  try {
+    await fs.access(candidate);
+  } catch {
+    return undefined;
+  }
+  return parseComplexityReport(candidate);
+}
+
+/**
+ * Copy each task's report entry onto it: the score replaces `complexity` and
+ * the rest becomes `complexityAnalysis`. Tasks missing from the report are
+ * returned unchanged.
+ */
+export function mergeComplexityReport(
+  tasks: TaskMasterTask[],
+  report: ComplexityReport,
+): TaskMasterTask[] {
+  const entries = new Map(report.complexityAnalysis.map(entry => [entry.taskId, entry]));
+  return tasks.map((task) => {
+    const entry = entries.get(task.id);
+    if (!entry) return task;
+    return {
+      ...task,
+      complexity: entry.complexityScore,
+      complexityAnalysis: {
+        recommendedSubtasks: entry.recommendedSubtasks,
+        expansionPrompt: entry.expansionPrompt,
+        reasoning: entry.reasoning,
+      },
+    };
+  });
+}
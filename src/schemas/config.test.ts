@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  Tm2bdConfigSchema,
+  DEFAULT_SYNC_CONFIG,
+  resolveConfig,
+  validateConfig,
+  discoverConfig,
+  CONFIG_FILE_NAME,
+} from './config.js';
+
+// ===========================================================================
+// Tm2bdConfigSchema
+// ===========================================================================
+
+describe('Tm2bdConfigSchema', () => {
+  it('accepts an empty config', () => {
+    expect(Tm2bdConfigSchema.parse({})).toEqual({});
+  });
+
+  it('accepts numeric and P-prefixed priorities up to P4', () => {
+    const result = Tm2bdConfigSchema.parse({
+      priorityMap: { high: 'P1', medium: 2, low: 'p4' },
+      defaults: { priority: 'P3' },
+    });
+    expect(result.priorityMap).toEqual({ high: 1, medium: 2, low: 4 });
+    expect(result.defaults?.priority).toBe(3);
+  });
+
+  it('rejects priorities outside P0-P4', () => {
+    expect(() => Tm2bdConfigSchema.parse({ priorityMap: { high: 5 } })).toThrow();
+    expect(() => Tm2bdConfigSchema.parse({ priorityMap: { high: 'P5' } })).toThrow();
+  });
+
+  it('defaults close to false in status actions', () => {
+    const result = Tm2bdConfigSchema.parse({ statusMap: { deferred: { status: 'blocked' } } });
+    expect(result.statusMap?.deferred).toEqual({ status: 'blocked', close: false });
+  });
+
+  it('rejects labels containing commas or whitespace', () => {
+    expect(() => Tm2bdConfigSchema.parse({ labels: ['a,b'] })).toThrow();
+    expect(() => Tm2bdConfigSchema.parse({ labels: ['two words'] })).toThrow();
+    expect(() => Tm2bdConfigSchema.parse({ labels: [''] })).toThrow();
+  });
+
+  it('rejects unknown Task-Master statuses and unknown keys', () => {
+    expect(() => Tm2bdConfigSchema.parse({ statusMap: { review: { close: true } } })).toThrow();
+    expect(() => Tm2bdConfigSchema.parse({ colour: 'blue' })).toThrow();
+  });
+});
+
+// ===========================================================================
+// resolveConfig
+// ===========================================================================
+
+describe('resolveConfig', () => {
+  it('returns the built-in defaults without layers', () => {
+    expect(resolveConfig()).toEqual(DEFAULT_SYNC_CONFIG);
+  });
+
+  it('lets later layers override earlier ones field by field', () => {
+    const config = resolveConfig(
+      { priorityMap: { high: 1, medium: 2, low: 3 }, issueTypes: { epic: 'feature', child: 'task' } },
+      { priorityMap: { low: 4 }, issueTypes: { epic: undefined, test: 'chore' }, defaults: { priority: 2 } },
+    );
+
+    expect(config.priorityMap).toEqual({ high: 1, medium: 2, low: 4 });
+    expect(config.issueTypes).toEqual({ epic: 'feature', child: 'task', test: 'chore' });
+    expect(config.defaults).toEqual({ priority: 2 });
+    expect(config.statusMap).toEqual(DEFAULT_SYNC_CONFIG.statusMap);
+  });
+
+  it('ignores orphans unless a layer picks another policy', () => {
+    expect(resolveConfig().orphans).toEqual({ policy: 'ignore', reason: 'Removed from Task-Master' });
+    expect(resolveConfig({ orphans: { policy: 'close', reason: 'Dropped' } }, { orphans: { policy: 'label' } }).orphans)
+      .toEqual({ policy: 'label', reason: 'Dropped' });
+    expect(() => Tm2bdConfigSchema.parse({ orphans: { policy: 'archive' } })).toThrow();
+  });
+
+  it('reports conflicts unless a layer picks a strategy per field', () => {
+    expect(resolveConfig().conflicts).toEqual({
+      status: 'report-only', title: 'report-only', description: 'report-only', priority: 'report-only',
+    });
+    expect(resolveConfig({ conflicts: { status: 'bd-wins', title: 'newest' } }, { conflicts: { title: 'tm-wins' } }).conflicts)
+      .toEqual({ status: 'bd-wins', title: 'tm-wins', description: 'report-only', priority: 'report-only' });
+    expect(() => Tm2bdConfigSchema.parse({ conflicts: { labels: 'tm-wins' } })).toThrow();
+    expect(() => Tm2bdConfigSchema.parse({ conflicts: { status: 'ask' } })).toThrow();
+  });
+
+  it('accumulates extra labels across layers', () => {
+    const config = resolveConfig({ labels: ['backend', 'v2'] }, { labels: ['v2', 'urgent'] });
+    expect(config.labels).toEqual(['backend', 'v2', 'urgent']);
+  });
+
+  it('does not mutate the defaults', () => {
+    resolveConfig({ priorityMap: { high: 4 } });
+    expect(DEFAULT_SYNC_CONFIG.priorityMap.high).toBe(0);
+  });
+});
+
+// ===========================================================================
+// validateConfig
+// ===========================================================================
+
+describe('validateConfig', () => {
+  it('lists every offending field with its path', () => {
+    expect(() =>
+      validateConfig({ priorityMap: { high: 9 }, issueTypes: { epic: 3 } }, 'config file x.json'),
+    ).toThrow(/Invalid config file x\.json:\n {2}priorityMap\.high: .*\n {2}issueTypes\.epic: /);
+  });
+});
+
+// ===========================================================================
+// discoverConfig
+// ===========================================================================
+
+describe('discoverConfig', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(async () => {
+    for (const dir of tempDirs) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  async function makeTempDir(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-config-test-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  it('finds the config file next to tasks.json', async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(
+      path.join(dir, CONFIG_FILE_NAME),
+      JSON.stringify({ issueTypes: { epic: 'feature' } }),
+      'utf-8',
+    );
+
+    const config = await discoverConfig(path.join(dir, 'tasks.json'));
+
+    expect(config).toEqual({ issueTypes: { epic: 'feature' } });
+  });
+
+  it('returns undefined when there is no config file', async () => {
+    const dir = await makeTempDir();
+
+    expect(await discoverConfig(path.join(dir, 'tasks.json'))).toBeUndefined();
+  });
+
+  it('loads template files relative to the config file', async () => {
+    const dir = await makeTempDir();
+    await fs.mkdir(path.join(dir, 'templates'));
+    await fs.writeFile(path.join(dir, 'templates', 'epic-title.txt'), '[TM-{{id}}] {{title}}\n', 'utf-8');
+    await fs.writeFile(
+      path.join(dir, CONFIG_FILE_NAME),
+      JSON.stringify({ templates: { epic: { title: 'templates/epic-title.txt' } } }),
+      'utf-8',
+    );
+
+    const config = resolveConfig(await discoverConfig(path.join(dir, 'tasks.json')));
+
+    expect(config.templates.epic.title).toBe('[TM-{{id}}] {{title}}');
+    expect(config.templates.epic.description).toBe(DEFAULT_SYNC_CONFIG.templates.epic.description);
+    expect(config.templates.test.title).toBe('Test: {{title}}');
+  });
+
+  it('names the file of a template that does not parse', async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, 'child.md'), '{{#if details}}unclosed', 'utf-8');
+    await fs.writeFile(
+      path.join(dir, CONFIG_FILE_NAME),
+      JSON.stringify({ templates: { child: { description: 'child.md' } } }),
+      'utf-8',
+    );
+
+    await expect(discoverConfig(path.join(dir, 'tasks.json'))).rejects.toThrow(
+      `Invalid child description template ${path.join(dir, 'child.md')}: Unclosed {{#if details}}`,
+    );
+  });
+
+  it('prefers an explicit path', async () => {
+    const dir = await makeTempDir();
+    const explicit = path.join(dir, 'custom.json');
+    await fs.writeFile(explicit, JSON.stringify({ defaults: { priority: 'P4' } }), 'utf-8');
+
+    const config = await discoverConfig(path.join(dir, 'tasks.json'), explicit);
+
+    expect(config).toEqual({ defaults: { priority: 4 } });
+  });
+});
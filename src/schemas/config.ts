@@ -0,0 +1,294 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { TaskMasterStatusSchema, TaskMasterPrioritySchema } from './taskmaster.js';
+import type { TaskMasterStatus } from './taskmaster.js';
+import { parseTemplate } from '../utils/template.js';
+
+/** File name looked up next to tasks.json when no --config is given. */
+export const CONFIG_FILE_NAME = 'tm2bd.config.json';
+
+// --- Schemas ---
+
+/** A Beads priority, written either as a number (0-4) or as "P0".."P4". */
+export const BeadsPrioritySchema = z.union([
+  z.number().int().min(0).max(4),
+  z
+    .string()
+    .regex(/^P[0-4]$/i, 'Expected a priority between P0 and P4')
+    .transform((value) => Number(value.slice(1))),
+]);
+
+export const StatusActionSchema = z.object({
+  status: z.string().optional(),
+  close: z.boolean().default(false),
+});
+
+export const IssueTypesSchema = z.object({
+  epic: z.string().optional(),
+  child: z.string().optional(),
+  test: z.string().optional(),
+});
+
+/** Paths to template files, relative to the config file. */
+export const IssueTemplateFilesSchema = z.strictObject({
+  title: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const TemplatesSchema = z.strictObject({
+  epic: IssueTemplateFilesSchema.optional(),
+  child: IssueTemplateFilesSchema.optional(),
+  test: IssueTemplateFilesSchema.optional(),
+});
+
+/** bd takes labels as a comma-separated list, so commas and whitespace are out. */
+export const LabelSchema = z.string().regex(/^[^,\s]+$/, 'Labels must be non-empty without commas or whitespace');
+
+/** What sync does with issues whose task or subtask left tasks.json. */
+export const OrphanPolicySchema = z.enum(['ignore', 'close', 'label', 'delete']);
+
+export const OrphansSchema = z.strictObject({
+  policy: OrphanPolicySchema.optional(),
+  /** Close reason used by the close policy. */
+  reason: z.string().min(1).optional(),
+});
+
+/** Fields that can change on both sides and be in conflict after a sync. */
+export const ConflictFieldSchema = z.enum(['status', 'title', 'description', 'priority']);
+
+/** Who wins when tasks.json and Beads both changed a field since the last sync. */
+export const ConflictStrategySchema = z.enum(['tm-wins', 'bd-wins', 'newest', 'report-only']);
+
+export const Tm2bdConfigSchema = z.strictObject({
+  statusMap: z.partialRecord(TaskMasterStatusSchema, StatusActionSchema).optional(),
+  priorityMap: z.partialRecord(TaskMasterPrioritySchema, BeadsPrioritySchema).optional(),
+  issueTypes: IssueTypesSchema.optional(),
+  labels: z.array(LabelSchema).optional(),
+  templates: TemplatesSchema.optional(),
+  orphans: OrphansSchema.optional(),
+  conflicts: z.partialRecord(ConflictFieldSchema, ConflictStrategySchema).optional(),
+  defaults: z
+    .strictObject({
+      priority: BeadsPrioritySchema.optional(),
+    })
+    .optional(),
+});
+
+// --- Types ---
+
+export type StatusAction = z.infer<typeof StatusActionSchema>;
+export type OrphanPolicy = z.infer<typeof OrphanPolicySchema>;
+export type ConflictField = z.infer<typeof ConflictFieldSchema>;
+export type ConflictStrategy = z.infer<typeof ConflictStrategySchema>;
+export type Tm2bdConfig = z.infer<typeof Tm2bdConfigSchema>;
+
+export type IssueKind = 'epic' | 'child' | 'test';
+
+/** Template source text for the title and description of one kind of issue. */
+export interface IssueTemplate {
+  title: string;
+  description: string;
+}
+
+/**
+ * Fully resolved settings used by the sync modules. Child and test issue
+ * types, and the default priority for children and test issues, are left to
+ * bd when unset.
+ */
+export interface SyncConfig {
+  statusMap: Record<TaskMasterStatus, StatusAction>;
+  priorityMap: Record<'high' | 'medium' | 'low', number>;
+  issueTypes: { epic: string; child?: string; test?: string };
+  /** Extra labels added to every created issue. */
+  labels: string[];
+  templates: Record<IssueKind, IssueTemplate>;
+  orphans: { policy: OrphanPolicy; reason: string };
+  conflicts: Record<ConflictField, ConflictStrategy>;
+  defaults: { priority?: number };
+}
+
+/**
+ * Built-in templates, matching the output tm2bd has always produced.
+ * See src/utils/template.ts for the syntax.
+ */
+export const DEFAULT_TEMPLATES: Record<IssueKind, IssueTemplate> = {
+  epic: {
+    title: '{{title}}',
+    description: [
+      '## Description',
+      '',
+      '{{description}}',
+      '',
+      '{{#if details}}## Implementation Details',
+      '',
+      '{{details}}',
+      '',
+      '{{/if}}{{#if testStrategy}}## Test Strategy',
+      '',
+      '{{testStrategy}}',
+      '',
+      '{{/if}}{{#if complexityAnalysis.reasoning}}## Complexity Analysis',
+      '',
+      '{{complexityAnalysis.reasoning}}',
+      '{{#if complexityAnalysis.expansionPrompt}}',
+      '**Expansion Prompt:** {{complexityAnalysis.expansionPrompt}}',
+      '{{/if}}',
+      '{{/if}}## Metadata',
+      '',
+      '- **Task-Master ID:** {{id}}',
+      '{{#if complexity}}- **Complexity:** {{complexity}}/10',
+      '{{/if}}{{#if complexityAnalysis.recommendedSubtasks}}- **Recommended Subtasks:** {{complexityAnalysis.recommendedSubtasks}}',
+      '{{/if}}- **Original Status:** {{status}}',
+    ].join('\n'),
+  },
+  child: {
+    title: '{{title}}',
+    description: '{{description}}{{#if details}}\n\n## Implementation Details\n{{details}}{{/if}}',
+  },
+  test: {
+    title: 'Test: {{title}}',
+    description: '## Test Strategy\n{{testStrategy}}',
+  },
+};
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  statusMap: {
+    pending: { close: false },
+    'in-progress': { status: 'in_progress', close: false },
+    done: { close: true },
+    deferred: { status: 'deferred', close: false },
+  },
+  priorityMap: { high: 0, medium: 1, low: 2 },
+  issueTypes: { epic: 'epic' },
+  labels: [],
+  templates: DEFAULT_TEMPLATES,
+  orphans: { policy: 'ignore', reason: 'Removed from Task-Master' },
+  conflicts: { status: 'report-only', title: 'report-only', description: 'report-only', priority: 'report-only' },
+  defaults: {},
+};
+
+// --- Resolution ---
+
+/**
+ * Layer a config file and CLI overrides on top of the built-in defaults.
+ * Later layers win field by field; extra labels accumulate.
+ */
+export function resolveConfig(...layers: Array<Tm2bdConfig | undefined>): SyncConfig {
+  const config: SyncConfig = {
+    statusMap: { ...DEFAULT_SYNC_CONFIG.statusMap },
+    priorityMap: { ...DEFAULT_SYNC_CONFIG.priorityMap },
+    issueTypes: { ...DEFAULT_SYNC_CONFIG.issueTypes },
+    labels: [...DEFAULT_SYNC_CONFIG.labels],
+    templates: {
+      epic: { ...DEFAULT_SYNC_CONFIG.templates.epic },
+      child: { ...DEFAULT_SYNC_CONFIG.templates.child },
+      test: { ...DEFAULT_SYNC_CONFIG.templates.test },
+    },
+    orphans: { ...DEFAULT_SYNC_CONFIG.orphans },
+    conflicts: { ...DEFAULT_SYNC_CONFIG.conflicts },
+    defaults: { ...DEFAULT_SYNC_CONFIG.defaults },
+  };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    Object.assign(config.statusMap, layer.statusMap);
+    Object.assign(config.priorityMap, layer.priorityMap);
+    for (const [level, type] of Object.entries(layer.issueTypes ?? {})) {
+      if (type !== undefined) config.issueTypes[level as keyof SyncConfig['issueTypes']] = type;
+    }
+    for (const label of layer.labels ?? []) {
+      if (!config.labels.includes(label)) config.labels.push(label);
+    }
+    for (const [kind, template] of Object.entries(layer.templates ?? {})) {
+      const target = config.templates[kind as IssueKind];
+      if (template?.title !== undefined) target.title = template.title;
+      if (template?.description !== undefined) target.description = template.description;
+    }
+    if (layer.orphans?.policy !== undefined) config.orphans.policy = layer.orphans.policy;
+    if (layer.orphans?.reason !== undefined) config.orphans.reason = layer.orphans.reason;
+    Object.assign(config.conflicts, layer.conflicts);
+    if (layer.defaults?.priority !== undefined) {
+      config.defaults.priority = layer.defaults.priority;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Validate raw config data.
+ * @throws Error naming the source and every offending field if validation fails
+ */
+export function validateConfig(raw: unknown, source: string): Tm2bdConfig {
+  const result = Tm2bdConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid ${source}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read each template file named in a config file, relative to `baseDir`, and
+ * check that it parses. A single trailing newline is dropped so that files
+ * saved by editors render like the built-in templates.
+ */
+async function readTemplateFiles(
+  templates: z.infer<typeof TemplatesSchema>,
+  baseDir: string,
+): Promise<z.infer<typeof TemplatesSchema>> {
+  const loaded: z.infer<typeof TemplatesSchema> = {};
+  for (const [kind, files] of Object.entries(templates)) {
+    const template: z.infer<typeof IssueTemplateFilesSchema> = {};
+    for (const field of ['title', 'description'] as const) {
+      const file = files?.[field];
+      if (file === undefined) continue;
+      const templatePath = path.resolve(baseDir, file);
+      const source = (await fs.readFile(templatePath, 'utf-8')).replace(/\r?\n$/, '');
+      try {
+        parseTemplate(source);
+      } catch (error) {
+        throw new Error(`Invalid ${kind} ${field} template ${templatePath}: ${(error as Error).message}`);
+      }
+      template[field] = source;
+    }
+    loaded[kind as IssueKind] = template;
+  }
+  return loaded;
+}
+
+/**
+ * Read and validate a config file. Template paths in the file are replaced
+ * by the contents of the files they name.
+ */
+export async function readConfigFile(filePath: string): Promise<Tm2bdConfig> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const config = validateConfig(JSON.parse(content), `config file ${filePath}`);
+  if (config.templates) {
+    config.templates = await readTemplateFiles(config.templates, path.dirname(filePath));
+  }
+  return config;
+}
+
+/**
+ * Load the config file given explicitly, or the one next to tasks.json if it
+ * exists. Returns undefined when there is no config file to load.
+ */
+export async function discoverConfig(
+  tasksPath: string,
+  explicitPath?: string,
+): Promise<Tm2bdConfig | undefined> {
+  if (explicitPath) {
+    return readConfigFile(explicitPath);
+  }
+  const candidate = path.join(path.dirname(tasksPath), CONFIG_FILE_NAME);
+  try {
+    await fs.access(candidate);
+  } catch {
+    return undefined;
+  }
+  return readConfigFile(candidate);
+}
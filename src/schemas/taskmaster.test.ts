@@ -1,10 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
 import {
   TaskMasterSubtaskSchema,
   TaskMasterTaskSchema,
   TaskMasterProjectSchema,
-  validateCircularDependencies,
-  validateDependencyIds,
+  parseTaggedProjects,
+  parseTasksJson,
 } from '../schemas/taskmaster.js';
 
 // ---------------------------------------------------------------------------
@@ -87,6 +90,17 @@ describe('TaskMasterSubtaskSchema', () => {
     const result = TaskMasterSubtaskSchema.parse(input);
     expect(result.dependencies).toEqual([2, 3]);
   });
+
+  it('parses dotted dependency references into subtask references', () => {
+    const input = validSubtask({ dependencies: ['3.2', 1, '4'] });
+    const result = TaskMasterSubtaskSchema.parse(input);
+    expect(result.dependencies).toEqual([{ taskId: 3, subtaskId: 2 }, 1, 4]);
+  });
+
+  it('rejects malformed dependency references', () => {
+    const input = validSubtask({ dependencies: ['abc'] });
+    expect(() => TaskMasterSubtaskSchema.parse(input)).toThrow(/Invalid dependency reference/);
+  });
 });
 
 // ===========================================================================
@@ -187,105 +201,62 @@ describe('TaskMasterProjectSchema', () => {
 });
 
 // ===========================================================================
-// validateCircularDependencies
+// parseTaggedProjects
 // ===========================================================================
 
-describe('validateCircularDependencies', () => {
-  it('returns valid when tasks have no dependencies', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [] }),
-      validTask({ id: 2, dependencies: [] }),
-    ];
-    const result = validateCircularDependencies(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(true);
-    expect(result.errors).toEqual([]);
+describe('parseTaggedProjects', () => {
+  it('treats a legacy untagged file as the master tag', () => {
+    const projects = parseTaggedProjects({ tasks: [validTask()] });
+    expect([...projects.keys()]).toEqual(['master']);
+    expect(projects.get('master')!.tasks).toHaveLength(1);
   });
 
-  it('returns valid for a linear dependency chain', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [] }),
-      validTask({ id: 2, dependencies: [1] }),
-      validTask({ id: 3, dependencies: [2] }),
-    ];
-    const result = validateCircularDependencies(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(true);
-    expect(result.errors).toEqual([]);
+  it('returns one project per tag', () => {
+    const projects = parseTaggedProjects({
+      master: { tasks: [validTask({ id: 1 })], metadata: { created: 'x' } },
+      'feature-x': { tasks: [validTask({ id: 1, title: 'Other' }), validTask({ id: 2 })] },
+    });
+    expect([...projects.keys()]).toEqual(['master', 'feature-x']);
+    expect(projects.get('feature-x')!.tasks[0].title).toBe('Other');
+    expect(projects.get('feature-x')!.tasks).toHaveLength(2);
   });
 
-  it('detects a circular dependency between two tasks', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [2] }),
-      validTask({ id: 2, dependencies: [1] }),
-    ];
-    const result = validateCircularDependencies(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(false);
-    expect(result.errors.length).toBeGreaterThan(0);
-    expect(result.errors[0]).toMatch(/Circular dependency/);
+  it('throws when a tag contains invalid tasks', () => {
+    expect(() =>
+      parseTaggedProjects({ master: { tasks: [{ id: 'nope' }] } }),
+    ).toThrow();
   });
 
-  it('detects a self-referencing dependency', () => {
-    const tasks = [validTask({ id: 1, dependencies: [1] })];
-    const result = validateCircularDependencies(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(false);
-    expect(result.errors.length).toBeGreaterThan(0);
-    expect(result.errors[0]).toMatch(/Circular dependency/);
+  it('names the JSON path of each schema problem', () => {
+    expect(() =>
+      parseTaggedProjects({ feature: { tasks: [validTask({ status: 'bogus' })] } }),
+    ).toThrow(/Tag "feature" in tasks.json does not match the schema[^]*feature\.tasks\[0\]\.status: /);
   });
 
-  it('detects a cycle in a three-task ring', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [3] }),
-      validTask({ id: 2, dependencies: [1] }),
-      validTask({ id: 3, dependencies: [2] }),
-    ];
-    const result = validateCircularDependencies(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(false);
-    expect(result.errors.length).toBeGreaterThan(0);
+  it('throws when the document is not an object', () => {
+    expect(() => parseTaggedProjects([])).toThrow('tasks.json must contain a JSON object');
   });
 });
 
 // ===========================================================================
-// validateDependencyIds
+// parseTasksJson
 // ===========================================================================
 
-describe('validateDependencyIds', () => {
-  it('returns valid when all dependency IDs exist', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [] }),
-      validTask({ id: 2, dependencies: [1] }),
-      validTask({ id: 3, dependencies: [1, 2] }),
-    ];
-    const result = validateDependencyIds(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(true);
-    expect(result.errors).toEqual([]);
-  });
-
-  it('detects a non-existent dependency ID', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [] }),
-      validTask({ id: 2, dependencies: [99] }),
-    ];
-    const result = validateDependencyIds(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(false);
-    expect(result.errors).toHaveLength(1);
-    expect(result.errors[0]).toMatch(/non-existent task 99/);
-  });
-
-  it('reports multiple invalid references', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [50, 60] }),
-    ];
-    const result = validateDependencyIds(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(false);
-    expect(result.errors).toHaveLength(2);
-  });
-
-  it('returns valid for tasks with no dependencies', () => {
-    const tasks = [
-      validTask({ id: 1, dependencies: [] }),
-      validTask({ id: 2, dependencies: [] }),
-    ];
-    const result = validateDependencyIds(tasks.map((t) => TaskMasterTaskSchema.parse(t)));
-    expect(result.valid).toBe(true);
-    expect(result.errors).toEqual([]);
+describe('parseTasksJson', () => {
+  it('parses only the selected tag', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-tasks-test-'));
+    const filePath = path.join(dir, 'tasks.json');
+    await fs.writeFile(filePath, JSON.stringify({
+      master: { tasks: [validTask({ status: 'bogus' })] },
+      feature: { tasks: [validTask({ id: 7 })] },
+    }), 'utf-8');
+
+    try {
+      const project = await parseTasksJson(filePath, 'feature');
+      expect(project.tasks.map(t => t.id)).toEqual([7]);
+      await expect(parseTasksJson(filePath, 'master')).rejects.toThrow('master.tasks[0].status');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
   });
 });
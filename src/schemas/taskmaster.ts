@@ -1,5 +1,9 @@
+import fs from 'fs/promises';
 import { z } from 'zod';
 
+/** Tag used by task-master for untagged (legacy) files and by default. */
+export const DEFAULT_TAG = 'master';
+
 // --- Enum Schemas ---
 
 export const TaskMasterStatusSchema = z.enum([
@@ -11,6 +15,34 @@ export const TaskMasterStatusSchema = z.enum([
 
 export const TaskMasterPrioritySchema = z.enum(['high', 'medium', 'low']);
 
+// --- Dependency Reference Schemas ---
+
+/** A dotted "task.subtask" reference such as "3.2" (subtask 2 of task 3). */
+export interface SubtaskReference {
+  taskId: number;
+  subtaskId: number;
+}
+
+/**
+ * A subtask dependency as written by Task-Master. Bare numbers (or numeric
+ * strings) name a sibling subtask or a top-level task; dotted strings name a
+ * subtask of any task. The wirer resolves which one a bare number means.
+ */
+export const SubtaskDependencyRefSchema = z
+  .union([z.number(), z.string()])
+  .transform((value, ctx): number | SubtaskReference => {
+    const text = String(value).trim();
+    const dotted = text.match(/^(\d+)\.(\d+)$/);
+    if (dotted) {
+      return { taskId: Number(dotted[1]), subtaskId: Number(dotted[2]) };
+    }
+    if (/^\d+$/.test(text)) {
+      return Number(text);
+    }
+    ctx.addIssue({ code: 'custom', message: `Invalid dependency reference "${text}"` });
+    return z.NEVER;
+  });
+
 // --- Object Schemas ---
 
 export const TaskMasterSubtaskSchema = z.object({
@@ -18,10 +50,20 @@ export const TaskMasterSubtaskSchema = z.object({
   title: z.string(),
   description: z.string(),
   status: TaskMasterStatusSchema,
-  dependencies: z.array(z.coerce.number()).optional(),
+  dependencies: z.array(SubtaskDependencyRefSchema).optional(),
   details: z.string().optional(),
 });
 
+/**
+ * Per-task analysis from task-master's complexity report. tasks.json does not
+ * carry it; mergeComplexityReport fills it in.
+ */
+export const TaskComplexityAnalysisSchema = z.object({
+  recommendedSubtasks: z.number().int().min(0).optional(),
+  expansionPrompt: z.string().optional(),
+  reasoning: z.string().optional(),
+});
+
 export const TaskMasterTaskSchema = z.object({
   id: z.number(),
   title: z.string(),
@@ -30,6 +72,7 @@ export const TaskMasterTaskSchema = z.object({
   priority: TaskMasterPrioritySchema,
   dependencies: z.array(z.coerce.number()),
   complexity: z.number().min(1).max(10).optional(),
+  complexityAnalysis: TaskComplexityAnalysisSchema.optional(),
   subtasks: z.array(TaskMasterSubtaskSchema).optional(),
   details: z.string().optional(),
   testStrategy: z.string().optional(),
@@ -40,90 +83,95 @@ export const TaskMasterProjectSchema = z.object({
 });
 
 // --- Inferred Types ---
-
+export type TaskMasterStatus = z.infer<typeof TaskMasterStatusSchema>;
+export type SubtaskDependencyRef = z.infer<typeof SubtaskDependencyRefSchema>;
+export type TaskComplexityAnalysis = z.infer<typeof TaskComplexityAnalysisSchema>;
 export type TaskMasterSubtask = z.infer<typeof TaskMasterSubtaskSchema>;
 export type TaskMasterTask = z.infer<typeof TaskMasterTaskSchema>;
 export type TaskMasterProject = z.infer<typeof TaskMasterProjectSchema>;
 
-// --- Dependency Validation Helpers ---
+// --- tasks.json Parsing ---
 
 /**
- * Detects circular dependencies among tasks using DFS cycle detection.
- * Returns { valid: true, errors: [] } if no cycles are found.
- * Returns { valid: false, errors: [...] } with descriptive cycle paths if cycles exist.
+ * The raw, unvalidated section of a tasks.json document for each tag, with
+ * the JSON path that leads to it ("" for legacy files, "<tag>." otherwise).
  */
-export function validateCircularDependencies(
-  tasks: TaskMasterTask[]
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  // Build adjacency list: task id -> list of dependency ids
-  const adjacency = new Map<number, number[]>();
-  for (const task of tasks) {
-    adjacency.set(task.id, task.dependencies);
+export function splitTaggedDocument(json: unknown): Map<string, { value: unknown; path: string }> {
+  const sections = new Map<string, { value: unknown; path: string }>();
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('tasks.json must contain a JSON object');
   }
 
-  const visited = new Set<number>();
-  const visiting = new Set<number>();
-
-  function dfs(taskId: number, path: number[]): boolean {
-    if (visiting.has(taskId)) {
-      // Found a cycle — extract the cycle portion from the path
-      const cycleStart = path.indexOf(taskId);
-      const cyclePath = [...path.slice(cycleStart), taskId];
-      errors.push(`Circular dependency: ${cyclePath.join(' \u2192 ')}`);
-      return true;
-    }
-
-    if (visited.has(taskId)) {
-      return false;
-    }
-
-    visiting.add(taskId);
-    path.push(taskId);
+  const record = json as Record<string, unknown>;
+  if (Array.isArray(record.tasks)) {
+    sections.set(DEFAULT_TAG, { value: record, path: '' });
+    return sections;
+  }
 
-    const deps = adjacency.get(taskId) ?? [];
-    for (const depId of deps) {
-      if (dfs(depId, path)) {
-        // Continue checking other branches to report all cycles
-      }
+  for (const [tag, value] of Object.entries(record)) {
+    if (typeof value === 'object' && value !== null && 'tasks' in value) {
+      sections.set(tag, { value, path: `${tag}.` });
     }
-
-    path.pop();
-    visiting.delete(taskId);
-    visited.add(taskId);
-
-    return false;
   }
+  return sections;
+}
 
-  for (const task of tasks) {
-    if (!visited.has(task.id)) {
-      dfs(task.id, []);
+/**
+ * Parse one tag's section of tasks.json. Schema issues become a readable
+ * error that lists the JSON path of each offending value, as `tm2bd validate`
+ * reports them.
+ */
+function parseProjectSection(tag: string, section: { value: unknown; path: string }): TaskMasterProject {
+  const result = TaskMasterProjectSchema.safeParse(section.value);
+  if (result.success) return result.data;
+  const problems = result.error.issues.map((issue) => {
+    let location = section.path.replace(/\.$/, '');
+    for (const segment of issue.path) {
+      location += typeof segment === 'number' ? `[${segment}]` : `${location ? '.' : ''}${String(segment)}`;
     }
+    return `  ${location || '(root)'}: ${issue.message}`;
+  });
+  throw new Error(
+    `Tag "${tag}" in tasks.json does not match the schema (run \`tm2bd validate\` for details):\n${problems.join('\n')}`,
+  );
+}
+
+/**
+ * Splits a raw tasks.json document into one project per Task-Master tag.
+ * Tagged files look like `{ "master": { "tasks": [...] }, "feature-x": { ... } }`;
+ * legacy files with a top-level `tasks` array are treated as the master tag.
+ */
+export function parseTaggedProjects(json: unknown): Map<string, TaskMasterProject> {
+  const projects = new Map<string, TaskMasterProject>();
+  for (const [tag, section] of splitTaggedDocument(json)) {
+    projects.set(tag, parseProjectSection(tag, section));
   }
+  return projects;
+}
 
-  return { valid: errors.length === 0, errors };
+/**
+ * Reads tasks.json and returns every tagged project it contains.
+ */
+export async function readTaggedTasksJson(filePath: string): Promise<Map<string, TaskMasterProject>> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parseTaggedProjects(JSON.parse(content));
 }
 
 /**
- * Validates that all dependency references in tasks point to existing task IDs.
- * Returns { valid: true, errors: [] } if all dependency IDs are valid.
- * Returns { valid: false, errors: [...] } listing each invalid reference.
+ * Reads tasks.json and returns the project for a single tag. Other tags are
+ * not parsed, so problems in them do not get in the way.
+ * @throws Error listing the available tags if the tag does not exist
  */
-export function validateDependencyIds(
-  tasks: TaskMasterTask[]
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  const validIds = new Set<number>(tasks.map((t) => t.id));
-
-  for (const task of tasks) {
-    for (const depId of task.dependencies) {
-      if (!validIds.has(depId)) {
-        errors.push(`Task ${task.id} depends on non-existent task ${depId}`);
-      }
-    }
+export async function parseTasksJson(
+  filePath: string,
+  tag: string = DEFAULT_TAG,
+): Promise<TaskMasterProject> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const sections = splitTaggedDocument(JSON.parse(content));
+  const section = sections.get(tag);
+  if (!section) {
+    const available = [...sections.keys()].join(', ') || 'none';
+    throw new Error(`Tag "${tag}" not found in ${filePath} (available tags: ${available})`);
   }
-
-  return { valid: errors.length === 0, errors };
+  return parseProjectSection(tag, section);
 }
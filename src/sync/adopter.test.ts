@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import type { BeadsIssue } from '../tracker/issue-tracker.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { resolveConfig } from '../schemas/config.js';
+import { extractTaskMasterId, matchEpic, adoptIssues } from './adopter.js';
+
+function createMockCli() {
+  return {
+    createEpic: vi.fn().mockResolvedValue({ id: 'epic-1', title: 'Test' }),
+    createChild: vi.fn().mockResolvedValue({ id: 'child-1', title: 'Test' }),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    listIssues: vi.fn().mockResolvedValue([]),
+    checkInit: vi.fn().mockResolvedValue(true),
+  } as any;
+}
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+function epic(id: string, title: string, tmId?: number): BeadsIssue {
+  return {
+    id,
+    title,
+    status: 'open',
+    issue_type: 'epic',
+    description: tmId === undefined ? 'Hand-made' : `## Metadata\n\n- **Task-Master ID:** ${tmId}`,
+  };
+}
+
+describe('extractTaskMasterId', () => {
+  it('reads the bold metadata line', () => {
+    expect(extractTaskMasterId('## Metadata\n\n- **Task-Master ID:** 12\n')).toBe(12);
+  });
+
+  it('reads the plain metadata line', () => {
+    expect(extractTaskMasterId('- Task-Master ID: 14')).toBe(14);
+  });
+
+  it('returns undefined without an ID', () => {
+    expect(extractTaskMasterId('nothing here')).toBeUndefined();
+    expect(extractTaskMasterId(undefined)).toBeUndefined();
+  });
+});
+
+describe('matchEpic', () => {
+  it('matches by embedded Task-Master ID', () => {
+    const match = matchEpic(makeTask({ id: 3, title: 'Renamed' }), [epic('bd-1', 'Old', 3), epic('bd-2', 'Renamed', 4)]);
+    expect(match?.id).toBe('bd-1');
+  });
+
+  it('breaks ID ties by exact title', () => {
+    const match = matchEpic(makeTask({ id: 1, title: 'B' }), [epic('bd-1', 'A', 1), epic('bd-2', 'B', 1)]);
+    expect(match?.id).toBe('bd-2');
+  });
+
+  it('falls back to exact title for issues without an ID', () => {
+    const match = matchEpic(makeTask({ id: 5, title: 'Setup' }), [epic('bd-9', 'Setup')]);
+    expect(match?.id).toBe('bd-9');
+  });
+
+  it('returns undefined when the match is ambiguous', () => {
+    const match = matchEpic(makeTask({ id: 5, title: 'Setup' }), [epic('bd-8', 'Setup'), epic('bd-9', 'Setup')]);
+    expect(match).toBeUndefined();
+  });
+});
+
+describe('adoptIssues', () => {
+  it('rebuilds epic, child and test mappings and reports unmatched items', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+    cli.listIssues.mockResolvedValue([
+      { id: 'bd-2', title: 'First', status: 'open' },
+      { id: 'bd-3', title: 'Test: Build', status: 'open' },
+    ]);
+
+    const tasks = [
+      makeTask({
+        id: 1,
+        title: 'Build',
+        testStrategy: 'Unit tests',
+        subtasks: [makeSubtask({ id: 1, title: 'First' }), makeSubtask({ id: 2, title: 'Second' })],
+      }),
+      makeTask({ id: 2, title: 'Missing' }),
+    ];
+
+    const report = await adoptIssues(tasks, [epic('bd-1', 'Build', 1)], new Set(), cli, mapper);
+
+    expect(report).toEqual({ epics: 1, children: 1, tests: 1, unmatched: ['1.2', '2'] });
+    expect(cli.listIssues).toHaveBeenCalledWith({ parent: 'bd-1' });
+    expect(mapper.getEpicId(1)).toBe('bd-1');
+    expect(mapper.getSubtaskId(1, 1)).toBe('bd-2');
+    expect(mapper.getTestIssueId(1)).toBe('bd-3');
+    expect(cli.createEpic).not.toHaveBeenCalled();
+    expect(cli.createChild).not.toHaveBeenCalled();
+  });
+
+  it('matches titles rendered from configured templates', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+    cli.listIssues.mockResolvedValue([
+      { id: 'bd-2', title: '[TM-4.1] First', status: 'open' },
+      { id: 'bd-3', title: 'QA: Build', status: 'open' },
+    ]);
+    const config = resolveConfig({
+      templates: {
+        epic: { title: '[TM-{{id}}] {{title}}' },
+        child: { title: '[TM-{{task.id}}.{{id}}] {{title}}' },
+        test: { title: 'QA: {{title}}' },
+      },
+    });
+
+    const tasks = [
+      makeTask({ id: 4, title: 'Build', testStrategy: 'Unit tests', subtasks: [makeSubtask({ id: 1, title: 'First' })] }),
+    ];
+
+    const report = await adoptIssues(tasks, [epic('bd-1', '[TM-4] Build')], new Set(), cli, mapper, config);
+
+    expect(report).toEqual({ epics: 1, children: 1, tests: 1, unmatched: [] });
+  });
+
+  it('skips claimed issues and already-mapped items', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-existing');
+
+    const tasks = [makeTask({ id: 1 }), makeTask({ id: 2, title: 'Two' })];
+    const issues = [epic('bd-1', 'Task', 1), epic('bd-2', 'Two', 2)];
+
+    const report = await adoptIssues(tasks, issues, new Set(['bd-2']), cli, mapper);
+
+    expect(mapper.getEpicId(1)).toBe('bd-existing');
+    expect(report.unmatched).toEqual(['2']);
+    expect(cli.listIssues).not.toHaveBeenCalled();
+  });
+});
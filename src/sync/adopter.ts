@@ -0,0 +1,115 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { IssueTracker, BeadsIssue } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { formatEpicTitle } from './epic-creator.js';
+import { formatChildTitle } from './child-creator.js';
+import { formatTestTitle } from './test-creator.js';
+
+export interface AdoptReport {
+  epics: number;
+  children: number;
+  tests: number;
+  unmatched: string[];
+}
+
+/**
+ * Read the Task-Master ID that formatEpicDescription stamps into every epic.
+ * Accepts both the bold (`**Task-Master ID:** 3`) and plain metadata forms.
+ */
+export function extractTaskMasterId(description: string | undefined): number | undefined {
+  const match = description?.match(/Task-Master ID:\**\s*(\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Pick the epic for a task: a unique embedded Task-Master ID wins, with the
+ * exact title used to break ties (e.g. the same ID in several tags) or as a
+ * fallback for issues that carry no ID at all. Ambiguous matches return
+ * undefined so nothing is adopted by guesswork. `title` is the epic title as
+ * tm2bd would render it.
+ */
+export function matchEpic(
+  task: TaskMasterTask,
+  candidates: BeadsIssue[],
+  title: string = task.title,
+): BeadsIssue | undefined {
+  const byId = candidates.filter(i => extractTaskMasterId(i.description) === task.id);
+  if (byId.length === 1) return byId[0];
+
+  const pool = byId.length > 1
+    ? byId
+    : candidates.filter(i => extractTaskMasterId(i.description) === undefined);
+  const byTitle = pool.filter(i => i.title === title);
+  return byTitle.length === 1 ? byTitle[0] : undefined;
+}
+
+/**
+ * Rebuild mappings for existing Beads issues without creating anything.
+ * Epics are matched from `issues` (typically every issue in the database);
+ * children and test issues are matched by exact title under their epic.
+ * Items that are already mapped are left as they are, and every Beads ID
+ * in `claimed` is never adopted twice.
+ */
+export async function adoptIssues(
+  tasks: TaskMasterTask[],
+  issues: BeadsIssue[],
+  claimed: Set<string>,
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<AdoptReport> {
+  const report: AdoptReport = { epics: 0, children: 0, tests: 0, unmatched: [] };
+
+  for (const task of tasks) {
+    let epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) {
+      const candidates = issues.filter(i => i.issue_type === config.issueTypes.epic && !claimed.has(i.id));
+      const epic = matchEpic(task, candidates, formatEpicTitle(task, config.templates.epic.title));
+      if (!epic) {
+        report.unmatched.push(String(task.id));
+        continue;
+      }
+      mapper.addEpic(task.id, epic.id);
+      claimed.add(epic.id);
+      epicId = epic.id;
+      report.epics++;
+    }
+
+    const missingSubtasks = (task.subtasks ?? [])
+      .filter(s => mapper.getSubtaskId(task.id, s.id) === undefined)
+      .sort((a, b) => a.id - b.id);
+    const missingTest = Boolean(task.testStrategy) && !mapper.getTestIssueId(task.id);
+    if (missingSubtasks.length === 0 && !missingTest) continue;
+
+    const children = (await cli.listIssues({ parent: epicId })).filter(i => !claimed.has(i.id));
+    const takeByTitle = (title: string): BeadsIssue | undefined => {
+      const child = children.find(i => i.title === title && !claimed.has(i.id));
+      if (child) claimed.add(child.id);
+      return child;
+    };
+
+    for (const subtask of missingSubtasks) {
+      const child = takeByTitle(formatChildTitle(subtask, task, config.templates.child.title));
+      if (!child) {
+        report.unmatched.push(`${task.id}.${subtask.id}`);
+        continue;
+      }
+      mapper.addSubtask(task.id, subtask.id, child.id);
+      report.children++;
+    }
+
+    if (missingTest) {
+      const testIssue = takeByTitle(formatTestTitle(task, config.templates.test.title));
+      if (!testIssue) {
+        report.unmatched.push(`${task.id} (test)`);
+        continue;
+      }
+      mapper.setTestIssueId(task.id, testIssue.id);
+      report.tests++;
+    }
+  }
+
+  return report;
+}
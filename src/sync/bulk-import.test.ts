@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import { buildImportPlan, applyImportPlan, serializeJsonl, externalRef } from './bulk-import.js';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('externalRef', () => {
+  it('identifies epics, subtasks and test issues by tag', () => {
+    expect(externalRef('master', { kind: 'epic', taskId: 3 })).toBe('tm2bd:master:3');
+    expect(externalRef('feat', { kind: 'subtask', taskId: 3, subtaskId: 2 })).toBe('tm2bd:feat:3.2');
+    expect(externalRef('master', { kind: 'test', taskId: 3 })).toBe('tm2bd:master:3:test');
+  });
+});
+
+describe('buildImportPlan', () => {
+  it('plans epics, children and test issues with inline parents, dependencies and statuses', () => {
+    const tasks = [
+      makeTask({ id: 1, status: 'done', priority: 'high' }),
+      makeTask({
+        id: 2,
+        dependencies: [1],
+        testStrategy: 'Run it',
+        subtasks: [
+          makeSubtask({ id: 1, status: 'in-progress' }),
+          makeSubtask({ id: 2, dependencies: [1] }),
+        ],
+      }),
+    ];
+
+    const plan = buildImportPlan(tasks, new IdMapper(), undefined, { now: NOW });
+    const [epic1, epic2, child1, child2, test] = plan.records;
+
+    expect(plan.records).toHaveLength(5);
+    expect(epic1).toMatchObject({
+      title: 'Task',
+      status: 'closed',
+      closed_at: NOW.toISOString(),
+      priority: 0,
+      issue_type: 'epic',
+      external_ref: 'tm2bd:master:1',
+      dependencies: [],
+    });
+    expect(epic1.id).toMatch(/^tm2bd-[0-9a-f]{8}$/);
+    expect(epic2.dependencies).toEqual([
+      { issue_id: epic2.id, depends_on_id: epic1.id, type: 'blocks', created_at: NOW.toISOString() },
+    ]);
+    expect(child1).toMatchObject({ status: 'in_progress', issue_type: 'task', priority: 2, external_ref: 'tm2bd:master:2.1' });
+    expect(child2.dependencies?.map(d => [d.depends_on_id, d.type])).toEqual([
+      [epic2.id, 'parent-child'],
+      [child1.id, 'blocks'],
+    ]);
+    expect(test).toMatchObject({ title: 'Test: Task', status: 'open', labels: ['tm2bd', 'tm:master', 'test'] });
+    expect(test.dependencies?.map(d => [d.depends_on_id, d.type])).toEqual([
+      [epic2.id, 'parent-child'],
+      [child1.id, 'blocks'],
+      [child2.id, 'blocks'],
+    ]);
+    expect(plan.targets.get(child2.id)).toEqual({ kind: 'subtask', taskId: 2, subtaskId: 2 });
+  });
+
+  it('skips mapped items but points new ones at their existing IDs', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'proj-abc');
+    mapper.addSubtask(1, 1, 'proj-abd');
+    const tasks = [
+      makeTask({ id: 1, subtasks: [makeSubtask({ id: 1 }), makeSubtask({ id: 2, dependencies: [1] })] }),
+      makeTask({ id: 2, dependencies: [1] }),
+    ];
+
+    const plan = buildImportPlan(tasks, mapper, undefined, { now: NOW });
+
+    expect(plan.records.map(r => r.external_ref)).toEqual(['tm2bd:master:1.2', 'tm2bd:master:2']);
+    expect(plan.records.every(r => r.id.startsWith('proj-'))).toBe(true);
+    expect(plan.records[0].dependencies?.map(d => d.depends_on_id)).toEqual(['proj-abc', 'proj-abd']);
+    expect(plan.records[1].dependencies?.map(d => d.depends_on_id)).toEqual(['proj-abc']);
+  });
+
+  it('throws when a dependency points outside the task list', () => {
+    const tasks = [makeTask({ id: 2, dependencies: [9] })];
+
+    expect(() => buildImportPlan(tasks, new IdMapper())).toThrow('no Beads ID found for blocking task 9');
+  });
+});
+
+describe('serializeJsonl', () => {
+  it('writes one JSON object per line', () => {
+    const plan = buildImportPlan([makeTask({ id: 1 }), makeTask({ id: 2 })], new IdMapper(), undefined, { now: NOW });
+    const lines = serializeJsonl(plan.records).trimEnd().split('\n');
+
+    expect(lines.map(line => JSON.parse(line))).toEqual(plan.records);
+  });
+});
+
+describe('applyImportPlan', () => {
+  it('imports the batch and records every new ID in the mapping', async () => {
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    const tasks = [makeTask({ id: 1, testStrategy: 'Check', subtasks: [makeSubtask({ id: 1 })] })];
+    const plan = buildImportPlan(tasks, mapper, undefined, { now: NOW });
+
+    const imported = await applyImportPlan(plan, tracker, mapper);
+
+    expect(imported).toBe(3);
+    const epicId = mapper.getEpicId(1)!;
+    expect(await tracker.listIssues({ parent: epicId })).toHaveLength(2);
+    expect(mapper.getSubtaskId(1, 1)).toBe(plan.records[1].id);
+    expect(mapper.getTestIssueId(1)).toBe(plan.records[2].id);
+  });
+
+  it('follows renamed issues through their external_ref', async () => {
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    const plan = buildImportPlan([makeTask({ id: 1 })], mapper, undefined, { now: NOW });
+    tracker.importIssues = async () => {
+      tracker.addIssue({ id: 'bd-renamed', title: 'Task', status: 'open', external_ref: 'tm2bd:master:1' });
+    };
+
+    await applyImportPlan(plan, tracker, mapper);
+
+    expect(mapper.getEpicId(1)).toBe('bd-renamed');
+  });
+
+  it('throws for records bd did not create', async () => {
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    const plan = buildImportPlan([makeTask({ id: 1 })], mapper, undefined, { now: NOW });
+    tracker.importIssues = async () => {};
+
+    await expect(applyImportPlan(plan, tracker, mapper)).rejects.toThrow(
+      'bd import did not create 1 issue(s): tm2bd:master:1',
+    );
+  });
+
+  it('does nothing for an empty plan', async () => {
+    const tracker = new InMemoryTracker();
+
+    expect(await applyImportPlan({ records: [], targets: new Map() }, tracker, new IdMapper())).toBe(0);
+    expect(tracker.operations).toEqual([]);
+  });
+});
@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { formatEpicTitle, formatEpicDescription, mapPriority } from './epic-creator.js';
+import { formatChildTitle, formatChildDescription } from './child-creator.js';
+import { formatTestTitle, formatTestDescription } from './test-creator.js';
+import { mapStatus } from './status-syncer.js';
+import { resolveSubtaskDependency, formatSubtaskDependency } from './dependency-wirer.js';
+import { epicLabels, childLabels, testLabels } from './labels.js';
+
+/** Priority and type `bd create` gives an issue when none is passed. */
+const BD_DEFAULT_PRIORITY = 2;
+const BD_DEFAULT_TYPE = 'task';
+
+/** Prefix for planned IDs when the mapping holds no existing ID to copy. */
+const FALLBACK_PREFIX = 'tm2bd';
+
+export interface BeadsJsonlDependency {
+  issue_id: string;
+  depends_on_id: string;
+  type: 'blocks' | 'parent-child';
+  created_at: string;
+}
+
+/** One line of a Beads JSONL document, in the shape `bd import` reads. */
+export interface BeadsJsonlIssue {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: number;
+  issue_type: string;
+  labels?: string[];
+  external_ref: string;
+  created_at: string;
+  updated_at: string;
+  closed_at?: string;
+  dependencies?: BeadsJsonlDependency[];
+}
+
+export type ImportTarget =
+  | { kind: 'epic'; taskId: number }
+  | { kind: 'subtask'; taskId: number; subtaskId: number }
+  | { kind: 'test'; taskId: number };
+
+export interface ImportPlan {
+  records: BeadsJsonlIssue[];
+  /** What each planned record maps to, keyed by its planned ID. */
+  targets: Map<string, ImportTarget>;
+}
+
+export interface ImportPlanOptions {
+  /** Issue ID prefix; defaults to the prefix of an ID already in the mapping. */
+  prefix?: string;
+  /** Dependency tier of each task, for the `tier:<n>` label. */
+  tiers?: Map<number, number>;
+  now?: Date;
+}
+
+/**
+ * Stable reference stored in each imported issue's `external_ref`, used to
+ * find the issue again if bd renames it on import.
+ */
+export function externalRef(tag: string, target: ImportTarget): string {
+  switch (target.kind) {
+    case 'epic':
+      return `tm2bd:${tag}:${target.taskId}`;
+    case 'subtask':
+      return `tm2bd:${tag}:${target.taskId}.${target.subtaskId}`;
+    case 'test':
+      return `tm2bd:${tag}:${target.taskId}:test`;
+  }
+}
+
+function issuePrefix(beadsId: string): string {
+  const dash = beadsId.lastIndexOf('-');
+  return dash > 0 ? beadsId.slice(0, dash) : FALLBACK_PREFIX;
+}
+
+/**
+ * Build one JSONL record for every task, subtask and test issue that is not
+ * in the mapping yet, with parent links, blocking dependencies, labels and
+ * statuses inline. Items that are already mapped are referenced by their
+ * existing IDs but not re-created.
+ */
+export function buildImportPlan(
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  options: ImportPlanOptions = {},
+): ImportPlan {
+  const tag = mapper.getTag();
+  const now = (options.now ?? new Date()).toISOString();
+  const [anyExistingId] = mapper.getBeadsIds();
+  const prefix = options.prefix ?? (anyExistingId ? issuePrefix(anyExistingId) : FALLBACK_PREFIX);
+  const plan: ImportPlan = { records: [], targets: new Map() };
+
+  // First pass: give every unmapped item an ID so dependencies can point
+  // at issues that are created later in the same batch.
+  const planned = new Map<string, string>();
+  const assignId = (target: ImportTarget): string => {
+    const ref = externalRef(tag, target);
+    const hash = createHash('sha1').update(`${ref}@${now}`).digest('hex').slice(0, 8);
+    const id = `${prefix}-${hash}`;
+    planned.set(ref, id);
+    plan.targets.set(id, target);
+    return id;
+  };
+  for (const task of tasks) {
+    if (mapper.getEpicId(task.id) === undefined) assignId({ kind: 'epic', taskId: task.id });
+    for (const subtask of task.subtasks ?? []) {
+      if (mapper.getSubtaskId(task.id, subtask.id) === undefined) {
+        assignId({ kind: 'subtask', taskId: task.id, subtaskId: subtask.id });
+      }
+    }
+    if (task.testStrategy && !mapper.getTestIssueId(task.id)) assignId({ kind: 'test', taskId: task.id });
+  }
+
+  const epicIdOf = (taskId: number) =>
+    mapper.getEpicId(taskId) ?? planned.get(externalRef(tag, { kind: 'epic', taskId }));
+  const subtaskIdOf = (taskId: number, subtaskId: number) =>
+    mapper.getSubtaskId(taskId, subtaskId) ?? planned.get(externalRef(tag, { kind: 'subtask', taskId, subtaskId }));
+
+  const statusFields = (tmStatus: string): Pick<BeadsJsonlIssue, 'status' | 'closed_at'> => {
+    const mapped = mapStatus(tmStatus, config.statusMap);
+    if (mapped.close) return { status: 'closed', closed_at: now };
+    return { status: mapped.status ?? 'open' };
+  };
+  const dependency = (
+    issueId: string,
+    dependsOnId: string,
+    type: BeadsJsonlDependency['type'],
+  ): BeadsJsonlDependency => ({ issue_id: issueId, depends_on_id: dependsOnId, type, created_at: now });
+
+  // Second pass: the records themselves, epics before their children.
+  for (const task of tasks) {
+    const epicId = epicIdOf(task.id)!;
+    const epicRef = externalRef(tag, { kind: 'epic', taskId: task.id });
+
+    if (planned.get(epicRef) === epicId) {
+      const dependencies = task.dependencies.map((depId) => {
+        const blockingId = epicIdOf(depId);
+        if (blockingId === undefined) {
+          throw new Error(
+            `Failed to wire epic dependency: no Beads ID found for blocking task ${depId} (dependency of task ${task.id} "${task.title}")`,
+          );
+        }
+        return dependency(epicId, blockingId, 'blocks');
+      });
+      plan.records.push({
+        id: epicId,
+        title: formatEpicTitle(task, config.templates.epic.title),
+        description: formatEpicDescription(task, config.templates.epic.description),
+        ...statusFields(task.status),
+        priority: mapPriority(task.priority, config.priorityMap),
+        issue_type: config.issueTypes.epic,
+        labels: epicLabels(task, tag, config, options.tiers?.get(task.id)),
+        external_ref: epicRef,
+        created_at: now,
+        updated_at: now,
+        dependencies,
+      });
+    }
+
+    const sortedSubtasks = [...(task.subtasks ?? [])].sort((a, b) => a.id - b.id);
+    for (const subtask of sortedSubtasks) {
+      const ref = externalRef(tag, { kind: 'subtask', taskId: task.id, subtaskId: subtask.id });
+      const childId = planned.get(ref);
+      if (childId === undefined) continue;
+
+      const dependencies = [dependency(childId, epicId, 'parent-child')];
+      for (const depRef of subtask.dependencies ?? []) {
+        const dep = resolveSubtaskDependency(depRef, task);
+        const blockingId = dep.kind === 'task'
+          ? epicIdOf(dep.taskId)
+          : subtaskIdOf(dep.kind === 'sibling' ? task.id : dep.taskId, dep.subtaskId);
+        if (blockingId === undefined) {
+          throw new Error(
+            `Failed to wire subtask dependency: no Beads ID found for blocking ${formatSubtaskDependency(dep, task.id)} (dependency of subtask ${subtask.id} "${subtask.title}" in task ${task.id} "${task.title}")`,
+          );
+        }
+        dependencies.push(dependency(childId, blockingId, 'blocks'));
+      }
+
+      plan.records.push({
+        id: childId,
+        title: formatChildTitle(subtask, task, config.templates.child.title),
+        description: formatChildDescription(subtask, task, config.templates.child.description),
+        ...statusFields(subtask.status),
+        priority: config.defaults.priority ?? BD_DEFAULT_PRIORITY,
+        issue_type: config.issueTypes.child ?? BD_DEFAULT_TYPE,
+        labels: childLabels(tag, config),
+        external_ref: ref,
+        created_at: now,
+        updated_at: now,
+        dependencies,
+      });
+    }
+
+    const testRef = externalRef(tag, { kind: 'test', taskId: task.id });
+    const testId = planned.get(testRef);
+    if (testId !== undefined) {
+      const dependencies = [dependency(testId, epicId, 'parent-child')];
+      for (const subtask of task.subtasks ?? []) {
+        dependencies.push(dependency(testId, subtaskIdOf(task.id, subtask.id)!, 'blocks'));
+      }
+      plan.records.push({
+        id: testId,
+        title: formatTestTitle(task, config.templates.test.title),
+        description: formatTestDescription(task, config.templates.test.description),
+        status: 'open',
+        priority: config.defaults.priority ?? BD_DEFAULT_PRIORITY,
+        issue_type: config.issueTypes.test ?? BD_DEFAULT_TYPE,
+        labels: testLabels(tag, config),
+        external_ref: testRef,
+        created_at: now,
+        updated_at: now,
+        dependencies,
+      });
+    }
+  }
+
+  return plan;
+}
+
+export function serializeJsonl(records: BeadsJsonlIssue[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+}
+
+/**
+ * Import the planned records with a single `bd import`, then record the IDs
+ * bd ended up using in the mapping. Issues are matched by planned ID, or by
+ * `external_ref` when bd renamed them to its own prefix. Returns the number
+ * of issues imported.
+ * @throws Error listing the records bd did not create
+ */
+export async function applyImportPlan(
+  plan: ImportPlan,
+  cli: IssueTracker,
+  mapper: IdMapper,
+): Promise<number> {
+  if (plan.records.length === 0) return 0;
+
+  const filePath = path.join(os.tmpdir(), `tm2bd-import-${process.pid}-${Date.now()}.jsonl`);
+  await fs.writeFile(filePath, serializeJsonl(plan.records), 'utf-8');
+  try {
+    await cli.importIssues(filePath);
+  } finally {
+    await fs.rm(filePath, { force: true });
+  }
+
+  const claimed = mapper.getBeadsIds();
+  const issues = (await cli.listIssues()).filter(issue => !claimed.has(issue.id));
+  const ids = new Set(issues.map(issue => issue.id));
+  const byRef = new Map<string, string>();
+  for (const issue of issues) {
+    if (issue.external_ref) byRef.set(issue.external_ref, issue.id);
+  }
+
+  const tag = mapper.getTag();
+  const missing: string[] = [];
+  const created = new Map<string, string>();
+  for (const [plannedId, target] of plan.targets) {
+    const ref = externalRef(tag, target);
+    const beadsId = ids.has(plannedId) ? plannedId : byRef.get(ref);
+    if (beadsId === undefined) {
+      missing.push(ref);
+      continue;
+    }
+    created.set(plannedId, beadsId);
+    if (target.kind === 'epic') {
+      mapper.addEpic(target.taskId, beadsId);
+    } else if (target.kind === 'subtask') {
+      mapper.addSubtask(target.taskId, target.subtaskId, beadsId);
+    } else {
+      mapper.setTestIssueId(target.taskId, beadsId);
+    }
+  }
+  // Blocking edges may point at issues created now or synced before
+  for (const record of plan.records) {
+    const blockedId = created.get(record.id);
+    if (blockedId === undefined) continue;
+    for (const dep of record.dependencies ?? []) {
+      if (dep.type === 'blocks') {
+        mapper.recordDependency(blockedId, created.get(dep.depends_on_id) ?? dep.depends_on_id);
+      }
+    }
+  }
+  await mapper.checkpoint();
+
+  if (missing.length > 0) {
+    throw new Error(`bd import did not create ${missing.length} issue(s): ${missing.join(', ')}`);
+  }
+  return plan.records.length;
+}
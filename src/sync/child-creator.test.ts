@@ -2,9 +2,11 @@ import { describe, it, expect, vi } from 'vitest';
 import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
 import {
   formatChildDescription,
+  formatChildTitle,
   createChildren,
   createAllChildren,
 } from './child-creator.js';
+import { resolveConfig } from '../schemas/config.js';
 
 function createMockCli() {
   return {
@@ -28,6 +30,8 @@ function createMockMapper() {
     getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
     setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
     getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    getTag: vi.fn(() => 'master'),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -89,6 +93,25 @@ describe('formatChildDescription', () => {
     expect(result).toBe('Simple subtask');
     expect(result).not.toContain('## Implementation Details');
   });
+
+  it('exposes the parent task and dependencies to custom templates', () => {
+    const subtask = makeSubtask({ id: 2, dependencies: [1, { taskId: 3, subtaskId: 1 }] });
+    const parent = makeTask({ id: 7, title: 'Parent' });
+
+    const result = formatChildDescription(subtask, parent, 'Part of {{task.title}} (#{{task.id}}), after {{dependencies}}');
+
+    expect(result).toBe('Part of Parent (#7), after 1, 3.1');
+  });
+});
+
+describe('formatChildTitle', () => {
+  it('renders a custom title template', () => {
+    const subtask = makeSubtask({ id: 2, title: 'Widget' });
+
+    expect(formatChildTitle(subtask, makeTask({ id: 7 }), '[TM-{{task.id}}.{{id}}] {{title}}')).toBe(
+      '[TM-7.2] Widget',
+    );
+  });
 });
 
 describe('createChildren', () => {
@@ -142,6 +165,42 @@ describe('createChildren', () => {
     expect(mapper.addSubtask).toHaveBeenCalledWith(10, 1, 'child-1');
     expect(mapper.addSubtask).toHaveBeenCalledWith(10, 2, 'child-2');
     expect(mapper.addSubtask).toHaveBeenCalledWith(10, 3, 'child-3');
+    expect(mapper.checkpoint).toHaveBeenCalledTimes(3);
+  });
+
+  it('passes configured child issue type and default priority', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    const config = resolveConfig({ issueTypes: { child: 'task' }, defaults: { priority: 3 } });
+
+    const task = makeTask({ id: 10, subtasks: [makeSubtask({ id: 1 })] });
+
+    await createChildren(task, 'epic-10', cli, mapper, config);
+
+    expect(cli.createChild.mock.calls[0][3]).toEqual({
+      type: 'task',
+      priority: 3,
+      labels: ['tm2bd', 'tm:master'],
+    });
+  });
+
+  it('skips subtasks that are already mapped', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addSubtask(10, 1, 'existing-child');
+
+    const task = makeTask({
+      id: 10,
+      subtasks: [
+        makeSubtask({ id: 1, title: 'First' }),
+        makeSubtask({ id: 2, title: 'Second' }),
+      ],
+    });
+
+    await createChildren(task, 'epic-10', cli, mapper);
+
+    expect(cli.createChild).toHaveBeenCalledOnce();
+    expect(cli.createChild.mock.calls[0][1]).toBe('Second');
   });
 });
 
@@ -189,6 +248,31 @@ describe('createAllChildren', () => {
     ]);
   });
 
+  it('creates children of different epics in parallel but each epic in order', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addEpic(2, 'epic-2');
+
+    const started: string[] = [];
+    cli.createChild.mockImplementation(async (epicId: string, title: string) => {
+      started.push(title);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return { id: `id-${title}`, title };
+    });
+
+    const tasks = [
+      makeTask({ id: 1, subtasks: [makeSubtask({ id: 2, title: 'Sub 1.2' }), makeSubtask({ id: 1, title: 'Sub 1.1' })] }),
+      makeTask({ id: 2, subtasks: [makeSubtask({ id: 1, title: 'Sub 2.1' })] }),
+    ];
+
+    await createAllChildren(tasks, cli, mapper, undefined, undefined, 2);
+
+    // Both epics start before the first child of epic 1 finishes
+    expect(started).toEqual(['Sub 1.1', 'Sub 2.1', 'Sub 1.2']);
+    expect(mapper.getSubtaskId(1, 2)).toBe('id-Sub 1.2');
+  });
+
   it('throws when epic ID is missing for a task', async () => {
     const cli = createMockCli();
     const mapper = createMockMapper();
@@ -1,24 +1,85 @@
 import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG, DEFAULT_TEMPLATES } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { renderTemplate } from '../utils/template.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { taskTemplateContext } from './epic-creator.js';
+import { childLabels } from './labels.js';
 
-export function formatChildDescription(subtask: TaskMasterSubtask): string {
-  const parts: string[] = [subtask.description];
+/**
+ * Template values for a subtask: its own fields, dependencies written the
+ * way Task-Master does ("2" or "3.1"), and the parent task as `task`.
+ */
+export function subtaskTemplateContext(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+): Record<string, unknown> {
+  return {
+    ...subtask,
+    dependencies: (subtask.dependencies ?? []).map(dep =>
+      typeof dep === 'number' ? String(dep) : `${dep.taskId}.${dep.subtaskId}`,
+    ),
+    task: parent ? taskTemplateContext(parent) : undefined,
+  };
+}
+
+export function formatChildTitle(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.child.title,
+): string {
+  return renderTemplate(template, subtaskTemplateContext(subtask, parent));
+}
 
-  if (subtask.details && subtask.details.length > 0) {
-    parts.push('');
-    parts.push('## Implementation Details');
-    parts.push(subtask.details);
+export function formatChildDescription(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.child.description,
+): string {
+  return renderTemplate(template, subtaskTemplateContext(subtask, parent));
+}
+
+/**
+ * Create a child issue for a subtask, or return the existing Beads ID when
+ * the subtask is already mapped.
+ */
+export async function createChild(
+  task: TaskMasterTask,
+  subtask: TaskMasterSubtask,
+  epicId: string,
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<string> {
+  const existingId = mapper.getSubtaskId(task.id, subtask.id);
+  if (existingId !== undefined) {
+    return existingId;
   }
 
-  return parts.join('\n');
+  const { title, description } = config.templates.child;
+  const result = await cli.createChild(
+    epicId,
+    formatChildTitle(subtask, task, title),
+    formatChildDescription(subtask, task, description),
+    {
+      type: config.issueTypes.child,
+      priority: config.defaults.priority,
+      labels: childLabels(mapper.getTag(), config),
+    },
+  );
+  mapper.addSubtask(task.id, subtask.id, result.id);
+  await mapper.checkpoint();
+  return result.id;
 }
 
 export async function createChildren(
   task: TaskMasterTask,
   epicId: string,
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
 ): Promise<void> {
   if (!task.subtasks || task.subtasks.length === 0) {
     return;
@@ -27,17 +88,22 @@ export async function createChildren(
   const sorted = [...task.subtasks].sort((a, b) => a.id - b.id);
 
   for (const subtask of sorted) {
-    const description = formatChildDescription(subtask);
-    const result = await cli.createChild(epicId, subtask.title, description);
-    mapper.addSubtask(task.id, subtask.id, result.id);
+    await createChild(task, subtask, epicId, cli, mapper, config);
   }
 }
 
+/**
+ * Create the child issues of all tasks. Children of different epics are
+ * created up to `concurrency` at a time; the children of one epic are always
+ * created in subtask order, so bd numbers them predictably.
+ */
 export async function createAllChildren(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
-  onProgress?: (current: number, total: number) => void,
+  onProgress?: (current: number, total: number, skipped: boolean) => void,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  concurrency: number = 1,
 ): Promise<void> {
   const total = tasks.reduce(
     (sum, t) => sum + (t.subtasks?.length ?? 0),
@@ -47,21 +113,21 @@ export async function createAllChildren(
   let current = 0;
 
   for (const task of tasks) {
-    const epicId = mapper.getEpicId(task.id);
-    if (epicId === undefined) {
+    if (mapper.getEpicId(task.id) === undefined) {
       throw new Error(`No epic mapping found for task ${task.id}`);
     }
+  }
 
-    if (task.subtasks && task.subtasks.length > 0) {
-      const sorted = [...task.subtasks].sort((a, b) => a.id - b.id);
+  const parents = tasks.filter(task => task.subtasks && task.subtasks.length > 0);
+  await mapWithConcurrency(parents, concurrency, async (task) => {
+    const epicId = mapper.getEpicId(task.id)!;
+    const sorted = [...task.subtasks!].sort((a, b) => a.id - b.id);
 
-      for (const subtask of sorted) {
-        const description = formatChildDescription(subtask);
-        const result = await cli.createChild(epicId, subtask.title, description);
-        mapper.addSubtask(task.id, subtask.id, result.id);
-        current++;
-        onProgress?.(current, total);
-      }
+    for (const subtask of sorted) {
+      const skipped = mapper.getSubtaskId(task.id, subtask.id) !== undefined;
+      await createChild(task, subtask, epicId, cli, mapper, config);
+      current++;
+      onProgress?.(current, total, skipped);
     }
-  }
+  });
 }
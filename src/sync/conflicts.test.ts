@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { ConflictStrategy, SyncConfig } from '../schemas/config.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import {
+  detectConflicts,
+  fetchSyncedIssues,
+  recordLastSynced,
+  resolveConflicts,
+  settleConflicts,
+  subtaskFields,
+  taskFields,
+} from './conflicts.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Build API',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    subtasks: [{ id: 1, title: 'Routes', description: '', status: 'pending' }],
+    ...overrides,
+  };
+}
+
+function withStrategy(strategy: ConflictStrategy): SyncConfig {
+  return {
+    ...DEFAULT_SYNC_CONFIG,
+    conflicts: { status: strategy, title: strategy, description: strategy, priority: strategy },
+  };
+}
+
+/** Task 1 and its subtask synced to bd-1 and bd-1.1, which match tasks.json exactly. */
+function setup(task: TaskMasterTask = makeTask()) {
+  const tracker = new InMemoryTracker();
+  const epic = taskFields(task);
+  const child = subtaskFields(task.subtasks![0], task);
+  tracker.addIssue({ id: 'bd-1', ...epic, updated_at: '2026-01-02T00:00:00.000Z' });
+  tracker.addIssue({ id: 'bd-1.1', ...child, parent: 'bd-1' });
+  const mapper = new IdMapper();
+  mapper.addEpic(1, 'bd-1');
+  mapper.addSubtask(1, 1, 'bd-1.1');
+  recordLastSynced([task], mapper);
+  return { tracker, mapper };
+}
+
+describe('detectConflicts', () => {
+  it('holds the fields tasks.json did not change', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.updateIssue('bd-1', { title: 'Renamed in Beads' });
+
+    const report = await detectConflicts([makeTask({ priority: 'high' })], tracker, mapper);
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.held.get('bd-1')).toEqual(new Set(['status', 'title', 'description']));
+    expect(report.held.get('bd-1.1')).toEqual(new Set(['status', 'title', 'description']));
+  });
+
+  it('reports fields changed on both sides to different values', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.close('bd-1');
+    await tracker.updateStatus('bd-1.1', 'in_progress');
+
+    const task = makeTask({ status: 'in-progress' });
+    task.subtasks![0].status = 'in-progress';
+    const report = await detectConflicts([task], tracker, mapper);
+
+    expect(report.conflicts).toHaveLength(1);
+    expect(report.conflicts[0]).toMatchObject({
+      ref: '1',
+      beadsId: 'bd-1',
+      field: 'status',
+      base: 'open',
+      taskMaster: 'in_progress',
+      beads: 'closed',
+      beadsUpdatedAt: '2026-01-02T00:00:00.000Z',
+      message: 'closed in Beads but in-progress in Task-Master (open when last synced)',
+    });
+    expect(report.held.get('bd-1')!.has('status')).toBe(true);
+  });
+
+  it('skips items without a last-synced state', async () => {
+    const { tracker } = setup();
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    await tracker.updateIssue('bd-1', { title: 'Renamed in Beads' });
+
+    const report = await detectConflicts([makeTask({ title: 'Renamed in tasks.json' })], tracker, mapper);
+
+    expect(report).toEqual({ conflicts: [], held: new Map() });
+  });
+});
+
+describe('resolveConflicts', () => {
+  async function titleConflict(strategy: ConflictStrategy) {
+    const { tracker, mapper } = setup();
+    await tracker.updateIssue('bd-1', { title: 'Beads title' });
+    const config = withStrategy(strategy);
+    const { conflicts } = await detectConflicts([makeTask({ title: 'Task-Master title' })], tracker, mapper, config);
+    tracker.operations.length = 0;
+    return { tracker, mapper, config, conflicts };
+  }
+
+  it('pushes the tasks.json value with tm-wins', async () => {
+    const { tracker, mapper, config, conflicts } = await titleConflict('tm-wins');
+
+    const { resolutions, statusChanges } = await resolveConflicts(conflicts, tracker, mapper, config);
+
+    expect(resolutions.map(r => r.outcome)).toEqual(['taskMaster']);
+    expect(statusChanges).toEqual([]);
+    expect(tracker.operations).toEqual([{ kind: 'update', id: 'bd-1', edit: { title: 'Task-Master title' } }]);
+    expect(mapper.getLastSynced(1)!.beads.title).toBe('Task-Master title');
+  });
+
+  it('keeps Beads with bd-wins and returns statuses to write to tasks.json', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.close('bd-1.1');
+    const task = makeTask();
+    task.subtasks![0].status = 'in-progress';
+    const config = withStrategy('bd-wins');
+    const { conflicts } = await detectConflicts([task], tracker, mapper, config);
+    tracker.operations.length = 0;
+
+    const { resolutions, statusChanges } = await resolveConflicts(conflicts, tracker, mapper, config);
+
+    expect(resolutions.map(r => [r.ref, r.outcome])).toEqual([['1.1', 'beads']]);
+    expect(statusChanges).toEqual([
+      { tag: 'master', taskId: 1, subtaskId: 1, title: 'Routes', from: 'in-progress', to: 'done' },
+    ]);
+    expect(tracker.operations).toEqual([]);
+    expect(mapper.getSubtaskLastSynced(1, 1)).toMatchObject({
+      taskMaster: { status: 'closed' },
+      beads: { status: 'closed' },
+    });
+  });
+
+  it('picks the side changed last with newest', async () => {
+    const { tracker, mapper, config, conflicts } = await titleConflict('newest');
+
+    const before = await resolveConflicts(conflicts, tracker, mapper, config, new Date('2026-01-01T00:00:00.000Z'));
+    const after = await resolveConflicts(conflicts, tracker, mapper, config, new Date('2026-01-03T00:00:00.000Z'));
+
+    expect(before.resolutions[0].outcome).toBe('beads');
+    expect(after.resolutions[0].outcome).toBe('taskMaster');
+  });
+
+  it('only reports conflicts with report-only', async () => {
+    const { tracker, mapper, config, conflicts } = await titleConflict('report-only');
+    const base = mapper.getLastSynced(1);
+
+    const { resolutions } = await resolveConflicts(conflicts, tracker, mapper, config);
+
+    expect(resolutions).toMatchObject([{ field: 'title', strategy: 'report-only', outcome: 'reported' }]);
+    expect(resolutions[0].message).toBe('"Beads title" in Beads but "Task-Master title" in Task-Master');
+    expect(tracker.operations).toEqual([]);
+    expect(mapper.getLastSynced(1)).toEqual(base);
+  });
+});
+
+describe('settleConflicts', () => {
+  it('applies statuses Beads won to the tasks and guards the fields Beads holds', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.updateIssue('bd-1', { title: 'Renamed in Beads' });
+    await tracker.close('bd-1.1');
+    const task = makeTask({ priority: 'high' });
+    task.subtasks![0].status = 'in-progress';
+    tracker.operations.length = 0;
+
+    const settled = await settleConflicts([task], tracker, mapper, withStrategy('bd-wins'));
+    await settled.tracker.updateIssue('bd-1', { title: 'Build API', priority: 0 });
+
+    expect(task.subtasks![0].status).toBe('done');
+    expect(settled.statusChanges).toHaveLength(1);
+    expect(settled.settled('1.1')).toBe(true);
+    expect(tracker.operations).toEqual([{ kind: 'update', id: 'bd-1', edit: { priority: 0 } }]);
+  });
+
+  it('leaves reported conflicts unsettled', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.updateIssue('bd-1', { title: 'Beads title' });
+
+    const settled = await settleConflicts([makeTask({ title: 'Task-Master title' })], tracker, mapper);
+
+    expect(settled.resolutions.map(r => [r.ref, r.outcome])).toEqual([['1', 'reported']]);
+    expect(settled.settled('1')).toBe(false);
+    expect(settled.settled('1.1')).toBe(true);
+  });
+});
+
+describe('recordLastSynced', () => {
+  it('takes the Beads side from the issues when given', async () => {
+    const { tracker, mapper } = setup();
+    await tracker.updateIssue('bd-1', { title: 'Renamed in Beads' });
+    const task = makeTask();
+
+    recordLastSynced([task], mapper, DEFAULT_SYNC_CONFIG, ref => ref === '1', await fetchSyncedIssues([task], tracker, mapper));
+
+    expect(mapper.getLastSynced(1)).toEqual({
+      taskMaster: taskFields(task),
+      beads: { ...taskFields(task), title: 'Renamed in Beads' },
+    });
+  });
+
+  it('skips unmapped items and items whose issue is missing', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    const task = makeTask({ subtasks: [] });
+
+    recordLastSynced([task, makeTask({ id: 2 })], mapper, DEFAULT_SYNC_CONFIG, () => true, new Map());
+    expect(mapper.getLastSynced(1)).toBeUndefined();
+
+    recordLastSynced([task], mapper);
+    expect(mapper.getLastSynced(1)).toEqual({ taskMaster: taskFields(task), beads: taskFields(task) });
+  });
+});
@@ -0,0 +1,374 @@
+import type { TaskMasterStatus, TaskMasterSubtask, TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsIssue, IssueTracker } from '../tracker/issue-tracker.js';
+import { FieldGuardTracker } from '../tracker/field-guard-tracker.js';
+import type { IdMapper, LastSynced, SyncedFields } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { ConflictField, ConflictStrategy, SyncConfig } from '../schemas/config.js';
+import { formatEpicDescription, formatEpicTitle, mapPriority } from './epic-creator.js';
+import { formatChildDescription, formatChildTitle } from './child-creator.js';
+import { beadsStatusFor, mapBeadsStatus } from './status-puller.js';
+import type { StatusChange } from './status-puller.js';
+import { fetchIssues } from './drift.js';
+
+/**
+ * Three-way comparison of every synced task and subtask: its fields as last
+ * synced (kept in the mapping), as tasks.json renders them now and as Beads
+ * has them now. A field changed on one side only is a plain edit; a field
+ * changed on both sides to different values is a conflict.
+ */
+
+export const CONFLICT_FIELDS: ConflictField[] = ['status', 'title', 'description', 'priority'];
+
+export interface FieldConflict {
+  /** "3" for a task, "3.2" for a subtask. */
+  ref: string;
+  taskId: number;
+  subtaskId?: number;
+  beadsId: string;
+  /** Title of the task or subtask in tasks.json. */
+  title: string;
+  /** Status of the task or subtask in tasks.json. */
+  taskMasterStatus: TaskMasterStatus;
+  field: ConflictField;
+  /** The field when last synced, then as tasks.json renders it and as Beads has it. */
+  base: string | number | undefined;
+  taskMaster: string | number | undefined;
+  beads: string | number | undefined;
+  beadsUpdatedAt?: string;
+  message: string;
+}
+
+export interface ConflictReport {
+  conflicts: FieldConflict[];
+  /**
+   * Fields to leave alone in Beads, by Beads ID: those tasks.json has not
+   * changed since the last sync, so pushing them would only undo Beads
+   * edits, and those in conflict.
+   */
+  held: Map<string, Set<ConflictField>>;
+}
+
+/** Which side a conflict was resolved for; `reported` leaves both as they are. */
+export type ConflictOutcome = 'taskMaster' | 'beads' | 'reported';
+
+export interface ConflictResolution extends FieldConflict {
+  strategy: ConflictStrategy;
+  outcome: ConflictOutcome;
+}
+
+/** The fields tm2bd writes to a task's epic, rendered from tasks.json. */
+export function taskFields(task: TaskMasterTask, config: SyncConfig = DEFAULT_SYNC_CONFIG): SyncedFields {
+  return {
+    title: formatEpicTitle(task, config.templates.epic.title),
+    description: formatEpicDescription(task, config.templates.epic.description),
+    status: beadsStatusFor(config.statusMap[task.status]),
+    priority: mapPriority(task.priority, config.priorityMap),
+  };
+}
+
+/** The fields tm2bd writes to a subtask's child issue. Subtasks have no priority. */
+export function subtaskFields(
+  subtask: TaskMasterSubtask,
+  task: TaskMasterTask,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): SyncedFields {
+  return {
+    title: formatChildTitle(subtask, task, config.templates.child.title),
+    description: formatChildDescription(subtask, task, config.templates.child.description),
+    status: beadsStatusFor(config.statusMap[subtask.status]),
+  };
+}
+
+function beadsFields(issue: BeadsIssue, withPriority: boolean): SyncedFields {
+  return {
+    title: issue.title,
+    description: issue.description ?? '',
+    status: issue.status,
+    ...(withPriority && issue.priority !== undefined ? { priority: issue.priority } : {}),
+  };
+}
+
+interface SyncedItem {
+  ref: string;
+  taskId: number;
+  subtaskId?: number;
+  beadsId: string;
+  title: string;
+  status: TaskMasterStatus;
+  fields: SyncedFields;
+}
+
+/** Every mapped task and subtask with its fields rendered from tasks.json. */
+function syncedItems(tasks: TaskMasterTask[], mapper: IdMapper, config: SyncConfig): SyncedItem[] {
+  const items: SyncedItem[] = [];
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) continue;
+    items.push({
+      ref: `${task.id}`,
+      taskId: task.id,
+      beadsId: epicId,
+      title: task.title,
+      status: task.status,
+      fields: taskFields(task, config),
+    });
+    for (const subtask of task.subtasks ?? []) {
+      const childId = mapper.getSubtaskId(task.id, subtask.id);
+      if (childId === undefined) continue;
+      items.push({
+        ref: `${task.id}.${subtask.id}`,
+        taskId: task.id,
+        subtaskId: subtask.id,
+        beadsId: childId,
+        title: subtask.title,
+        status: subtask.status,
+        fields: subtaskFields(subtask, task, config),
+      });
+    }
+  }
+  return items;
+}
+
+function getLastSynced(mapper: IdMapper, item: { taskId: number; subtaskId?: number }): LastSynced | undefined {
+  return item.subtaskId === undefined
+    ? mapper.getLastSynced(item.taskId)
+    : mapper.getSubtaskLastSynced(item.taskId, item.subtaskId);
+}
+
+function setLastSynced(mapper: IdMapper, item: { taskId: number; subtaskId?: number }, state: LastSynced): void {
+  if (item.subtaskId === undefined) {
+    mapper.setLastSynced(item.taskId, state);
+  } else {
+    mapper.setSubtaskLastSynced(item.taskId, item.subtaskId, state);
+  }
+}
+
+function describeConflict(
+  field: ConflictField,
+  item: SyncedItem,
+  base: string | number | undefined,
+  beads: string | number | undefined,
+  taskMaster: string | number | undefined,
+): string {
+  switch (field) {
+    case 'status':
+      return `${beads} in Beads but ${item.status} in Task-Master (${base} when last synced)`;
+    case 'priority':
+      return `P${beads} in Beads but P${taskMaster} in Task-Master (P${base} when last synced)`;
+    case 'title':
+      return `"${beads}" in Beads but "${taskMaster}" in Task-Master`;
+    case 'description':
+      return 'edited in both Beads and Task-Master';
+  }
+}
+
+/**
+ * Compare the mapped items of these tasks with their last-synced state.
+ * Items synced before tm2bd kept that state, and issues gone from Beads,
+ * are skipped; `tm2bd status` reports the latter.
+ */
+export async function detectConflicts(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<ConflictReport> {
+  const items = syncedItems(tasks, mapper, config).filter(item => getLastSynced(mapper, item) !== undefined);
+  const { issues } = await fetchIssues(items.map(item => item.beadsId), cli);
+
+  const report: ConflictReport = { conflicts: [], held: new Map() };
+  for (const item of items) {
+    const issue = issues.get(item.beadsId);
+    if (!issue) continue;
+    const base = getLastSynced(mapper, item)!;
+    const current = beadsFields(issue, item.fields.priority !== undefined);
+    const held = new Set<ConflictField>();
+
+    for (const field of CONFLICT_FIELDS) {
+      const taskMaster = item.fields[field];
+      const beads = current[field];
+      if (taskMaster === undefined) continue;
+      if (taskMaster === base.taskMaster[field]) {
+        held.add(field);
+      } else if (beads !== base.beads[field] && beads !== taskMaster) {
+        held.add(field);
+        report.conflicts.push({
+          ref: item.ref,
+          taskId: item.taskId,
+          ...(item.subtaskId !== undefined ? { subtaskId: item.subtaskId } : {}),
+          beadsId: item.beadsId,
+          title: item.title,
+          taskMasterStatus: item.status,
+          field,
+          base: base.beads[field],
+          taskMaster,
+          beads,
+          ...(issue.updated_at !== undefined ? { beadsUpdatedAt: issue.updated_at } : {}),
+          message: describeConflict(field, item, base.beads[field], beads, taskMaster),
+        });
+      }
+    }
+    report.held.set(item.beadsId, held);
+  }
+  return report;
+}
+
+function winnerOf(conflict: FieldConflict, strategy: ConflictStrategy, tasksModifiedAt: Date): ConflictOutcome {
+  switch (strategy) {
+    case 'tm-wins':
+      return 'taskMaster';
+    case 'bd-wins':
+      return 'beads';
+    case 'newest': {
+      // Task-Master keeps no per-task timestamps, so tasks.json as a whole
+      // is compared with the issue
+      const beadsTime = Date.parse(conflict.beadsUpdatedAt ?? '');
+      if (Number.isNaN(beadsTime)) return 'reported';
+      return beadsTime > tasksModifiedAt.getTime() ? 'beads' : 'taskMaster';
+    }
+    case 'report-only':
+      return 'reported';
+  }
+}
+
+/**
+ * Resolve each conflict with the strategy configured for its field. When
+ * tasks.json wins, its value is written to Beads; when Beads wins, Beads is
+ * left as it is. Either way the winning value becomes the new last-synced
+ * state. Reported conflicts change nothing and come up again next time.
+ * Beads statuses that win are returned as status changes for the caller to
+ * write to tasks.json.
+ */
+export async function resolveConflicts(
+  conflicts: FieldConflict[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tasksModifiedAt: Date = new Date(),
+): Promise<{ resolutions: ConflictResolution[]; statusChanges: StatusChange[] }> {
+  const resolutions: ConflictResolution[] = [];
+  const statusChanges: StatusChange[] = [];
+
+  for (const conflict of conflicts) {
+    const strategy = config.conflicts[conflict.field];
+    const outcome = winnerOf(conflict, strategy, tasksModifiedAt);
+    resolutions.push({ ...conflict, strategy, outcome });
+    if (outcome === 'reported') continue;
+
+    const base = structuredClone(getLastSynced(mapper, conflict)!);
+    const field = conflict.field;
+    if (outcome === 'taskMaster') {
+      if (field === 'status') {
+        if (conflict.taskMaster === 'closed') {
+          await cli.close(conflict.beadsId);
+        } else {
+          await cli.updateStatus(conflict.beadsId, conflict.taskMaster as string);
+        }
+      } else {
+        await cli.updateIssue(conflict.beadsId, { [field]: conflict.taskMaster });
+      }
+      setField(base.taskMaster, field, conflict.taskMaster);
+      setField(base.beads, field, conflict.taskMaster);
+    } else {
+      let taskMaster = conflict.taskMaster;
+      const pulled = field === 'status' ? mapBeadsStatus(conflict.beads as string, config.statusMap) : undefined;
+      if (pulled !== undefined && pulled !== conflict.taskMasterStatus) {
+        statusChanges.push({
+          tag: mapper.getTag(),
+          taskId: conflict.taskId,
+          ...(conflict.subtaskId !== undefined ? { subtaskId: conflict.subtaskId } : {}),
+          title: conflict.title,
+          from: conflict.taskMasterStatus,
+          to: pulled,
+        });
+        taskMaster = beadsStatusFor(config.statusMap[pulled]);
+      }
+      setField(base.taskMaster, field, taskMaster);
+      setField(base.beads, field, conflict.beads);
+    }
+    setLastSynced(mapper, conflict, base);
+  }
+  return { resolutions, statusChanges };
+}
+
+export interface SettledConflicts {
+  /** The tracker to push with: it leaves the held fields alone. */
+  tracker: FieldGuardTracker;
+  resolutions: ConflictResolution[];
+  /** Statuses Beads won, already applied to the tasks; tasks.json still needs them. */
+  statusChanges: StatusChange[];
+  /** Whether an item has no conflict left, so its synced state may be recorded. */
+  settled: (ref: string) => boolean;
+}
+
+/**
+ * Everything to do before pushing tasks to Beads: detect and resolve
+ * conflicts, apply the statuses Beads won to `tasks` in place and guard the
+ * fields tasks.json has not changed. Items left in conflict are not
+ * settled, so the next run reports them again.
+ */
+export async function settleConflicts(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tasksModifiedAt: Date = new Date(),
+): Promise<SettledConflicts> {
+  const { conflicts, held } = await detectConflicts(tasks, cli, mapper, config);
+  const { resolutions, statusChanges } = await resolveConflicts(conflicts, cli, mapper, config, tasksModifiedAt);
+  for (const change of statusChanges) {
+    const task = tasks.find(t => t.id === change.taskId);
+    const item = change.subtaskId === undefined ? task : task?.subtasks?.find(s => s.id === change.subtaskId);
+    if (item) item.status = change.to;
+  }
+  const unresolved = new Set(resolutions.filter(r => r.outcome === 'reported').map(r => r.ref));
+  return {
+    tracker: new FieldGuardTracker(cli, held),
+    resolutions,
+    statusChanges,
+    settled: ref => !unresolved.has(ref),
+  };
+}
+
+function setField(fields: SyncedFields, field: ConflictField, value: string | number | undefined): void {
+  (fields as Record<ConflictField, string | number | undefined>)[field] = value;
+}
+
+/**
+ * Store the last-synced state of every mapped task and subtask, or only of
+ * the items whose ref `include` accepts. Without `issues` the Beads side is
+ * taken to be what tm2bd just wrote, as for newly created issues; with them
+ * it is read from the issues as they are now.
+ */
+export function recordLastSynced(
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  include: (ref: string) => boolean = () => true,
+  issues?: Map<string, BeadsIssue>,
+): void {
+  for (const item of syncedItems(tasks, mapper, config)) {
+    if (!include(item.ref)) continue;
+    const issue = issues?.get(item.beadsId);
+    if (issues && !issue) continue;
+    setLastSynced(mapper, item, {
+      taskMaster: item.fields,
+      beads: issue ? beadsFields(issue, item.fields.priority !== undefined) : { ...item.fields },
+    });
+  }
+}
+
+/** Every mapped epic and child issue of these tasks, as Beads has them now. */
+export async function fetchSyncedIssues(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+): Promise<Map<string, BeadsIssue>> {
+  const issueIds = tasks.flatMap((task) => {
+    const epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) return [];
+    const childIds = (task.subtasks ?? []).map(subtask => mapper.getSubtaskId(task.id, subtask.id));
+    return [epicId, ...childIds.filter((id): id is string => id !== undefined)];
+  });
+  return (await fetchIssues(issueIds, cli)).issues;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import {
+  hashTask,
+  hashSubtask,
+  classifyItems,
+  tasksNeedingSync,
+  recordContentHashes,
+} from './content-hash.js';
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/** Tasks 1 (with subtask 1.1) and 2, all synced with their hashes recorded. */
+function syncedFixture() {
+  const tasks = [
+    makeTask({ id: 1, subtasks: [makeSubtask({ id: 1 })] }),
+    makeTask({ id: 2, dependencies: [1] }),
+  ];
+  const mapper = new IdMapper();
+  mapper.addEpic(1, 'epic-1');
+  mapper.addSubtask(1, 1, 'child-1.1');
+  mapper.addEpic(2, 'epic-2');
+  recordContentHashes(tasks, mapper);
+  return { tasks, mapper };
+}
+
+describe('hashTask / hashSubtask', () => {
+  it('changes with every synced field', () => {
+    const base = hashTask(makeTask());
+    for (const edit of [
+      { title: 'Other' },
+      { description: 'Other' },
+      { details: 'Notes' },
+      { testStrategy: 'Run it' },
+      { priority: 'high' as const },
+      { status: 'done' as const },
+      { dependencies: [3] },
+      { complexity: 8 },
+      { complexityAnalysis: { reasoning: 'Touches every module' } },
+    ]) {
+      expect(hashTask(makeTask(edit))).not.toBe(base);
+    }
+    expect(hashSubtask(makeSubtask({ dependencies: [{ taskId: 2, subtaskId: 1 }] })))
+      .not.toBe(hashSubtask(makeSubtask({ dependencies: [2] })));
+  });
+
+  it('changes with the templates and settings the issues are built from', () => {
+    const task = makeTask({ testStrategy: 'Run it' });
+    const subtask = makeSubtask();
+    const configs: SyncConfig[] = [
+      { ...DEFAULT_SYNC_CONFIG, labels: ['team:api'] },
+      { ...DEFAULT_SYNC_CONFIG, defaults: { priority: 3 } },
+      { ...DEFAULT_SYNC_CONFIG, statusMap: { ...DEFAULT_SYNC_CONFIG.statusMap, pending: { status: 'blocked', close: false } } },
+    ];
+    for (const config of configs) {
+      expect(hashTask(task, config)).not.toBe(hashTask(task));
+      expect(hashSubtask(subtask, task, config)).not.toBe(hashSubtask(subtask, task));
+    }
+
+    const templates = DEFAULT_SYNC_CONFIG.templates;
+    expect(hashTask(task, { ...DEFAULT_SYNC_CONFIG, priorityMap: { high: 0, medium: 2, low: 3 } })).not.toBe(hashTask(task));
+    expect(hashTask(task, { ...DEFAULT_SYNC_CONFIG, templates: { ...templates, epic: { ...templates.epic, title: '[{{id}}] {{title}}' } } }))
+      .not.toBe(hashTask(task));
+    expect(hashTask(task, { ...DEFAULT_SYNC_CONFIG, templates: { ...templates, test: { ...templates.test, title: 'QA: {{title}}' } } }))
+      .not.toBe(hashTask(task));
+    expect(hashSubtask(subtask, task, { ...DEFAULT_SYNC_CONFIG, templates: { ...templates, child: { ...templates.child, title: '{{task.title}}: {{title}}' } } }))
+      .not.toBe(hashSubtask(subtask, task));
+  });
+
+  it('ignores dependency order and subtasks', () => {
+    const base = hashTask(makeTask({ dependencies: [1, 2], complexity: 7 }));
+
+    expect(hashTask(makeTask({ dependencies: [2, 1], complexity: 7 }))).toBe(base);
+    expect(hashTask(makeTask({ dependencies: [1, 2], subtasks: [makeSubtask()], complexity: 7 }))).toBe(base);
+    expect(base).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('classifyItems', () => {
+  it('marks unmapped items new and edited ones changed', () => {
+    const { tasks, mapper } = syncedFixture();
+    tasks[0].subtasks![0].status = 'done';
+    tasks[0].subtasks!.push(makeSubtask({ id: 2 }));
+    tasks.push(makeTask({ id: 3 }));
+
+    expect(classifyItems(tasks, mapper).map(i => `${i.ref} ${i.state}`)).toEqual([
+      '1 unchanged',
+      '1.1 changed',
+      '1.2 new',
+      '2 unchanged',
+      '3 new',
+    ]);
+  });
+
+  it('treats mapped items without a stored hash as changed', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'epic-1');
+
+    expect(classifyItems([makeTask()], mapper)).toEqual([{ ref: '1', taskId: 1, state: 'changed' }]);
+  });
+});
+
+describe('tasksNeedingSync', () => {
+  it('returns nothing when tasks.json is unchanged', () => {
+    const { tasks, mapper } = syncedFixture();
+
+    expect(tasksNeedingSync(tasks, mapper)).toEqual([]);
+  });
+
+  it('returns tasks with a changed, new or removed item', () => {
+    const { tasks, mapper } = syncedFixture();
+    tasks[0].subtasks = [];
+    tasks[1].title = 'Renamed';
+    tasks.push(makeTask({ id: 3 }));
+
+    expect(tasksNeedingSync(tasks, mapper).map(t => t.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('recordContentHashes', () => {
+  it('only records the items the filter accepts', () => {
+    const tasks = [makeTask({ id: 1, subtasks: [makeSubtask({ id: 1 })] })];
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1.1');
+
+    recordContentHashes(tasks, mapper, DEFAULT_SYNC_CONFIG, ref => ref === '1.1');
+
+    expect(mapper.getContentHash(1)).toBeUndefined();
+    expect(mapper.getSubtaskContentHash(1, 1)).toBe(hashSubtask(tasks[0].subtasks![0], tasks[0]));
+  });
+});
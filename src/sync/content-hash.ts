@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import type { TaskMasterTask, TaskMasterSubtask, SubtaskDependencyRef } from '../schemas/taskmaster.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { formatEpicDescription, formatEpicTitle, mapPriority } from './epic-creator.js';
+import { formatChildDescription, formatChildTitle } from './child-creator.js';
+import { formatTestDescription, formatTestTitle } from './test-creator.js';
+import { complexityLabel } from './labels.js';
+
+/**
+ * Per-item content hashes of what tm2bd writes to Beads: the rendered title
+ * and description, priority, labels, status and dependencies. The mapping
+ * stores the hash of each item as last synced, so a later run can tell what
+ * changed in tasks.json, the complexity report or the config without asking
+ * Beads.
+ */
+
+export type ContentState = 'new' | 'changed' | 'unchanged';
+
+export interface ItemContentState {
+  /** "3" for a task, "3.2" for a subtask. */
+  ref: string;
+  taskId: number;
+  subtaskId?: number;
+  state: ContentState;
+}
+
+function digest(fields: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+function formatRef(ref: SubtaskDependencyRef): string {
+  return typeof ref === 'number' ? `${ref}` : `${ref.taskId}.${ref.subtaskId}`;
+}
+
+/**
+ * Hash of what a task's epic and test issue are built from. Dependencies are
+ * sorted so reordering them does not count as a change; subtasks have hashes
+ * of their own, though their titles still reach the epic through templates
+ * that list them.
+ */
+export function hashTask(task: TaskMasterTask, config: SyncConfig = DEFAULT_SYNC_CONFIG): string {
+  const { templates } = config;
+  return digest([
+    formatEpicTitle(task, templates.epic.title),
+    formatEpicDescription(task, templates.epic.description),
+    task.testStrategy
+      ? [formatTestTitle(task, templates.test.title), formatTestDescription(task, templates.test.description)]
+      : null,
+    mapPriority(task.priority, config.priorityMap),
+    config.defaults.priority ?? null,
+    task.complexity !== undefined ? complexityLabel(task.complexity) : null,
+    config.labels,
+    task.status,
+    config.statusMap[task.status],
+    [...task.dependencies].sort((a, b) => a - b),
+  ]);
+}
+
+export function hashSubtask(
+  subtask: TaskMasterSubtask,
+  parent?: TaskMasterTask,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): string {
+  const { templates } = config;
+  return digest([
+    formatChildTitle(subtask, parent, templates.child.title),
+    formatChildDescription(subtask, parent, templates.child.description),
+    config.defaults.priority ?? null,
+    config.labels,
+    subtask.status,
+    config.statusMap[subtask.status],
+    (subtask.dependencies ?? []).map(formatRef).sort(),
+  ]);
+}
+
+function stateOf(stored: string | undefined, mapped: boolean, current: string): ContentState {
+  if (!mapped) return 'new';
+  return stored === current ? 'unchanged' : 'changed';
+}
+
+/**
+ * Compare every task and subtask with the hash stored in the mapping.
+ * Unmapped items are new; mapped items without a stored hash count as
+ * changed.
+ */
+export function classifyItems(
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): ItemContentState[] {
+  const states: ItemContentState[] = [];
+  for (const task of tasks) {
+    const mapped = mapper.getEpicId(task.id) !== undefined;
+    states.push({
+      ref: `${task.id}`,
+      taskId: task.id,
+      state: stateOf(mapper.getContentHash(task.id), mapped, hashTask(task, config)),
+    });
+    for (const subtask of task.subtasks ?? []) {
+      states.push({
+        ref: `${task.id}.${subtask.id}`,
+        taskId: task.id,
+        subtaskId: subtask.id,
+        state: stateOf(
+          mapper.getSubtaskContentHash(task.id, subtask.id),
+          mapper.getSubtaskId(task.id, subtask.id) !== undefined,
+          hashSubtask(subtask, task, config),
+        ),
+      });
+    }
+  }
+  return states;
+}
+
+/**
+ * Tasks where the task itself or any of its subtasks is new or changed, in
+ * the order given. A task whose subtasks were removed also counts, since
+ * the set of subtasks is part of what was synced.
+ */
+export function tasksNeedingSync(
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): TaskMasterTask[] {
+  const pending = new Set(
+    classifyItems(tasks, mapper, config)
+      .filter(item => item.state !== 'unchanged')
+      .map(item => item.taskId),
+  );
+  return tasks.filter((task) => {
+    if (pending.has(task.id)) return true;
+    const current = new Set((task.subtasks ?? []).map(s => s.id));
+    const mapping = mapper.getTaskMappings().find(m => m.tmId === task.id);
+    return mapping?.subtasks.some(s => !current.has(s.tmId)) ?? false;
+  });
+}
+
+/**
+ * Store the current hash of every mapped task and subtask after a sync, or
+ * only of the items whose ref `include` accepts.
+ */
+export function recordContentHashes(
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  include: (ref: string) => boolean = () => true,
+): void {
+  for (const task of tasks) {
+    if (mapper.getEpicId(task.id) === undefined) continue;
+    if (include(`${task.id}`)) {
+      mapper.setContentHash(task.id, hashTask(task, config));
+    }
+    for (const subtask of task.subtasks ?? []) {
+      if (mapper.getSubtaskId(task.id, subtask.id) === undefined) continue;
+      if (include(`${task.id}.${subtask.id}`)) {
+        mapper.setSubtaskContentHash(task.id, subtask.id, hashSubtask(subtask, task, config));
+      }
+    }
+  }
+}
@@ -4,8 +4,12 @@ import {
   wireEpicDependencies,
   wireSubtaskDependencies,
   wireTestDependencies,
+  resolveSubtaskDependency,
   wireAllDependencies,
+  reconcileAllDependencies,
 } from './dependency-wirer.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
 
 function createMockCli() {
   return {
@@ -29,6 +33,8 @@ function createMockMapper() {
     getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
     setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
     getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    recordDependency: vi.fn(),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -158,6 +164,62 @@ describe('wireSubtaskDependencies', () => {
     expect(cli.addDependency).toHaveBeenCalledWith('sub-1-3', 'sub-1-2');
   });
 
+  it('wires dotted references to subtasks of other tasks', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+
+    mapper.addSubtask(1, 1, 'sub-1-1');
+    mapper.addSubtask(3, 2, 'sub-3-2');
+
+    const tasks = [
+      makeTask({
+        id: 1,
+        subtasks: [makeSubtask({ id: 1, dependencies: [{ taskId: 3, subtaskId: 2 }] })],
+      }),
+    ];
+
+    await wireSubtaskDependencies(tasks, cli, mapper);
+
+    expect(cli.addDependency).toHaveBeenCalledWith('sub-1-1', 'sub-3-2');
+  });
+
+  it('wires bare numbers without a matching sibling to the task epic', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+
+    mapper.addEpic(4, 'epic-4');
+    mapper.addSubtask(1, 1, 'sub-1-1');
+
+    const tasks = [
+      makeTask({
+        id: 1,
+        subtasks: [makeSubtask({ id: 1, dependencies: [4] })],
+      }),
+    ];
+
+    await wireSubtaskDependencies(tasks, cli, mapper);
+
+    expect(cli.addDependency).toHaveBeenCalledWith('sub-1-1', 'epic-4');
+  });
+
+  it('throws naming the unresolved cross-task subtask', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+
+    mapper.addSubtask(1, 1, 'sub-1-1');
+
+    const tasks = [
+      makeTask({
+        id: 1,
+        subtasks: [makeSubtask({ id: 1, dependencies: [{ taskId: 3, subtaskId: 9 }] })],
+      }),
+    ];
+
+    await expect(wireSubtaskDependencies(tasks, cli, mapper)).rejects.toThrow(
+      'no Beads ID found for blocking subtask 3.9',
+    );
+  });
+
   it('skips tasks with no subtasks', async () => {
     const cli = createMockCli();
     const mapper = createMockMapper();
@@ -193,6 +255,33 @@ describe('wireSubtaskDependencies', () => {
   });
 });
 
+describe('resolveSubtaskDependency', () => {
+  const parent = makeTask({
+    id: 2,
+    subtasks: [makeSubtask({ id: 1 }), makeSubtask({ id: 2 })],
+  });
+
+  it('resolves a bare number to a sibling when one exists', () => {
+    expect(resolveSubtaskDependency(1, parent)).toEqual({ kind: 'sibling', subtaskId: 1 });
+  });
+
+  it('resolves a bare number to a task when no sibling matches', () => {
+    expect(resolveSubtaskDependency(7, parent)).toEqual({ kind: 'task', taskId: 7 });
+  });
+
+  it('resolves a dotted reference into the same parent to a sibling', () => {
+    expect(resolveSubtaskDependency({ taskId: 2, subtaskId: 2 }, parent)).toEqual({ kind: 'sibling', subtaskId: 2 });
+  });
+
+  it('resolves a dotted reference into another task to a subtask', () => {
+    expect(resolveSubtaskDependency({ taskId: 3, subtaskId: 1 }, parent)).toEqual({
+      kind: 'subtask',
+      taskId: 3,
+      subtaskId: 1,
+    });
+  });
+});
+
 describe('wireTestDependencies', () => {
   it('wires test issue to all subtasks of the task', async () => {
     const cli = createMockCli();
@@ -301,4 +390,126 @@ describe('wireAllDependencies', () => {
 
     expect(cli.addDependency).toHaveBeenCalledTimes(4);
   });
+
+  it('resolves every dependency before registering any', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'beads-1');
+    mapper.addEpic(2, 'beads-2');
+
+    const tasks = [
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [2] }),
+    ];
+
+    await expect(wireAllDependencies(tasks, cli, mapper, 4)).rejects.toThrow(
+      'no Beads ID found for blocked task 3',
+    );
+    expect(cli.addDependency).not.toHaveBeenCalled();
+  });
+
+  it('registers dependencies in parallel up to the limit', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    for (const id of [1, 2, 3, 4]) mapper.addEpic(id, `beads-${id}`);
+
+    let running = 0;
+    let peak = 0;
+    cli.addDependency.mockImplementation(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      running--;
+    });
+
+    const tasks = [
+      makeTask({ id: 1 }),
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [1] }),
+      makeTask({ id: 4, dependencies: [1, 2, 3] }),
+    ];
+
+    await wireAllDependencies(tasks, cli, mapper, 2);
+
+    expect(cli.addDependency).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('reconcileAllDependencies', () => {
+  /**
+   * Tasks 1-3 synced with 2 -> 1 and 3 -> 2 wired by tm2bd, plus edges made
+   * by hand: 3 on an unmapped issue and 1 on 3.
+   */
+  async function syncedFixture() {
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    for (const id of [1, 2, 3]) {
+      const epic = await tracker.createEpic(`Task ${id}`, '', 2);
+      mapper.addEpic(id, epic.id);
+    }
+    await wireEpicDependencies(
+      [makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] }), makeTask({ id: 3, dependencies: [2] })],
+      tracker,
+      mapper,
+    );
+    const manual = await tracker.createEpic('Hand-made blocker', '', 2);
+    await tracker.addDependency('mem-3', manual.id);
+    await tracker.addDependency('mem-1', 'mem-3');
+    return { tracker, mapper, manualId: manual.id };
+  }
+
+  it('adds missing edges and removes the ones tasks.json dropped', async () => {
+    const { tracker, mapper, manualId } = await syncedFixture();
+    const tasks = [
+      makeTask({ id: 1 }),
+      makeTask({ id: 2 }),
+      makeTask({ id: 3, dependencies: [1] }),
+    ];
+
+    const result = await reconcileAllDependencies(tasks, tracker, mapper);
+
+    expect(result).toEqual({ added: 1, removed: 2 });
+    expect(tracker.getDependencies('mem-2')).toEqual([]);
+    expect(tracker.getDependencies('mem-3').sort()).toEqual(['mem-1', manualId].sort());
+    expect(mapper.getRecordedDependencies('mem-3')).toEqual(['mem-1']);
+  });
+
+  it('leaves edges between mapped issues alone unless tm2bd added them', async () => {
+    const { tracker, mapper } = await syncedFixture();
+    const tasks = [makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] }), makeTask({ id: 3, dependencies: [2] })];
+
+    await reconcileAllDependencies(tasks, tracker, mapper);
+
+    expect(tracker.getDependencies('mem-1')).toEqual(['mem-3']);
+    expect(mapper.getRecordedDependencies('mem-1')).toEqual([]);
+  });
+
+  it('takes over wanted edges that already exist, e.g. from an older mapping file', async () => {
+    const tracker = new InMemoryTracker();
+    tracker.addIssue({ id: 'bd-1', title: 'Task 1', status: 'open' });
+    tracker.addIssue({ id: 'bd-2', title: 'Task 2', status: 'open', blockedBy: ['bd-1'] });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addEpic(2, 'bd-2');
+
+    await reconcileAllDependencies([makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] })], tracker, mapper);
+    expect(mapper.getRecordedDependencies('bd-2')).toEqual(['bd-1']);
+
+    await reconcileAllDependencies([makeTask({ id: 1 }), makeTask({ id: 2 })], tracker, mapper);
+    expect(tracker.getDependencies('bd-2')).toEqual([]);
+  });
+
+  it('changes nothing when Beads already matches tasks.json', async () => {
+    const { tracker, mapper } = await syncedFixture();
+    const before = tracker.operations.length;
+    const tasks = [
+      makeTask({ id: 1 }),
+      makeTask({ id: 2, dependencies: [1] }),
+      makeTask({ id: 3, dependencies: [2] }),
+    ];
+
+    expect(await reconcileAllDependencies(tasks, tracker, mapper)).toEqual({ added: 0, removed: 0 });
+    expect(tracker.operations).toHaveLength(before);
+  });
 });
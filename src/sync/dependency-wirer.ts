@@ -1,6 +1,25 @@
-import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { TaskMasterTask, SubtaskDependencyRef } from '../schemas/taskmaster.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
 import { IdMapper } from '../mapping/id-mapper.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+
+/** A dependency to register: [blocked Beads ID, blocking Beads ID]. */
+type DependencyPair = [string, string];
+
+// Dependencies between existing issues are independent of each other, so
+// they can all be registered in parallel. Each is recorded in the mapping as
+// tm2bd's own, so it may be removed again later
+async function addDependencies(
+  pairs: DependencyPair[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  concurrency: number,
+): Promise<void> {
+  await mapWithConcurrency(pairs, concurrency, async ([blockedId, blockingId]) => {
+    await cli.addDependency(blockedId, blockingId);
+    mapper.recordDependency(blockedId, blockingId);
+  });
+}
 
 /**
  * Wire epic-level dependencies.
@@ -9,9 +28,15 @@ import { IdMapper } from '../mapping/id-mapper.js';
  */
 export async function wireEpicDependencies(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  concurrency: number = 1,
 ): Promise<void> {
+  await addDependencies(collectEpicDependencies(tasks, mapper), cli, mapper, concurrency);
+}
+
+function collectEpicDependencies(tasks: TaskMasterTask[], mapper: IdMapper): DependencyPair[] {
+  const pairs: DependencyPair[] = [];
   for (const task of tasks) {
     if (task.dependencies.length === 0) {
       continue;
@@ -32,21 +57,80 @@ export async function wireEpicDependencies(
         );
       }
 
-      await cli.addDependency(blockedEpicId, blockingEpicId);
+      pairs.push([blockedEpicId, blockingEpicId]);
     }
   }
+  return pairs;
+}
+
+export type ResolvedSubtaskDependency =
+  | { kind: 'sibling'; subtaskId: number }
+  | { kind: 'subtask'; taskId: number; subtaskId: number }
+  | { kind: 'task'; taskId: number };
+
+/**
+ * Decide what a subtask dependency points at. A bare number names a sibling
+ * subtask when the parent has one with that ID, and a top-level task
+ * otherwise; a dotted reference names a subtask (a sibling when it points
+ * back into the same parent).
+ */
+export function resolveSubtaskDependency(
+  ref: SubtaskDependencyRef,
+  parent: TaskMasterTask,
+): ResolvedSubtaskDependency {
+  if (typeof ref === 'number') {
+    const isSibling = parent.subtasks?.some(s => s.id === ref) ?? false;
+    return isSibling ? { kind: 'sibling', subtaskId: ref } : { kind: 'task', taskId: ref };
+  }
+  if (ref.taskId === parent.id) {
+    return { kind: 'sibling', subtaskId: ref.subtaskId };
+  }
+  return { kind: 'subtask', taskId: ref.taskId, subtaskId: ref.subtaskId };
+}
+
+export function formatSubtaskDependency(dep: ResolvedSubtaskDependency, parentId: number): string {
+  switch (dep.kind) {
+    case 'sibling':
+      return `subtask ${parentId}.${dep.subtaskId}`;
+    case 'subtask':
+      return `subtask ${dep.taskId}.${dep.subtaskId}`;
+    case 'task':
+      return `task ${dep.taskId}`;
+  }
+}
+
+export function lookupSubtaskDependency(
+  dep: ResolvedSubtaskDependency,
+  parentId: number,
+  mapper: IdMapper,
+): string | undefined {
+  switch (dep.kind) {
+    case 'sibling':
+      return mapper.getSubtaskId(parentId, dep.subtaskId);
+    case 'subtask':
+      return mapper.getSubtaskId(dep.taskId, dep.subtaskId);
+    case 'task':
+      return mapper.getEpicId(dep.taskId);
+  }
 }
 
 /**
- * Wire subtask-level dependencies within each parent task.
- * For each subtask that declares dependencies, resolve both the blocked and
- * blocking Beads IDs (scoped to the same parent) and register the dependency.
+ * Wire subtask-level dependencies.
+ * Each dependency may point at a sibling subtask, a subtask of another task
+ * (dotted "3.2" references) or a whole task; all three are resolved through
+ * the mapper and registered through the CLI.
  */
 export async function wireSubtaskDependencies(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  concurrency: number = 1,
 ): Promise<void> {
+  await addDependencies(collectSubtaskDependencies(tasks, mapper), cli, mapper, concurrency);
+}
+
+function collectSubtaskDependencies(tasks: TaskMasterTask[], mapper: IdMapper): DependencyPair[] {
+  const pairs: DependencyPair[] = [];
   for (const task of tasks) {
     const subtasks = task.subtasks;
     if (!subtasks || subtasks.length === 0) {
@@ -66,18 +150,20 @@ export async function wireSubtaskDependencies(
         );
       }
 
-      for (const depSubtaskTmId of deps) {
-        const blockingSubtaskId = mapper.getSubtaskId(task.id, depSubtaskTmId);
-        if (blockingSubtaskId === undefined) {
+      for (const ref of deps) {
+        const dep = resolveSubtaskDependency(ref, task);
+        const blockingId = lookupSubtaskDependency(dep, task.id, mapper);
+        if (blockingId === undefined) {
           throw new Error(
-            `Failed to wire subtask dependency: no Beads ID found for blocking subtask ${depSubtaskTmId} (dependency of subtask ${subtask.id} "${subtask.title}" in task ${task.id} "${task.title}")`,
+            `Failed to wire subtask dependency: no Beads ID found for blocking ${formatSubtaskDependency(dep, task.id)} (dependency of subtask ${subtask.id} "${subtask.title}" in task ${task.id} "${task.title}")`,
           );
         }
 
-        await cli.addDependency(blockedSubtaskId, blockingSubtaskId);
+        pairs.push([blockedSubtaskId, blockingId]);
       }
     }
   }
+  return pairs;
 }
 
 /**
@@ -87,10 +173,17 @@ export async function wireSubtaskDependencies(
  */
 export async function wireTestDependencies(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  concurrency: number = 1,
 ): Promise<number> {
-  let count = 0;
+  const pairs = collectTestDependencies(tasks, mapper);
+  await addDependencies(pairs, cli, mapper, concurrency);
+  return pairs.length;
+}
+
+function collectTestDependencies(tasks: TaskMasterTask[], mapper: IdMapper): DependencyPair[] {
+  const pairs: DependencyPair[] = [];
   for (const task of tasks) {
     if (!task.subtasks || task.subtasks.length === 0) continue;
     const testIssueId = mapper.getTestIssueId(task.id);
@@ -98,22 +191,101 @@ export async function wireTestDependencies(
     for (const subtask of task.subtasks) {
       const subtaskBeadsId = mapper.getSubtaskId(task.id, subtask.id);
       if (!subtaskBeadsId) throw new Error(`Subtask ID not found for ${task.id}.${subtask.id}`);
-      await cli.addDependency(testIssueId, subtaskBeadsId);
-      count++;
+      pairs.push([testIssueId, subtaskBeadsId]);
     }
   }
-  return count;
+  return pairs;
 }
 
 /**
- * Wire all dependencies: first epic-level, then subtask-level, then test dependencies.
+ * Wire all dependencies: first epic-level, then subtask-level, then test
+ * dependencies. Every dependency is resolved before any is registered, and
+ * up to `concurrency` of them are registered at a time.
  */
 export async function wireAllDependencies(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  concurrency: number = 1,
 ): Promise<void> {
-  await wireEpicDependencies(tasks, cli, mapper);
-  await wireSubtaskDependencies(tasks, cli, mapper);
-  await wireTestDependencies(tasks, cli, mapper);
+  const pairs = [
+    ...collectEpicDependencies(tasks, mapper),
+    ...collectSubtaskDependencies(tasks, mapper),
+    ...collectTestDependencies(tasks, mapper),
+  ];
+  await addDependencies(pairs, cli, mapper, concurrency);
+}
+
+export interface DependencyReconciliation {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Bring the Beads dependencies of the given tasks in line with tasks.json.
+ * The wanted edges are computed as in `wireAllDependencies` and compared with
+ * what Beads has: missing edges are added, and edges tm2bd added that
+ * tasks.json no longer calls for are removed. Edges tm2bd did not add, such
+ * as ones made by hand in Beads, are left alone; wanted edges that already
+ * exist are recorded as tm2bd's.
+ */
+export async function reconcileAllDependencies(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  concurrency: number = 1,
+): Promise<DependencyReconciliation> {
+  const wanted = new Map<string, Set<string>>();
+  for (const [blockedId, blockingId] of [
+    ...collectEpicDependencies(tasks, mapper),
+    ...collectSubtaskDependencies(tasks, mapper),
+    ...collectTestDependencies(tasks, mapper),
+  ]) {
+    wanted.set(blockedId, (wanted.get(blockedId) ?? new Set()).add(blockingId));
+  }
+
+  const managedIds = tasks.flatMap((task) => {
+    const epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) return [];
+    const testIssueId = mapper.getTestIssueId(task.id);
+    return [
+      epicId,
+      ...(task.subtasks ?? [])
+        .map(s => mapper.getSubtaskId(task.id, s.id))
+        .filter((id): id is string => id !== undefined),
+      ...(testIssueId ? [testIssueId] : []),
+    ];
+  });
+  const actual = await mapWithConcurrency(managedIds, concurrency, blockedId =>
+    cli.listDependencies(blockedId),
+  );
+
+  const missing: DependencyPair[] = [];
+  const stale: DependencyPair[] = [];
+  managedIds.forEach((blockedId, index) => {
+    const existing = new Set(actual[index]);
+    const expected = wanted.get(blockedId) ?? new Set<string>();
+    const recorded = new Set(mapper.getRecordedDependencies(blockedId));
+    for (const blockingId of expected) {
+      if (existing.has(blockingId)) {
+        mapper.recordDependency(blockedId, blockingId);
+      } else {
+        missing.push([blockedId, blockingId]);
+      }
+    }
+    for (const blockingId of existing) {
+      if (!expected.has(blockingId) && recorded.has(blockingId)) stale.push([blockedId, blockingId]);
+    }
+    // Recorded edges someone already removed in Beads are forgotten
+    for (const blockingId of recorded) {
+      if (!expected.has(blockingId) && !existing.has(blockingId)) mapper.forgetDependency(blockedId, blockingId);
+    }
+  });
+
+  await addDependencies(missing, cli, mapper, concurrency);
+  await mapWithConcurrency(stale, concurrency, async ([blockedId, blockingId]) => {
+    await cli.removeDependency(blockedId, blockingId);
+    mapper.forgetDependency(blockedId, blockingId);
+  });
+  return { added: missing.length, removed: stale.length };
 }
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import { BeadsNotFoundError } from '../beads/errors.js';
+import { detectDrift, fetchIssues } from './drift.js';
+import { recordContentHashes } from './content-hash.js';
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/** Two synced tasks: 2 depends on 1, and 1 has one subtask. */
+async function syncedFixture() {
+  const tracker = new InMemoryTracker();
+  const mapper = new IdMapper();
+  const epic1 = await tracker.createEpic('Task 1', '', 2);
+  const child = await tracker.createChild(epic1.id, 'Subtask 1.1', '');
+  const epic2 = await tracker.createEpic('Task 2', '', 2);
+  await tracker.addDependency(epic2.id, epic1.id);
+  mapper.addEpic(1, epic1.id);
+  mapper.addSubtask(1, 1, child.id);
+  mapper.addEpic(2, epic2.id);
+
+  const tasks = [
+    makeTask({ id: 1, title: 'Task 1', subtasks: [makeSubtask({ id: 1 })] }),
+    makeTask({ id: 2, title: 'Task 2', dependencies: [1] }),
+  ];
+  return { tracker, mapper, tasks, ids: { epic1: epic1.id, child: child.id, epic2: epic2.id } };
+}
+
+describe('detectDrift', () => {
+  it('reports nothing when Beads matches tasks.json', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.tag).toBe('master');
+    expect(report.epics).toEqual([]);
+    expect(Object.values(report.counts).every(count => count === 0)).toBe(true);
+  });
+
+  it('reports items edited in tasks.json since their hashes were recorded', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    recordContentHashes(tasks, mapper);
+    tasks[0].subtasks![0].title = 'Renamed';
+    tasks[1].description = 'Reworded';
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.epics.map(e => [e.taskId, e.entries.map(x => `${x.kind} ${x.ref}`)])).toEqual([
+      [1, ['changed 1.1']],
+      [2, ['changed 2']],
+    ]);
+    expect(report.counts.changed).toBe(2);
+  });
+
+  it('reports unmapped tasks, subtasks and test issues', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    tasks[0].subtasks!.push(makeSubtask({ id: 2 }));
+    tasks[1].testStrategy = 'Run the suite';
+    tasks.push(makeTask({ id: 3, title: 'Task 3' }));
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.epics.map(e => [e.taskId, e.entries.map(x => `${x.kind} ${x.ref}`)])).toEqual([
+      [1, ['unmapped 1.2']],
+      [2, ['unmapped 2 (test)']],
+      [3, ['unmapped 3']],
+    ]);
+    expect(report.counts.unmapped).toBe(3);
+  });
+
+  it('reports mapped tasks and subtasks that left tasks.json', async () => {
+    const { tracker, mapper, ids } = await syncedFixture();
+
+    const report = await detectDrift([makeTask({ id: 1, title: 'Task 1' })], tracker, mapper);
+
+    expect(report.epics).toEqual([
+      {
+        taskId: 1,
+        title: 'Task 1',
+        beadsId: ids.epic1,
+        entries: [expect.objectContaining({ kind: 'removed', ref: '1.1', beadsId: ids.child })],
+      },
+      {
+        taskId: 2,
+        title: '(not in tasks.json)',
+        beadsId: ids.epic2,
+        entries: [expect.objectContaining({ kind: 'removed', ref: '2', beadsId: ids.epic2 })],
+      },
+    ]);
+  });
+
+  it('reports mapped issues that are gone from Beads', async () => {
+    const { tracker, mapper, tasks, ids } = await syncedFixture();
+    await tracker.deleteIssue(ids.child);
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.epics).toHaveLength(1);
+    expect(report.epics[0].entries).toEqual([
+      { kind: 'missing_issue', ref: '1.1', beadsId: ids.child, message: `mapped to ${ids.child}, which no longer exists in Beads` },
+    ]);
+  });
+
+  it('falls back to per-issue lookups when a batched show fails with not found', async () => {
+    const { tracker, mapper, tasks, ids } = await syncedFixture();
+    const showIssues = vi.spyOn(tracker, 'showIssues').mockRejectedValue(
+      new BeadsNotFoundError('bd show failed', { args: ['show'], stderr: 'not found' }),
+    );
+    const showIssue = vi.spyOn(tracker, 'showIssue');
+    await tracker.deleteIssue(ids.epic2);
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(showIssues).toHaveBeenCalledTimes(1);
+    expect(showIssue).toHaveBeenCalledTimes(3);
+    expect(report.counts.missing_issue).toBe(1);
+    expect(report.epics[0].entries[0]).toMatchObject({ kind: 'missing_issue', ref: '2' });
+  });
+
+  it('reports status disagreements using the configured status map', async () => {
+    const { tracker, mapper, tasks, ids } = await syncedFixture();
+    tasks[0].status = 'done';
+    await tracker.updateStatus(ids.child, 'in_progress');
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.epics[0].entries).toEqual([
+      expect.objectContaining({ kind: 'status', ref: '1', message: 'Task-Master status done (closed in Beads) but Beads has open' }),
+      expect.objectContaining({ kind: 'status', ref: '1.1', message: 'Task-Master status pending (open in Beads) but Beads has in_progress' }),
+    ]);
+    expect(report.counts.status).toBe(2);
+  });
+
+  it('reports dependencies present on one side only', async () => {
+    const { tracker, mapper, tasks, ids } = await syncedFixture();
+    tasks[1].dependencies = [];
+    await tracker.addDependency(ids.epic1, ids.child);
+    tasks[0].subtasks!.push(makeSubtask({ id: 2, dependencies: [1] }));
+    const child2 = await tracker.createChild(ids.epic1, 'Subtask 1.2', '');
+    mapper.addSubtask(1, 2, child2.id);
+
+    const report = await detectDrift(tasks, tracker, mapper);
+
+    expect(report.epics.map(e => e.entries.map(x => `${x.ref}: ${x.message}`))).toEqual([
+      [
+        `1: depends on 1.1 (${ids.child}) in Beads only`,
+        `1.2: depends on 1.1 (${ids.child}) in tasks.json only`,
+      ],
+      [`2: depends on 1 (${ids.epic1}) in Beads only`],
+    ]);
+    expect(report.counts.dependency).toBe(3);
+  });
+});
+
+describe('fetchIssues', () => {
+  it('fetches in batches and only falls back for the batch that failed', async () => {
+    const tracker = new InMemoryTracker('bd');
+    const ids: string[] = [];
+    for (let i = 0; i < 150; i++) ids.push((await tracker.createEpic(`Task ${i}`, '', 2)).id);
+    await tracker.deleteIssue(ids[120]);
+    const showIssues = vi.spyOn(tracker, 'showIssues');
+    const showIssue = vi.spyOn(tracker, 'showIssue');
+
+    const { issues, missing } = await fetchIssues(ids, tracker);
+
+    expect(showIssues.mock.calls.map(([batch]) => batch.length)).toEqual([100, 50]);
+    expect(showIssue).toHaveBeenCalledTimes(50);
+    expect(issues.size).toBe(149);
+    expect(missing).toEqual(new Set([ids[120]]));
+  });
+});
@@ -0,0 +1,247 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsIssue, IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { BeadsNotFoundError } from '../beads/errors.js';
+import { beadsStatusFor } from './status-puller.js';
+import { resolveSubtaskDependency, lookupSubtaskDependency } from './dependency-wirer.js';
+import { hashTask, hashSubtask } from './content-hash.js';
+
+export type DriftKind =
+  /** In tasks.json but not in the mapping. */
+  | 'unmapped'
+  /** In the mapping but no longer in tasks.json. */
+  | 'removed'
+  /** In the mapping but the Beads issue is gone. */
+  | 'missing_issue'
+  /** Edited in tasks.json since it was last synced. */
+  | 'changed'
+  /** Task-Master and Beads disagree on the status. */
+  | 'status'
+  /** A dependency exists on one side only. */
+  | 'dependency';
+
+export interface DriftEntry {
+  kind: DriftKind;
+  /** "3" for a task, "3.2" for a subtask, "3 (test)" for a test issue. */
+  ref: string;
+  beadsId?: string;
+  message: string;
+}
+
+/** Drift for one task and everything under its epic. */
+export interface EpicDrift {
+  taskId: number;
+  title: string;
+  beadsId?: string;
+  entries: DriftEntry[];
+}
+
+export interface DriftReport {
+  tag: string;
+  epics: EpicDrift[];
+  counts: Record<DriftKind, number>;
+}
+
+/** Whether a tracker call failed because an issue does not exist. */
+export function isNotFound(error: unknown): boolean {
+  return error instanceof BeadsNotFoundError
+    || (error instanceof Error && /not found/i.test(error.message));
+}
+
+/** Most issue IDs passed to one `bd show`, to keep its command line short. */
+const SHOW_BATCH_SIZE = 100;
+
+/**
+ * Fetch the given issues in batches. If bd rejects a batch because an issue
+ * is gone, fall back to one call per issue of that batch to find out which.
+ */
+export async function fetchIssues(
+  issueIds: string[],
+  cli: IssueTracker,
+): Promise<{ issues: Map<string, BeadsIssue>; missing: Set<string> }> {
+  const issues = new Map<string, BeadsIssue>();
+  const missing = new Set<string>();
+  for (let start = 0; start < issueIds.length; start += SHOW_BATCH_SIZE) {
+    const batch = issueIds.slice(start, start + SHOW_BATCH_SIZE);
+    try {
+      for (const issue of await cli.showIssues(batch)) issues.set(issue.id, issue);
+      continue;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+    for (const issueId of batch) {
+      try {
+        issues.set(issueId, await cli.showIssue(issueId));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+        missing.add(issueId);
+      }
+    }
+  }
+  return { issues, missing };
+}
+
+/**
+ * Compare tasks.json, the mapping and Beads for one tag without changing
+ * anything. Reports unmapped items, mapped items that left tasks.json or
+ * Beads, status disagreements and dependencies present on one side only,
+ * grouped by the epic they belong to.
+ */
+export async function detectDrift(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<DriftReport> {
+  const tag = mapper.getTag();
+  const mappings = mapper.getTaskMappings();
+
+  const mappedIds = mappings.flatMap(m => [
+    m.beadsId,
+    ...m.subtasks.map(s => s.beadsId),
+    ...(m.testIssueId ? [m.testIssueId] : []),
+  ]);
+  const { issues, missing } = await fetchIssues(mappedIds, cli);
+
+  // Name Beads IDs after the Task-Master items they map to where possible
+  const refs = new Map<string, string>();
+  for (const m of mappings) {
+    refs.set(m.beadsId, `${m.tmId}`);
+    for (const s of m.subtasks) refs.set(s.beadsId, `${m.tmId}.${s.tmId}`);
+    if (m.testIssueId) refs.set(m.testIssueId, `${m.tmId} (test)`);
+  }
+  const describe = (beadsId: string) => (refs.has(beadsId) ? `${refs.get(beadsId)} (${beadsId})` : beadsId);
+
+  const epics: EpicDrift[] = [];
+  const counts: Record<DriftKind, number> = { unmapped: 0, removed: 0, missing_issue: 0, changed: 0, status: 0, dependency: 0 };
+  const add = (epic: EpicDrift, entry: DriftEntry) => {
+    epic.entries.push(entry);
+    counts[entry.kind]++;
+  };
+
+  // Flags a mapped issue that is gone from Beads; returns the issue otherwise
+  const check = (epic: EpicDrift, ref: string, beadsId: string): BeadsIssue | undefined => {
+    if (missing.has(beadsId)) {
+      add(epic, { kind: 'missing_issue', ref, beadsId, message: `mapped to ${beadsId}, which no longer exists in Beads` });
+      return undefined;
+    }
+    return issues.get(beadsId);
+  };
+
+  const compareStatus = (epic: EpicDrift, ref: string, issue: BeadsIssue, tmStatus: TaskMasterTask['status']) => {
+    const expected = beadsStatusFor(config.statusMap[tmStatus]);
+    if (issue.status !== expected) {
+      add(epic, {
+        kind: 'status',
+        ref,
+        beadsId: issue.id,
+        message: `Task-Master status ${tmStatus} (${expected} in Beads) but Beads has ${issue.status}`,
+      });
+    }
+  };
+
+  const compareDependencies = (epic: EpicDrift, ref: string, issue: BeadsIssue, expected: string[]) => {
+    const actual = new Set(issue.blockedBy ?? []);
+    const wanted = new Set(expected);
+    for (const blockingId of wanted) {
+      if (!actual.has(blockingId)) {
+        add(epic, { kind: 'dependency', ref, beadsId: issue.id, message: `depends on ${describe(blockingId)} in tasks.json only` });
+      }
+    }
+    for (const blockingId of actual) {
+      if (!wanted.has(blockingId)) {
+        add(epic, { kind: 'dependency', ref, beadsId: issue.id, message: `depends on ${describe(blockingId)} in Beads only` });
+      }
+    }
+  };
+
+  // Items synced before content hashes existed have none to compare with
+  const compareHash = (epic: EpicDrift, ref: string, beadsId: string, stored: string | undefined, current: string) => {
+    if (stored !== undefined && stored !== current) {
+      add(epic, { kind: 'changed', ref, beadsId, message: 'edited in tasks.json since the last sync' });
+    }
+  };
+
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    const epic: EpicDrift = { taskId: task.id, title: task.title, beadsId: epicId, entries: [] };
+    const ref = `${task.id}`;
+
+    if (epicId === undefined) {
+      add(epic, { kind: 'unmapped', ref, message: 'task is not synced to Beads' });
+    } else {
+      compareHash(epic, ref, epicId, mapper.getContentHash(task.id), hashTask(task, config));
+      const issue = check(epic, ref, epicId);
+      if (issue) {
+        compareStatus(epic, ref, issue, task.status);
+        const blocking = task.dependencies
+          .map(depId => mapper.getEpicId(depId))
+          .filter((id): id is string => id !== undefined);
+        compareDependencies(epic, ref, issue, blocking);
+      }
+    }
+
+    const subtaskIds = new Set((task.subtasks ?? []).map(s => s.id));
+    for (const subtask of [...(task.subtasks ?? [])].sort((a, b) => a.id - b.id)) {
+      const childRef = `${task.id}.${subtask.id}`;
+      const childId = mapper.getSubtaskId(task.id, subtask.id);
+      if (childId === undefined) {
+        add(epic, { kind: 'unmapped', ref: childRef, message: 'subtask is not synced to Beads' });
+        continue;
+      }
+      compareHash(epic, childRef, childId, mapper.getSubtaskContentHash(task.id, subtask.id), hashSubtask(subtask, task, config));
+      const issue = check(epic, childRef, childId);
+      if (!issue) continue;
+      compareStatus(epic, childRef, issue, subtask.status);
+      const blocking = (subtask.dependencies ?? [])
+        .map(depRef => lookupSubtaskDependency(resolveSubtaskDependency(depRef, task), task.id, mapper))
+        .filter((id): id is string => id !== undefined);
+      compareDependencies(epic, childRef, issue, blocking);
+    }
+
+    const mapping = mappings.find(m => m.tmId === task.id);
+    for (const subtaskMapping of mapping?.subtasks ?? []) {
+      if (!subtaskIds.has(subtaskMapping.tmId)) {
+        add(epic, {
+          kind: 'removed',
+          ref: `${task.id}.${subtaskMapping.tmId}`,
+          beadsId: subtaskMapping.beadsId,
+          message: `subtask is mapped to ${subtaskMapping.beadsId} but no longer in tasks.json`,
+        });
+      }
+    }
+
+    const testRef = `${task.id} (test)`;
+    const testId = mapper.getTestIssueId(task.id);
+    if (task.testStrategy && testId === undefined && epicId !== undefined) {
+      add(epic, { kind: 'unmapped', ref: testRef, message: 'test issue is not synced to Beads' });
+    } else if (testId !== undefined) {
+      const issue = check(epic, testRef, testId);
+      if (issue) {
+        const blocking = (task.subtasks ?? [])
+          .map(s => mapper.getSubtaskId(task.id, s.id))
+          .filter((id): id is string => id !== undefined);
+        compareDependencies(epic, testRef, issue, blocking);
+      }
+    }
+
+    if (epic.entries.length > 0) epics.push(epic);
+  }
+
+  const taskIds = new Set(tasks.map(t => t.id));
+  for (const m of mappings) {
+    if (taskIds.has(m.tmId)) continue;
+    const epic: EpicDrift = { taskId: m.tmId, title: '(not in tasks.json)', beadsId: m.beadsId, entries: [] };
+    add(epic, {
+      kind: 'removed',
+      ref: `${m.tmId}`,
+      beadsId: m.beadsId,
+      message: `task is mapped to ${m.beadsId} but no longer in tasks.json`,
+    });
+    epics.push(epic);
+  }
+
+  return { tag, epics, counts };
+}
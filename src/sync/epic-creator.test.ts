@@ -2,10 +2,12 @@ import { describe, it, expect, vi } from 'vitest';
 import type { TaskMasterTask } from '../schemas/taskmaster.js';
 import {
   formatEpicDescription,
+  formatEpicTitle,
   mapPriority,
   createEpic,
   createEpics,
 } from './epic-creator.js';
+import { resolveConfig } from '../schemas/config.js';
 
 function createMockCli() {
   return {
@@ -29,6 +31,8 @@ function createMockMapper() {
     getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
     setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
     getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    getTag: vi.fn(() => 'master'),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -83,6 +87,51 @@ describe('formatEpicDescription', () => {
     expect(result).not.toContain('**Complexity:**');
     expect(result).toContain('**Original Status:** pending');
   });
+
+  it('separates sections with blank lines', () => {
+    const task = makeTask({ id: 4, description: 'Desc', details: 'Notes', complexity: 3 });
+
+    expect(formatEpicDescription(task)).toBe(
+      '## Description\n\nDesc\n\n' +
+      '## Implementation Details\n\nNotes\n\n' +
+      '## Metadata\n\n- **Task-Master ID:** 4\n- **Complexity:** 3/10\n- **Original Status:** pending',
+    );
+  });
+
+  it('includes the complexity analysis when present', () => {
+    const task = makeTask({
+      id: 4,
+      description: 'Desc',
+      complexity: 8,
+      complexityAnalysis: { recommendedSubtasks: 6, reasoning: 'Touches several services', expansionPrompt: 'Split it' },
+    });
+
+    expect(formatEpicDescription(task)).toBe(
+      '## Description\n\nDesc\n\n' +
+      '## Complexity Analysis\n\nTouches several services\n\n**Expansion Prompt:** Split it\n\n' +
+      '## Metadata\n\n- **Task-Master ID:** 4\n- **Complexity:** 8/10\n' +
+      '- **Recommended Subtasks:** 6\n- **Original Status:** pending',
+    );
+  });
+
+  it('renders a custom template', () => {
+    const task = makeTask({ id: 4, description: 'Desc', dependencies: [1, 2] });
+    const template = '{{description}}\n\nPRD: https://example.com/prd#task-{{id}}{{#if dependencies}}\nAfter: {{dependencies}}{{/if}}';
+
+    expect(formatEpicDescription(task, template)).toBe(
+      'Desc\n\nPRD: https://example.com/prd#task-4\nAfter: 1, 2',
+    );
+  });
+});
+
+describe('formatEpicTitle', () => {
+  it('uses the task title by default', () => {
+    expect(formatEpicTitle(makeTask({ title: 'Setup' }))).toBe('Setup');
+  });
+
+  it('renders a custom title template', () => {
+    expect(formatEpicTitle(makeTask({ id: 12, title: 'Setup' }), '[TM-{{id}}] {{title}}')).toBe('[TM-12] Setup');
+  });
 });
 
 describe('mapPriority', () => {
@@ -97,6 +146,10 @@ describe('mapPriority', () => {
   it('maps low to 2', () => {
     expect(mapPriority('low')).toBe(2);
   });
+
+  it('uses a configured priority map', () => {
+    expect(mapPriority('low', { high: 1, medium: 2, low: 4 })).toBe(4);
+  });
 });
 
 describe('createEpic', () => {
@@ -118,6 +171,59 @@ describe('createEpic', () => {
     expect(priority).toBe(0);
 
     expect(mapper.addEpic).toHaveBeenCalledWith(5, 'beads-epic-5');
+    expect(mapper.checkpoint).toHaveBeenCalledOnce();
+  });
+
+  it('labels the epic with tag, complexity and tier', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+
+    await createEpic(makeTask({ id: 5, complexity: 5 }), cli, mapper, undefined, 1);
+
+    const labels = cli.createEpic.mock.calls[0][4];
+    expect(labels).toEqual(['tm2bd', 'tm:master', 'complexity:medium', 'tier:1']);
+  });
+
+  it('returns the existing ID without calling bd when already mapped', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(5, 'existing-epic-5');
+    mapper.addEpic.mockClear();
+
+    const result = await createEpic(makeTask({ id: 5 }), cli, mapper);
+
+    expect(result).toBe('existing-epic-5');
+    expect(cli.createEpic).not.toHaveBeenCalled();
+    expect(mapper.addEpic).not.toHaveBeenCalled();
+    expect(mapper.checkpoint).not.toHaveBeenCalled();
+  });
+});
+
+describe('createEpic with config', () => {
+  it('uses configured title and description templates', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    const config = resolveConfig({
+      templates: { epic: { title: '[TM-{{id}}] {{title}}', description: 'Status: {{status}}' } },
+    });
+
+    await createEpic(makeTask({ id: 3, title: 'Login' }), cli, mapper, config);
+
+    const [title, description] = cli.createEpic.mock.calls[0];
+    expect(title).toBe('[TM-3] Login');
+    expect(description).toBe('Status: pending');
+  });
+
+  it('uses the configured issue type and priority map', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    const config = resolveConfig({ priorityMap: { high: 1 }, issueTypes: { epic: 'feature' } });
+
+    await createEpic(makeTask({ priority: 'high' }), cli, mapper, config);
+
+    const [, , priority, type] = cli.createEpic.mock.calls[0];
+    expect(priority).toBe(1);
+    expect(type).toBe('feature');
   });
 });
 
@@ -153,4 +259,74 @@ describe('createEpics', () => {
       [3, 3],
     ]);
   });
+
+  it('skips already-mapped tasks and flags them in progress', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-existing');
+
+    const tasks = [
+      makeTask({ id: 1, title: 'Task 1' }),
+      makeTask({ id: 2, title: 'Task 2' }),
+    ];
+
+    const progressCalls: Array<[number, number, boolean]> = [];
+    await createEpics(tasks, cli, mapper, (current, total, skipped) => {
+      progressCalls.push([current, total, skipped]);
+    });
+
+    expect(cli.createEpic).toHaveBeenCalledOnce();
+    expect(cli.createEpic.mock.calls[0][0]).toBe('Task 2');
+    expect(progressCalls).toEqual([
+      [1, 2, true],
+      [2, 2, false],
+    ]);
+  });
+
+  it('records each epic as soon as it is created in parallel', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    cli.createEpic.mockImplementation(async (title: string) => {
+      // Later tasks finish first
+      await new Promise(resolve => setTimeout(resolve, title === 'Task 1' ? 10 : 0));
+      return { id: `epic-${title}`, title };
+    });
+
+    const tasks = [
+      makeTask({ id: 1, title: 'Task 1' }),
+      makeTask({ id: 2, title: 'Task 2' }),
+      makeTask({ id: 3, title: 'Task 3' }),
+    ];
+
+    const progressCalls: number[] = [];
+    await createEpics(tasks, cli, mapper, (current) => progressCalls.push(current), undefined, undefined, 3);
+
+    expect(mapper.addEpic.mock.calls).toEqual([
+      [2, 'epic-Task 2'],
+      [3, 'epic-Task 3'],
+      [1, 'epic-Task 1'],
+    ]);
+    expect(mapper.checkpoint).toHaveBeenCalledTimes(3);
+    expect(progressCalls).toEqual([1, 2, 3]);
+  });
+
+  it('records successful epics before reporting every failure', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    cli.createEpic.mockImplementation(async (title: string) => {
+      if (title !== 'Task 2') throw new Error(`bd failed for ${title}`);
+      return { id: 'epic-2', title };
+    });
+
+    const tasks = [
+      makeTask({ id: 1, title: 'Task 1' }),
+      makeTask({ id: 2, title: 'Task 2' }),
+      makeTask({ id: 3, title: 'Task 3' }),
+    ];
+
+    await expect(createEpics(tasks, cli, mapper, undefined, undefined, undefined, 3)).rejects.toThrow(
+      '2 operations failed:\n  - bd failed for Task 1\n  - bd failed for Task 3',
+    );
+    expect(mapper.addEpic.mock.calls).toEqual([[2, 'epic-2']]);
+  });
 });
@@ -1,65 +1,126 @@
 import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG, DEFAULT_TEMPLATES } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { renderTemplate } from '../utils/template.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { epicLabels } from './labels.js';
 
-export function formatEpicDescription(task: TaskMasterTask): string {
-  const parts: string[] = [];
-
-  parts.push(`## Description\n\n${task.description}`);
-
-  if (task.details) {
-    parts.push(`## Implementation Details\n\n${task.details}`);
-  }
-
-  if (task.testStrategy) {
-    parts.push(`## Test Strategy\n\n${task.testStrategy}`);
-  }
+/**
+ * Template values for a task: every Task-Master field, with `subtasks`
+ * rendered as a Markdown list of "task.subtask title" lines.
+ */
+export function taskTemplateContext(task: TaskMasterTask): Record<string, unknown> {
+  return {
+    ...task,
+    subtasks: (task.subtasks ?? [])
+      .map(subtask => `- ${task.id}.${subtask.id} ${subtask.title}`)
+      .join('\n'),
+  };
+}
 
-  const metadataLines: string[] = [
-    `- **Task-Master ID:** ${task.id}`,
-  ];
-  if (task.complexity !== undefined) {
-    metadataLines.push(`- **Complexity:** ${task.complexity}/10`);
-  }
-  metadataLines.push(`- **Original Status:** ${task.status}`);
+export function formatEpicTitle(
+  task: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.epic.title,
+): string {
+  return renderTemplate(template, taskTemplateContext(task));
+}
 
-  parts.push(`## Metadata\n\n${metadataLines.join('\n')}`);
+export function formatEpicDescription(
+  task: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.epic.description,
+): string {
+  return renderTemplate(template, taskTemplateContext(task));
+}
 
-  return parts.join('\n\n');
+export function mapPriority(
+  tmPriority: 'high' | 'medium' | 'low',
+  priorityMap: SyncConfig['priorityMap'] = DEFAULT_SYNC_CONFIG.priorityMap,
+): number {
+  return priorityMap[tmPriority];
 }
 
-export function mapPriority(tmPriority: 'high' | 'medium' | 'low'): number {
-  switch (tmPriority) {
-    case 'high':
-      return 0;
-    case 'medium':
-      return 1;
-    case 'low':
-      return 2;
-  }
+/**
+ * Create the epic issue for a task without touching the mapping, for callers
+ * that record the new ID themselves.
+ */
+export async function createEpicIssue(
+  task: TaskMasterTask,
+  cli: IssueTracker,
+  tag: string,
+  config: SyncConfig,
+  tier?: number,
+): Promise<string> {
+  const { title, description } = config.templates.epic;
+  const priority = mapPriority(task.priority, config.priorityMap);
+  const labels = epicLabels(task, tag, config, tier);
+  const result = await cli.createEpic(
+    formatEpicTitle(task, title),
+    formatEpicDescription(task, description),
+    priority,
+    config.issueTypes.epic,
+    labels,
+  );
+  return result.id;
 }
 
+/**
+ * Create the epic for a task, or return the existing Beads ID when the task
+ * is already mapped (e.g. when resuming an interrupted sync). `tier` is the
+ * task's dependency tier, recorded as a `tier:<n>` label when given.
+ */
 export async function createEpic(
   task: TaskMasterTask,
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tier?: number,
 ): Promise<string> {
-  const description = formatEpicDescription(task);
-  const priority = mapPriority(task.priority);
-  const result = await cli.createEpic(task.title, description, priority);
-  mapper.addEpic(task.id, result.id);
-  return result.id;
+  const existingId = mapper.getEpicId(task.id);
+  if (existingId !== undefined) {
+    return existingId;
+  }
+
+  const epicId = await createEpicIssue(task, cli, mapper.getTag(), config, tier);
+  mapper.addEpic(task.id, epicId);
+  await mapper.checkpoint();
+  return epicId;
 }
 
+/**
+ * Create the epics of all tasks, up to `concurrency` at a time. Epics do not
+ * depend on each other until dependencies are wired, so any of them can be
+ * created in parallel. Each is recorded in the mapping and checkpointed as
+ * soon as it exists, so an interrupted run never loses one; they are still
+ * reported to `onProgress` in task order.
+ */
 export async function createEpics(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
-  onProgress?: (current: number, total: number) => void,
+  onProgress?: (current: number, total: number, skipped: boolean) => void,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tiers?: Map<number, number>,
+  concurrency: number = 1,
 ): Promise<void> {
   const total = tasks.length;
-  for (let i = 0; i < total; i++) {
-    await createEpic(tasks[i], cli, mapper);
-    onProgress?.(i + 1, total);
-  }
+  let current = 0;
+  await mapWithConcurrency(
+    tasks,
+    concurrency,
+    async (task) => {
+      const existingId = mapper.getEpicId(task.id);
+      if (existingId !== undefined) {
+        return { epicId: existingId, skipped: true };
+      }
+      const epicId = await createEpicIssue(task, cli, mapper.getTag(), config, tiers?.get(task.id));
+      mapper.addEpic(task.id, epicId);
+      await mapper.checkpoint();
+      return { epicId, skipped: false };
+    },
+    ({ skipped }) => {
+      onProgress?.(++current, total, skipped);
+    },
+  );
 }
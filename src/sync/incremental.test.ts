@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { snapshotTasks, detectTaskChanges, syncTasks } from './incremental.js';
+
+function createMockCli() {
+  let next = 0;
+  return {
+    createEpic: vi.fn(async () => ({ id: `bd-${++next}`, title: 'Epic' })),
+    createChild: vi.fn(async () => ({ id: `bd-${++next}`, title: 'Child' })),
+    updateIssue: vi.fn().mockResolvedValue(undefined),
+    showIssues: vi.fn().mockResolvedValue([]),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    removeDependency: vi.fn().mockResolvedValue(undefined),
+    listDependencies: vi.fn().mockResolvedValue([]),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    checkInit: vi.fn().mockResolvedValue(true),
+  } as any;
+}
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('detectTaskChanges', () => {
+  it('treats every task as changed without a snapshot', () => {
+    const tasks = [makeTask({ id: 1 }), makeTask({ id: 2 })];
+
+    expect(detectTaskChanges(tasks)).toEqual({ changed: tasks, removed: [] });
+  });
+
+  it('reports edited, added and removed tasks', () => {
+    const previous = snapshotTasks([makeTask({ id: 1 }), makeTask({ id: 2 }), makeTask({ id: 3 })]);
+    const edited = makeTask({ id: 2, title: 'Renamed' });
+    const added = makeTask({ id: 4 });
+
+    const result = detectTaskChanges([makeTask({ id: 1 }), edited, added], previous);
+
+    expect(result.changed).toEqual([edited, added]);
+    expect(result.removed).toEqual([3]);
+  });
+
+  it('notices subtask edits', () => {
+    const previous = snapshotTasks([makeTask({ subtasks: [makeSubtask()] })]);
+
+    const result = detectTaskChanges([makeTask({ subtasks: [makeSubtask({ status: 'done' })] })], previous);
+
+    expect(result.changed).toHaveLength(1);
+  });
+});
+
+describe('syncTasks', () => {
+  it('creates unmapped tasks with their children and test issue', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+
+    const summary = await syncTasks(
+      [makeTask({ id: 1, testStrategy: 'Tests', subtasks: [makeSubtask({ id: 1 })] })],
+      cli,
+      mapper,
+    );
+
+    expect(summary).toEqual({ created: 3, updated: 0 });
+    expect(mapper.getEpicId(1)).toBe('bd-1');
+    expect(mapper.getSubtaskId(1, 1)).toBe('bd-2');
+    expect(mapper.getTestIssueId(1)).toBe('bd-3');
+    expect(cli.updateIssue).not.toHaveBeenCalled();
+    expect(cli.addDependency).toHaveBeenCalledWith('bd-3', 'bd-2');
+  });
+
+  it('updates mapped issues and creates only what is missing', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+
+    const summary = await syncTasks(
+      [makeTask({ id: 1, status: 'done', subtasks: [makeSubtask({ id: 1 }), makeSubtask({ id: 2, title: 'New' })] })],
+      cli,
+      mapper,
+    );
+
+    expect(summary).toEqual({ created: 1, updated: 2 });
+    expect(cli.createEpic).not.toHaveBeenCalled();
+    expect(cli.createChild).toHaveBeenCalledOnce();
+    expect(cli.createChild.mock.calls[0][1]).toBe('New');
+    expect(cli.updateIssue.mock.calls.map((call: unknown[]) => call[0])).toEqual(['epic-1', 'child-1']);
+    expect(cli.close).toHaveBeenCalledWith('epic-1');
+  });
+
+  it('wires dependencies onto tasks created in the same run', async () => {
+    const cli = createMockCli();
+    const mapper = new IdMapper();
+
+    await syncTasks([makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] })], cli, mapper);
+
+    expect(cli.addDependency).toHaveBeenCalledWith(mapper.getEpicId(2), mapper.getEpicId(1));
+  });
+});
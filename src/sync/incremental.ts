@@ -0,0 +1,100 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { createEpic } from './epic-creator.js';
+import { createChild, createChildren } from './child-creator.js';
+import { createTestChild } from './test-creator.js';
+import { updateEpic, updateChildren, updateTestChild, fetchCurrentIssues } from './issue-updater.js';
+import { reconcileAllDependencies } from './dependency-wirer.js';
+import { syncAllStatuses } from './status-syncer.js';
+
+/** Serialised form of each task, keyed by Task-Master ID, for change detection. */
+export type TaskSnapshot = Map<number, string>;
+
+export interface TaskChanges {
+  changed: TaskMasterTask[];
+  removed: number[];
+}
+
+export interface IncrementalSummary {
+  created: number;
+  updated: number;
+}
+
+export function snapshotTasks(tasks: TaskMasterTask[]): TaskSnapshot {
+  return new Map(tasks.map(task => [task.id, JSON.stringify(task)]));
+}
+
+/**
+ * Compare tasks against the previous snapshot. Without a snapshot every task
+ * counts as changed. `changed` keeps the order of `tasks`.
+ */
+export function detectTaskChanges(
+  tasks: TaskMasterTask[],
+  previous?: TaskSnapshot,
+): TaskChanges {
+  const current = snapshotTasks(tasks);
+  const changed = previous
+    ? tasks.filter(task => previous.get(task.id) !== current.get(task.id))
+    : [...tasks];
+  const removed = previous
+    ? [...previous.keys()].filter(id => !current.has(id))
+    : [];
+  return { changed, removed };
+}
+
+/**
+ * Bring the Beads issues of the given tasks in line with tasks.json: issues
+ * missing from the mapping are created, mapped ones are updated in place.
+ * Dependencies of the tasks are then reconciled and their statuses
+ * re-applied. Tasks must be in dependency order; `tiers` feeds the
+ * `tier:<n>` label.
+ */
+export async function syncTasks(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tiers?: Map<number, number>,
+): Promise<IncrementalSummary> {
+  const summary: IncrementalSummary = { created: 0, updated: 0 };
+  const existing = tasks.filter(task => mapper.getEpicId(task.id) !== undefined);
+  const context = { tiers, issues: await fetchCurrentIssues(existing, cli, mapper) };
+
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+
+    if (epicId === undefined) {
+      const newEpicId = await createEpic(task, cli, mapper, config, tiers?.get(task.id));
+      await createChildren(task, newEpicId, cli, mapper, config);
+      await createTestChild(task, newEpicId, cli, mapper, config);
+      summary.created += 1 + (task.subtasks?.length ?? 0) + (task.testStrategy ? 1 : 0);
+      continue;
+    }
+
+    if (await updateEpic(task, cli, mapper, config, context) === 'updated') {
+      summary.updated++;
+    }
+
+    const children = await updateChildren(task, cli, mapper, config, context);
+    summary.updated += children.updated;
+    for (const subtask of [...(task.subtasks ?? [])].sort((a, b) => a.id - b.id)) {
+      if (!children.unmapped.includes(`${task.id}.${subtask.id}`)) continue;
+      await createChild(task, subtask, epicId, cli, mapper, config);
+      summary.created++;
+    }
+
+    const test = await updateTestChild(task, cli, mapper, config, context);
+    if (test === 'updated') {
+      summary.updated++;
+    } else if (test === 'unmapped' && await createTestChild(task, epicId, cli, mapper, config)) {
+      summary.created++;
+    }
+  }
+
+  await reconcileAllDependencies(tasks, cli, mapper);
+  await syncAllStatuses(tasks, cli, mapper, config);
+  return summary;
+}
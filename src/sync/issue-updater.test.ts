@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import {
+  updateEpic,
+  updateChildren,
+  updateTestChild,
+  updateAllIssues,
+} from './issue-updater.js';
+import { formatEpicDescription } from './epic-creator.js';
+
+function createMockCli() {
+  return {
+    createEpic: vi.fn().mockResolvedValue({ id: 'epic-1', title: 'Test' }),
+    createChild: vi.fn().mockResolvedValue({ id: 'child-1', title: 'Test' }),
+    updateIssue: vi.fn().mockResolvedValue(undefined),
+    showIssues: vi.fn().mockResolvedValue([]),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    checkInit: vi.fn().mockResolvedValue(true),
+  } as any;
+}
+
+function createMockMapper() {
+  const epics = new Map<number, string>();
+  const subtasks = new Map<string, string>();
+  const testIssues = new Map<number, string>();
+  return {
+    addEpic: vi.fn((tmId: number, beadsId: string) => epics.set(tmId, beadsId)),
+    addSubtask: vi.fn((taskId: number, subId: number, beadsId: string) => subtasks.set(`${taskId}.${subId}`, beadsId)),
+    getEpicId: vi.fn((tmId: number) => epics.get(tmId)),
+    getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
+    setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
+    getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    getTag: vi.fn(() => 'master'),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
+  } as any;
+}
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('updateEpic', () => {
+  it('pushes title, formatted description and mapped priority', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(3, 'epic-3');
+
+    const result = await updateEpic(
+      makeTask({ id: 3, title: 'Renamed', description: 'Fresh text', priority: 'high' }),
+      cli,
+      mapper,
+    );
+
+    expect(result).toBe('updated');
+    expect(cli.updateIssue).toHaveBeenCalledOnce();
+    const [issueId, edit] = cli.updateIssue.mock.calls[0];
+    expect(issueId).toBe('epic-3');
+    expect(edit.title).toBe('Renamed');
+    expect(edit.description).toContain('Fresh text');
+    expect(edit.description).toContain('**Task-Master ID:** 3');
+    expect(edit.priority).toBe(0);
+  });
+
+  it('reports an unmapped task and does nothing', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+
+    const result = await updateEpic(makeTask({ id: 9 }), cli, mapper);
+
+    expect(result).toBe('unmapped');
+    expect(cli.updateIssue).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateChildren', () => {
+  it('updates mapped subtasks and reports unmapped ones', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+
+    const task = makeTask({
+      id: 1,
+      subtasks: [
+        makeSubtask({ id: 2, title: 'New subtask' }),
+        makeSubtask({ id: 1, title: 'Edited subtask', details: 'More detail' }),
+      ],
+    });
+
+    const result = await updateChildren(task, cli, mapper);
+
+    expect(result).toEqual({ updated: 1, unmapped: ['1.2'] });
+    expect(cli.updateIssue).toHaveBeenCalledWith('child-1', {
+      title: 'Edited subtask',
+      description: 'Subtask description\n\n## Implementation Details\nMore detail',
+      addLabels: ['tm2bd', 'tm:master'],
+    });
+  });
+});
+
+describe('updateTestChild', () => {
+  it('updates the test issue when one is mapped', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.setTestIssueId(1, 'test-1');
+
+    const result = await updateTestChild(
+      makeTask({ id: 1, title: 'Login', testStrategy: 'E2E login flow' }),
+      cli,
+      mapper,
+    );
+
+    expect(result).toBe('updated');
+    expect(cli.updateIssue).toHaveBeenCalledWith('test-1', {
+      title: 'Test: Login',
+      description: '## Test Strategy\nE2E login flow',
+      addLabels: ['tm2bd', 'tm:master', 'test'],
+    });
+  });
+
+  it('skips tasks without a test issue', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+
+    const result = await updateTestChild(
+      makeTask({ id: 1, testStrategy: 'Unit tests' }),
+      cli,
+      mapper,
+    );
+
+    expect(result).toBe('unmapped');
+    expect(cli.updateIssue).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateAllIssues', () => {
+  it('updates every mapped issue and collects unmapped items', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+    mapper.setTestIssueId(1, 'test-1');
+
+    const tasks = [
+      makeTask({ id: 1, testStrategy: 'Tests', subtasks: [makeSubtask({ id: 1 })] }),
+      makeTask({ id: 2 }),
+    ];
+
+    const progressCalls: Array<[number, number]> = [];
+    const summary = await updateAllIssues(tasks, cli, mapper, (current, total) => {
+      progressCalls.push([current, total]);
+    });
+
+    expect(summary).toEqual({ updated: 3, unmapped: ['2'] });
+    expect(cli.updateIssue).toHaveBeenCalledTimes(3);
+    expect(progressCalls).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('reconciles labels against the ones each issue currently has', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+    cli.showIssues.mockResolvedValue([
+      { id: 'epic-1', title: 'Task', status: 'open', labels: ['tm2bd', 'tm:master', 'tier:0', 'backend'] },
+      { id: 'child-1', title: 'Subtask', status: 'open', labels: ['tm2bd', 'tm:master'] },
+    ]);
+
+    const tasks = [makeTask({ id: 1, complexity: 9, subtasks: [makeSubtask({ id: 1 })] })];
+
+    await updateAllIssues(tasks, cli, mapper, undefined, undefined, new Map([[1, 2]]));
+
+    expect(cli.showIssues).toHaveBeenCalledWith(['epic-1', 'child-1']);
+    const [, epicEdit] = cli.updateIssue.mock.calls[0];
+    expect(epicEdit.addLabels).toEqual(['complexity:high', 'tier:2']);
+    expect(epicEdit.removeLabels).toEqual(['tier:0']);
+    const [, childEdit] = cli.updateIssue.mock.calls[1];
+    expect(childEdit.addLabels).toBeUndefined();
+    expect(childEdit.removeLabels).toBeUndefined();
+  });
+
+  it('only sends the fields that differ from Beads and skips issues that match', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+    const task = makeTask({ id: 1, subtasks: [makeSubtask({ id: 1 })] });
+    cli.showIssues.mockResolvedValue([
+      {
+        id: 'epic-1',
+        title: 'Task',
+        description: formatEpicDescription(task),
+        status: 'open',
+        priority: 1,
+        labels: ['tm2bd', 'tm:master'],
+      },
+      { id: 'child-1', title: 'Subtask', description: 'Subtask description', status: 'open', labels: ['tm2bd', 'tm:master'] },
+    ]);
+
+    const summary = await updateAllIssues([{ ...task, title: 'Renamed' }], cli, mapper);
+
+    expect(summary).toEqual({ updated: 1, unmapped: [] });
+    expect(cli.updateIssue).toHaveBeenCalledOnce();
+    expect(cli.updateIssue).toHaveBeenCalledWith('epic-1', { title: 'Renamed' });
+  });
+});
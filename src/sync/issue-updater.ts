@@ -0,0 +1,207 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsIssue, BeadsIssueEdit, IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { formatEpicTitle, formatEpicDescription, mapPriority } from './epic-creator.js';
+import { formatChildTitle, formatChildDescription } from './child-creator.js';
+import { formatTestDescription, formatTestTitle } from './test-creator.js';
+import { epicLabels, childLabels, testLabels, reconcileLabels } from './labels.js';
+import type { LabelContext } from './labels.js';
+import { fetchIssues } from './drift.js';
+
+export interface UpdateSummary {
+  updated: number;
+  unmapped: string[];
+}
+
+/** Whether an issue was edited, already matched tasks.json, or has no mapping. */
+export type UpdateOutcome = 'updated' | 'unchanged' | 'unmapped';
+
+export interface UpdateContext extends LabelContext {
+  /**
+   * Each Beads issue as it is now. Only fields that differ are edited and
+   * stale labels removed; issues not in here get every field pushed.
+   */
+  issues?: Map<string, BeadsIssue>;
+}
+
+/**
+ * Edit an issue so its title, description, priority and labels match, leaving
+ * out whatever already does. Returns false when there was nothing to change.
+ */
+async function applyEdit(
+  issueId: string,
+  wanted: { title: string; description: string; priority?: number; labels: string[]; testIssue?: boolean },
+  cli: IssueTracker,
+  context: UpdateContext,
+): Promise<boolean> {
+  const issue = context.issues?.get(issueId);
+  const edit: BeadsIssueEdit = {};
+  if (issue?.title !== wanted.title) edit.title = wanted.title;
+  if (issue === undefined || (issue.description ?? '') !== wanted.description) edit.description = wanted.description;
+  if (wanted.priority !== undefined && issue?.priority !== wanted.priority) edit.priority = wanted.priority;
+  Object.assign(edit, reconcileLabels(wanted.labels, issue && (issue.labels ?? []), wanted.testIssue));
+
+  if (Object.keys(edit).length === 0) return false;
+  await cli.updateIssue(issueId, edit);
+  return true;
+}
+
+/**
+ * Push the current title, description, priority and labels of a task to its
+ * epic.
+ */
+export async function updateEpic(
+  task: TaskMasterTask,
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  context: UpdateContext = {},
+): Promise<UpdateOutcome> {
+  const epicId = mapper.getEpicId(task.id);
+  if (epicId === undefined) {
+    return 'unmapped';
+  }
+
+  const edited = await applyEdit(epicId, {
+    title: formatEpicTitle(task, config.templates.epic.title),
+    description: formatEpicDescription(task, config.templates.epic.description),
+    priority: mapPriority(task.priority, config.priorityMap),
+    labels: epicLabels(task, mapper.getTag(), config, context.tiers?.get(task.id)),
+  }, cli, context);
+  return edited ? 'updated' : 'unchanged';
+}
+
+/**
+ * Push the current title and description of each subtask to its child issue.
+ * Returns how many issues were edited and the IDs (as "task.subtask") of
+ * subtasks that have no mapping.
+ */
+export async function updateChildren(
+  task: TaskMasterTask,
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  context: UpdateContext = {},
+): Promise<{ updated: number; unmapped: string[] }> {
+  const unmapped: string[] = [];
+  let updated = 0;
+
+  if (!task.subtasks || task.subtasks.length === 0) {
+    return { updated, unmapped };
+  }
+
+  const sorted = [...task.subtasks].sort((a, b) => a.id - b.id);
+
+  for (const subtask of sorted) {
+    const childId = mapper.getSubtaskId(task.id, subtask.id);
+    if (childId === undefined) {
+      unmapped.push(`${task.id}.${subtask.id}`);
+      continue;
+    }
+
+    const edited = await applyEdit(childId, {
+      title: formatChildTitle(subtask, task, config.templates.child.title),
+      description: formatChildDescription(subtask, task, config.templates.child.description),
+      priority: config.defaults.priority,
+      labels: childLabels(mapper.getTag(), config),
+    }, cli, context);
+    if (edited) updated++;
+  }
+
+  return { updated, unmapped };
+}
+
+/**
+ * Push the current test strategy of a task to its test issue, if one exists.
+ * Tasks without a test strategy or test issue count as unmapped.
+ */
+export async function updateTestChild(
+  task: TaskMasterTask,
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  context: UpdateContext = {},
+): Promise<UpdateOutcome> {
+  if (!task.testStrategy) return 'unmapped';
+  const testIssueId = mapper.getTestIssueId(task.id);
+  if (!testIssueId) return 'unmapped';
+
+  const edited = await applyEdit(testIssueId, {
+    title: formatTestTitle(task, config.templates.test.title),
+    description: formatTestDescription(task, config.templates.test.description),
+    priority: config.defaults.priority,
+    labels: testLabels(mapper.getTag(), config),
+    testIssue: true,
+  }, cli, context);
+  return edited ? 'updated' : 'unchanged';
+}
+
+/**
+ * Read every mapped issue of these tasks as it is now, in one bd call where
+ * possible. Issues gone from Beads are left out.
+ */
+export async function fetchCurrentIssues(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+): Promise<Map<string, BeadsIssue>> {
+  const ids: string[] = [];
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) continue;
+    ids.push(epicId);
+    for (const subtask of task.subtasks ?? []) {
+      const childId = mapper.getSubtaskId(task.id, subtask.id);
+      if (childId !== undefined) ids.push(childId);
+    }
+    const testIssueId = mapper.getTestIssueId(task.id);
+    if (testIssueId) ids.push(testIssueId);
+  }
+
+  return (await fetchIssues(ids, cli)).issues;
+}
+
+/**
+ * Edit every already-synced issue in place so it matches tasks.json.
+ * Tasks and subtasks without a mapping are reported rather than created.
+ * Each issue is compared with Beads first, so only fields that differ are
+ * sent and issues that already match are left untouched.
+ */
+export async function updateAllIssues(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  onProgress?: (current: number, total: number) => void,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tiers?: Map<number, number>,
+): Promise<UpdateSummary> {
+  const summary: UpdateSummary = { updated: 0, unmapped: [] };
+  const context: UpdateContext = { tiers, issues: await fetchCurrentIssues(tasks, cli, mapper) };
+  const total = tasks.length;
+
+  for (let i = 0; i < total; i++) {
+    const task = tasks[i];
+
+    const epic = await updateEpic(task, cli, mapper, config, context);
+    if (epic === 'unmapped') {
+      summary.unmapped.push(String(task.id));
+      onProgress?.(i + 1, total);
+      continue;
+    }
+    if (epic === 'updated') summary.updated++;
+
+    const children = await updateChildren(task, cli, mapper, config, context);
+    summary.updated += children.updated;
+    summary.unmapped.push(...children.unmapped);
+
+    if (await updateTestChild(task, cli, mapper, config, context) === 'updated') {
+      summary.updated++;
+    }
+
+    onProgress?.(i + 1, total);
+  }
+
+  return summary;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { resolveConfig } from '../schemas/config.js';
+import {
+  complexityLabel,
+  isManagedLabel,
+  epicLabels,
+  childLabels,
+  testLabels,
+  reconcileLabels,
+} from './labels.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('complexityLabel', () => {
+  it('buckets scores into low, medium and high', () => {
+    expect(complexityLabel(1)).toBe('complexity:low');
+    expect(complexityLabel(3)).toBe('complexity:low');
+    expect(complexityLabel(4)).toBe('complexity:medium');
+    expect(complexityLabel(6)).toBe('complexity:medium');
+    expect(complexityLabel(7)).toBe('complexity:high');
+    expect(complexityLabel(10)).toBe('complexity:high');
+  });
+});
+
+describe('isManagedLabel', () => {
+  it('recognises labels derived by tm2bd', () => {
+    expect(isManagedLabel('tm2bd')).toBe(true);
+    expect(isManagedLabel('test', true)).toBe(true);
+    expect(isManagedLabel('tm:feature')).toBe(true);
+    expect(isManagedLabel('complexity:low')).toBe(true);
+    expect(isManagedLabel('tier:2')).toBe(true);
+  });
+
+  it('leaves other labels alone', () => {
+    expect(isManagedLabel('backend')).toBe(false);
+    expect(isManagedLabel('testing')).toBe(false);
+    expect(isManagedLabel('test')).toBe(false);
+  });
+});
+
+describe('epicLabels', () => {
+  it('includes tag, complexity and tier', () => {
+    expect(epicLabels(makeTask({ complexity: 8 }), 'feature', undefined, 2)).toEqual([
+      'tm2bd',
+      'tm:feature',
+      'complexity:high',
+      'tier:2',
+    ]);
+  });
+
+  it('omits complexity and tier when unknown', () => {
+    expect(epicLabels(makeTask(), 'master')).toEqual(['tm2bd', 'tm:master']);
+  });
+
+  it('appends extra labels from config without duplicates', () => {
+    const config = resolveConfig({ labels: ['backend', 'tm2bd'] });
+    expect(epicLabels(makeTask(), 'master', config)).toEqual(['tm2bd', 'tm:master', 'backend']);
+  });
+});
+
+describe('childLabels and testLabels', () => {
+  it('label test issues as tests', () => {
+    const config = resolveConfig({ labels: ['backend'] });
+    expect(childLabels('master', config)).toEqual(['tm2bd', 'tm:master', 'backend']);
+    expect(testLabels('master', config)).toEqual(['tm2bd', 'tm:master', 'test', 'backend']);
+  });
+});
+
+describe('reconcileLabels', () => {
+  it('adds every desired label when the current ones are unknown', () => {
+    expect(reconcileLabels(['tm2bd', 'tier:0'])).toEqual({ addLabels: ['tm2bd', 'tier:0'] });
+  });
+
+  it('adds missing labels and removes stale managed ones only', () => {
+    const changes = reconcileLabels(
+      ['tm2bd', 'tm:master', 'tier:1'],
+      ['tm2bd', 'tier:0', 'complexity:low', 'backend'],
+    );
+
+    expect(changes).toEqual({
+      addLabels: ['tm:master', 'tier:1'],
+      removeLabels: ['tier:0', 'complexity:low'],
+    });
+  });
+
+  it('returns no changes when labels already match', () => {
+    expect(reconcileLabels(['tm2bd'], ['tm2bd', 'backend'])).toEqual({});
+    expect(reconcileLabels(['tm2bd'], ['tm2bd', 'test'])).toEqual({});
+    expect(reconcileLabels(['tm2bd'], ['tm2bd', 'test'], true)).toEqual({ removeLabels: ['test'] });
+  });
+});
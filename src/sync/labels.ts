@@ -0,0 +1,90 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+
+/** Label on every issue created by tm2bd, for `bd list -l tm2bd`. */
+export const TM2BD_LABEL = 'tm2bd';
+
+/** Label on issues created from a task's test strategy. */
+export const TEST_LABEL = 'test';
+
+const MANAGED_PREFIXES = ['tm:', 'complexity:', 'tier:'];
+
+/**
+ * Facts about a run that the task itself does not carry.
+ */
+export interface LabelContext {
+  /** Dependency tier of each task, as assigned by topologicalSort. */
+  tiers?: Map<number, number>;
+}
+
+export interface LabelChanges {
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+/**
+ * Bucket a 1-10 complexity score: 1-3 low, 4-6 medium, 7-10 high.
+ */
+export function complexityLabel(complexity: number): string {
+  if (complexity >= 7) return 'complexity:high';
+  if (complexity >= 4) return 'complexity:medium';
+  return 'complexity:low';
+}
+
+/**
+ * Whether tm2bd derives this label itself, and may therefore remove it again.
+ * Extra labels from config or --label are never removed. The plain `test`
+ * label is only tm2bd's on test issues; on epics and children it was added
+ * by someone else.
+ */
+export function isManagedLabel(label: string, testIssue = false): boolean {
+  return label === TM2BD_LABEL
+    || (testIssue && label === TEST_LABEL)
+    || MANAGED_PREFIXES.some(prefix => label.startsWith(prefix));
+}
+
+function withExtras(labels: string[], config: SyncConfig): string[] {
+  return [...new Set([...labels, ...config.labels])];
+}
+
+export function epicLabels(
+  task: TaskMasterTask,
+  tag: string,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tier?: number,
+): string[] {
+  const labels = [TM2BD_LABEL, `tm:${tag}`];
+  if (task.complexity !== undefined) {
+    labels.push(complexityLabel(task.complexity));
+  }
+  if (tier !== undefined) {
+    labels.push(`tier:${tier}`);
+  }
+  return withExtras(labels, config);
+}
+
+export function childLabels(tag: string, config: SyncConfig = DEFAULT_SYNC_CONFIG): string[] {
+  return withExtras([TM2BD_LABEL, `tm:${tag}`], config);
+}
+
+export function testLabels(tag: string, config: SyncConfig = DEFAULT_SYNC_CONFIG): string[] {
+  return withExtras([TM2BD_LABEL, `tm:${tag}`, TEST_LABEL], config);
+}
+
+/**
+ * Work out the label edits that bring an issue to `desired`. Without the
+ * current labels every desired label is (re-)added and nothing is removed.
+ */
+export function reconcileLabels(desired: string[], current?: string[], testIssue = false): LabelChanges {
+  if (current === undefined) {
+    return desired.length > 0 ? { addLabels: desired } : {};
+  }
+
+  const changes: LabelChanges = {};
+  const addLabels = desired.filter(label => !current.includes(label));
+  const removeLabels = current.filter(label => isManagedLabel(label, testIssue) && !desired.includes(label));
+  if (addLabels.length > 0) changes.addLabels = addLabels;
+  if (removeLabels.length > 0) changes.removeLabels = removeLabels;
+  return changes;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import { createEpics } from './epic-creator.js';
+import { createAllChildren } from './child-creator.js';
+import { createAllTestChildren } from './test-creator.js';
+import { wireAllDependencies } from './dependency-wirer.js';
+import { verifyMapping, repairMapping } from './mapping-verifier.js';
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/** Task 1 with two subtasks and a test issue; task 2 depends on task 1. */
+async function syncedFixture() {
+  const tracker = new InMemoryTracker();
+  const mapper = new IdMapper();
+  const tasks = [
+    makeTask({
+      id: 1,
+      title: 'Task 1',
+      testStrategy: 'Run the suite',
+      subtasks: [makeSubtask({ id: 1 }), makeSubtask({ id: 2, dependencies: [1] })],
+    }),
+    makeTask({ id: 2, title: 'Task 2', dependencies: [1] }),
+  ];
+  await createEpics(tasks, tracker, mapper);
+  await createAllChildren(tasks, tracker, mapper);
+  await createAllTestChildren(tasks, tracker, mapper);
+  await wireAllDependencies(tasks, tracker, mapper);
+  return { tracker, mapper, tasks };
+}
+
+describe('verifyMapping', () => {
+  it('finds nothing wrong right after a sync', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+
+    const report = await verifyMapping(tasks, tracker, mapper);
+
+    expect(report).toEqual({ tag: 'master', checked: 5, problems: [] });
+  });
+
+  it('reports deleted issues and whether they can be recreated', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    await tracker.deleteIssue(mapper.getSubtaskId(1, 1)!);
+    await tracker.deleteIssue(mapper.getEpicId(2)!);
+
+    const report = await verifyMapping([tasks[0]], tracker, mapper);
+
+    expect(report.problems.map(p => [p.kind, p.ref, p.repairable])).toEqual([
+      ['missing', '1.1', true],
+      ['missing', '2', false],
+    ]);
+    expect(report.problems[1].message).toBe('mem-2 no longer exists in Beads and the item is gone from tasks.json');
+  });
+
+  it('reports re-parented children, wrong types, missing dependencies and duplicates', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    const epic2 = mapper.getEpicId(2)!;
+    const child2 = mapper.getSubtaskId(1, 2)!;
+    await tracker.updateIssue(child2, { parent: epic2 });
+    await tracker.deleteIssue(mapper.getTestIssueId(1)!);
+    tracker.addIssue({ id: 'stray', title: 'Test', status: 'open', issue_type: 'bug', parentId: mapper.getEpicId(1) });
+    mapper.setTestIssueId(1, 'stray');
+    mapper.forTag('other').addEpic(7, epic2);
+
+    const report = await verifyMapping(tasks, tracker, mapper);
+
+    expect(report.problems.map(p => `${p.kind} ${p.ref}: ${p.message}`)).toEqual([
+      `wrong_parent 1.2: ${child2} is under ${epic2}, expected epic mem-1`,
+      'wrong_type 1 (test): stray is a bug, expected task',
+      'missing_dependency 1 (test): stray does not depend on 1.1 (mem-3)',
+      `missing_dependency 1 (test): stray does not depend on 1.2 (${child2})`,
+      `duplicate 2: ${epic2} is mapped to more than one Task-Master item`,
+    ]);
+    expect(report.problems.find(p => p.kind === 'wrong_type')!.repairable).toBe(false);
+  });
+});
+
+describe('repairMapping', () => {
+  it('recreates a deleted epic and re-links its children and dependents', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    const oldEpic = mapper.getEpicId(1)!;
+    await tracker.deleteIssue(oldEpic);
+
+    const actions = await repairMapping(tasks, tracker, mapper);
+
+    const newEpic = mapper.getEpicId(1)!;
+    expect(newEpic).not.toBe(oldEpic);
+    expect(actions.map(a => `${a.kind} ${a.ref}`)).toEqual([
+      'recreated 1',
+      'reparented 1.1',
+      'reparented 1.2',
+      'reparented 1 (test)',
+      'dependency 2',
+    ]);
+    expect((await tracker.showIssue(mapper.getSubtaskId(1, 1)!)).parent).toBe(newEpic);
+    expect(tracker.getDependencies(mapper.getEpicId(2)!)).toEqual([newEpic]);
+    expect((await verifyMapping(tasks, tracker, mapper)).problems).toEqual([]);
+  });
+
+  it('recreates deleted children and test issues under their epic', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    await tracker.deleteIssue(mapper.getSubtaskId(1, 1)!);
+    await tracker.deleteIssue(mapper.getTestIssueId(1)!);
+
+    const actions = await repairMapping(tasks, tracker, mapper);
+
+    expect(actions.map(a => `${a.kind} ${a.ref}`)).toEqual([
+      'recreated 1.1',
+      'recreated 1 (test)',
+      'dependency 1.2',
+      'dependency 1 (test)',
+      'dependency 1 (test)',
+    ]);
+    expect((await tracker.showIssue(mapper.getTestIssueId(1)!)).parent).toBe(mapper.getEpicId(1));
+    expect((await verifyMapping(tasks, tracker, mapper)).problems).toEqual([]);
+  });
+
+  it('leaves problems it cannot fix alone', async () => {
+    const { tracker, mapper, tasks } = await syncedFixture();
+    await tracker.deleteIssue(mapper.getEpicId(2)!);
+
+    const actions = await repairMapping([tasks[0]], tracker, mapper);
+
+    expect(actions).toEqual([]);
+    expect(tracker.operations.filter(op => op.kind === 'create')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,275 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { BeadsIssue, IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper, TaskMapping } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { createEpicIssue } from './epic-creator.js';
+import { createChild } from './child-creator.js';
+import { createTestChild } from './test-creator.js';
+import { resolveSubtaskDependency, lookupSubtaskDependency } from './dependency-wirer.js';
+import { fetchIssues } from './drift.js';
+
+/** Issue type bd gives a child created without -t. */
+const DEFAULT_CHILD_TYPE = 'task';
+
+export type VerifyProblemKind =
+  /** The same Beads ID is mapped to more than one item. */
+  | 'duplicate'
+  /** The mapped issue no longer exists in Beads. */
+  | 'missing'
+  /** The issue's type differs from the configured one. */
+  | 'wrong_type'
+  /** A child or test issue is not under its task's epic. */
+  | 'wrong_parent'
+  /** A dependency tasks.json calls for is not in Beads. */
+  | 'missing_dependency';
+
+export type MappedItemKind = 'epic' | 'child' | 'test';
+
+export interface VerifyProblem {
+  kind: VerifyProblemKind;
+  item: MappedItemKind;
+  /** "3" for a task, "3.2" for a subtask, "3 (test)" for a test issue. */
+  ref: string;
+  taskId: number;
+  subtaskId?: number;
+  beadsId: string;
+  /** The epic the issue belongs under, or the issue it should depend on. */
+  expectedId?: string;
+  message: string;
+  /** Whether `repairMapping` knows how to fix it. */
+  repairable: boolean;
+}
+
+export interface VerifyReport {
+  tag: string;
+  /** Number of mapped issues checked. */
+  checked: number;
+  problems: VerifyProblem[];
+}
+
+export interface RepairAction {
+  kind: 'recreated' | 'reparented' | 'dependency';
+  ref: string;
+  beadsId: string;
+  message: string;
+}
+
+/** One issue recorded in the mapping and what Beads should say about it. */
+interface MappedItem {
+  kind: MappedItemKind;
+  ref: string;
+  beadsId: string;
+  taskId: number;
+  subtaskId?: number;
+  /** The epic a child or test issue should be under. */
+  parentId?: string;
+}
+
+function mappedItems(mapping: TaskMapping): MappedItem[] {
+  const taskId = mapping.tmId;
+  return [
+    { kind: 'epic', ref: `${taskId}`, beadsId: mapping.beadsId, taskId },
+    ...mapping.subtasks.map((s): MappedItem => ({
+      kind: 'child',
+      ref: `${taskId}.${s.tmId}`,
+      beadsId: s.beadsId,
+      taskId,
+      subtaskId: s.tmId,
+      parentId: mapping.beadsId,
+    })),
+    ...(mapping.testIssueId
+      ? [{ kind: 'test', ref: `${taskId} (test)`, beadsId: mapping.testIssueId, taskId, parentId: mapping.beadsId } as MappedItem]
+      : []),
+  ];
+}
+
+function expectedType(kind: MappedItemKind, config: SyncConfig): string {
+  switch (kind) {
+    case 'epic':
+      return config.issueTypes.epic;
+    case 'child':
+      return config.issueTypes.child ?? DEFAULT_CHILD_TYPE;
+    case 'test':
+      return config.issueTypes.test ?? DEFAULT_CHILD_TYPE;
+  }
+}
+
+/** Whether tasks.json still has the item, so a missing issue can be recreated. */
+function stillInTasks(item: MappedItem, task: TaskMasterTask | undefined): boolean {
+  if (!task) return false;
+  switch (item.kind) {
+    case 'epic':
+      return true;
+    case 'child':
+      return (task.subtasks ?? []).some(s => s.id === item.subtaskId);
+    case 'test':
+      return Boolean(task.testStrategy);
+  }
+}
+
+/**
+ * The `blocks` dependencies tasks.json calls for, keyed by the blocked Beads
+ * ID. Dependencies on items that are not mapped are left out.
+ */
+function expectedDependencies(tasks: TaskMasterTask[], mapper: IdMapper): Map<string, string[]> {
+  const expected = new Map<string, string[]>();
+  const add = (blockedId: string | undefined, blockingIds: (string | undefined)[]) => {
+    if (blockedId === undefined) return;
+    const ids = blockingIds.filter((id): id is string => id !== undefined);
+    if (ids.length > 0) expected.set(blockedId, ids);
+  };
+
+  for (const task of tasks) {
+    add(mapper.getEpicId(task.id), task.dependencies.map(depId => mapper.getEpicId(depId)));
+    for (const subtask of task.subtasks ?? []) {
+      add(
+        mapper.getSubtaskId(task.id, subtask.id),
+        (subtask.dependencies ?? []).map(ref =>
+          lookupSubtaskDependency(resolveSubtaskDependency(ref, task), task.id, mapper),
+        ),
+      );
+    }
+    add(
+      mapper.getTestIssueId(task.id),
+      (task.subtasks ?? []).map(s => mapper.getSubtaskId(task.id, s.id)),
+    );
+  }
+  return expected;
+}
+
+/**
+ * Check every issue the mapping records for one tag against Beads: that it
+ * exists, has the configured type, sits under its task's epic and carries
+ * the dependencies tasks.json calls for. Nothing is changed.
+ */
+export async function verifyMapping(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<VerifyReport> {
+  const items = mapper.getTaskMappings().flatMap(mappedItems);
+  const { issues, missing } = await fetchIssues([...new Set(items.map(i => i.beadsId))], cli);
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const dependencies = expectedDependencies(tasks, mapper);
+  const refs = new Map(items.map(item => [item.beadsId, item.ref]));
+
+  // Count IDs across every tag; two tags sharing an issue is corruption too
+  const uses = new Map<string, number>();
+  for (const tag of mapper.getTags()) {
+    for (const mapping of mapper.forTag(tag).getTaskMappings()) {
+      for (const item of mappedItems(mapping)) {
+        uses.set(item.beadsId, (uses.get(item.beadsId) ?? 0) + 1);
+      }
+    }
+  }
+
+  const problems: VerifyProblem[] = [];
+  for (const item of items) {
+    const { kind: itemKind, ref, taskId, subtaskId, beadsId } = item;
+    const problem = (kind: VerifyProblemKind, message: string, repairable: boolean, expectedId?: string) =>
+      problems.push({ kind, item: itemKind, ref, taskId, subtaskId, beadsId, expectedId, message, repairable });
+
+    if ((uses.get(item.beadsId) ?? 0) > 1) {
+      problem('duplicate', `${item.beadsId} is mapped to more than one Task-Master item`, false);
+    }
+
+    const issue: BeadsIssue | undefined = issues.get(item.beadsId);
+    if (missing.has(item.beadsId) || !issue) {
+      const recreatable = stillInTasks(item, tasksById.get(item.taskId));
+      problem(
+        'missing',
+        `${item.beadsId} no longer exists in Beads${recreatable ? '' : ' and the item is gone from tasks.json'}`,
+        recreatable,
+      );
+      continue;
+    }
+
+    const type = expectedType(item.kind, config);
+    if (issue.issue_type !== undefined && issue.issue_type !== type) {
+      problem('wrong_type', `${item.beadsId} is a ${issue.issue_type}, expected ${type}`, false);
+    }
+
+    if (item.parentId !== undefined && issue.parent !== item.parentId) {
+      problem(
+        'wrong_parent',
+        issue.parent === undefined
+          ? `${item.beadsId} has no parent, expected epic ${item.parentId}`
+          : `${item.beadsId} is under ${issue.parent}, expected epic ${item.parentId}`,
+        !missing.has(item.parentId),
+        item.parentId,
+      );
+    }
+
+    const blockedBy = new Set(issue.blockedBy ?? []);
+    for (const blockingId of dependencies.get(item.beadsId) ?? []) {
+      if (blockedBy.has(blockingId) || missing.has(blockingId)) continue;
+      problem(
+        'missing_dependency',
+        `${item.beadsId} does not depend on ${refs.get(blockingId) ?? blockingId} (${blockingId})`,
+        true,
+        blockingId,
+      );
+    }
+  }
+
+  return { tag: mapper.getTag(), checked: items.length, problems };
+}
+
+/**
+ * Fix what `verifyMapping` reports as repairable for one tag: recreate
+ * issues that were deleted from Beads and update the mapping to match, then
+ * move children back under their epics and add missing dependencies.
+ * Duplicates and wrong types are left for the user to sort out.
+ */
+export async function repairMapping(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  tiers?: Map<number, number>,
+): Promise<RepairAction[]> {
+  const actions: RepairAction[] = [];
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+
+  // Recreate epics first so recreated children land under the new epic
+  const before = await verifyMapping(tasks, cli, mapper, config);
+  const missing = before.problems.filter(p => p.kind === 'missing' && p.repairable);
+  for (const problem of missing.filter(p => p.item === 'epic')) {
+    const task = tasksById.get(problem.taskId)!;
+    const epicId = await createEpicIssue(task, cli, mapper.getTag(), config, tiers?.get(task.id));
+    mapper.setEpicId(task.id, epicId);
+    await mapper.checkpoint();
+    actions.push({ kind: 'recreated', ref: problem.ref, beadsId: epicId, message: `replaces ${problem.beadsId}` });
+  }
+  for (const problem of missing.filter(p => p.item !== 'epic')) {
+    const task = tasksById.get(problem.taskId)!;
+    const epicId = mapper.getEpicId(task.id)!;
+    let beadsId: string | null;
+    if (problem.item === 'test') {
+      mapper.removeTestIssueId(task.id);
+      beadsId = await createTestChild(task, epicId, cli, mapper, config);
+    } else {
+      const subtask = task.subtasks!.find(s => s.id === problem.subtaskId)!;
+      mapper.removeSubtask(task.id, subtask.id);
+      beadsId = await createChild(task, subtask, epicId, cli, mapper, config);
+    }
+    actions.push({ kind: 'recreated', ref: problem.ref, beadsId: beadsId!, message: `replaces ${problem.beadsId}` });
+  }
+
+  // Recreated issues change what the rest should point at, so look again
+  const after = missing.length > 0 ? await verifyMapping(tasks, cli, mapper, config) : before;
+  for (const problem of after.problems.filter(p => p.repairable)) {
+    if (problem.kind === 'wrong_parent') {
+      await cli.updateIssue(problem.beadsId, { parent: problem.expectedId });
+      actions.push({ kind: 'reparented', ref: problem.ref, beadsId: problem.beadsId, message: `moved under ${problem.expectedId}` });
+    } else if (problem.kind === 'missing_dependency') {
+      await cli.addDependency(problem.beadsId, problem.expectedId!);
+      mapper.recordDependency(problem.beadsId, problem.expectedId!);
+      actions.push({ kind: 'dependency', ref: problem.ref, beadsId: problem.beadsId, message: `now depends on ${problem.expectedId}` });
+    }
+  }
+
+  return actions;
+}
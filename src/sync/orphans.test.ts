@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { BeadsNotFoundError } from '../beads/errors.js';
+import { findOrphans, applyOrphanPolicy, ORPHAN_LABEL } from './orphans.js';
+
+function createMockCli() {
+  return {
+    updateIssue: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    deleteIssue: vi.fn().mockResolvedValue(undefined),
+  } as any;
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/** Task 1 with subtasks 1.1 and 1.2, task 2 with a test issue and subtask 2.1. */
+function buildMapper(): IdMapper {
+  const mapper = new IdMapper();
+  mapper.addEpic(1, 'epic-1');
+  mapper.addSubtask(1, 1, 'child-1.1');
+  mapper.addSubtask(1, 2, 'child-1.2');
+  mapper.addEpic(2, 'epic-2');
+  mapper.addSubtask(2, 1, 'child-2.1');
+  mapper.setTestIssueId(2, 'test-2');
+  return mapper;
+}
+
+// Task 2 and subtask 1.2 were removed
+const remaining = [
+  makeTask({ id: 1, subtasks: [{ id: 1, title: 'S', description: '', status: 'pending' }] }),
+];
+
+describe('findOrphans', () => {
+  it('lists removed subtasks and removed tasks with everything under them', () => {
+    const orphans = findOrphans(remaining, buildMapper());
+
+    expect(orphans.map(o => [o.kind, o.ref, o.beadsId])).toEqual([
+      ['child', '1.2', 'child-1.2'],
+      ['test', '2 (test)', 'test-2'],
+      ['child', '2.1', 'child-2.1'],
+      ['epic', '2', 'epic-2'],
+    ]);
+  });
+
+  it('finds nothing when every mapped item is still in tasks.json', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'epic-1');
+
+    expect(findOrphans([makeTask({ id: 1 })], mapper)).toEqual([]);
+  });
+});
+
+describe('applyOrphanPolicy', () => {
+  it('changes nothing with the ignore policy', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+
+    const actions = await applyOrphanPolicy(findOrphans(remaining, mapper), cli, mapper, 'ignore', 'gone');
+
+    expect(actions).toEqual([]);
+    expect(cli.close).not.toHaveBeenCalled();
+    expect(mapper.getEpicId(2)).toBe('epic-2');
+  });
+
+  it('closes orphans with the reason and cleans up the mapping', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+
+    await applyOrphanPolicy(findOrphans(remaining, mapper), cli, mapper, 'close', 'Removed from Task-Master');
+
+    expect(cli.close.mock.calls).toEqual([
+      ['child-1.2', 'Removed from Task-Master'],
+      ['test-2', 'Removed from Task-Master'],
+      ['child-2.1', 'Removed from Task-Master'],
+      ['epic-2', 'Removed from Task-Master'],
+    ]);
+    expect(cli.deleteIssue).not.toHaveBeenCalled();
+    expect(mapper.getSubtaskId(1, 2)).toBeUndefined();
+    expect(mapper.getSubtaskId(1, 1)).toBe('child-1.1');
+    expect(mapper.getEpicId(2)).toBeUndefined();
+  });
+
+  it('labels orphans without closing them', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+
+    await applyOrphanPolicy(findOrphans(remaining, mapper), cli, mapper, 'label', 'gone');
+
+    expect(cli.updateIssue).toHaveBeenCalledTimes(4);
+    expect(cli.updateIssue).toHaveBeenCalledWith('epic-2', { addLabels: [ORPHAN_LABEL] });
+    expect(cli.close).not.toHaveBeenCalled();
+  });
+
+  it('deletes orphans and only forgets the ones already gone from Beads', async () => {
+    const cli = createMockCli();
+    cli.deleteIssue.mockImplementation(async (id: string) => {
+      if (id === 'test-2') throw new BeadsNotFoundError('Issue not found', { args: ['delete', id], stderr: '' });
+    });
+    const mapper = buildMapper();
+
+    const actions = await applyOrphanPolicy(findOrphans(remaining, mapper), cli, mapper, 'delete', 'gone');
+
+    expect(actions.map(a => a.outcome)).toEqual(['deleted', 'missing', 'deleted', 'deleted']);
+    expect(mapper.getStats()).toEqual({ epicCount: 1, childCount: 1, testIssueCount: 0 });
+  });
+
+  it('stops on other errors and keeps the failed item mapped', async () => {
+    const cli = createMockCli();
+    cli.close.mockRejectedValueOnce(new Error('database is locked'));
+    const mapper = buildMapper();
+
+    await expect(
+      applyOrphanPolicy(findOrphans(remaining, mapper), cli, mapper, 'close', 'gone'),
+    ).rejects.toThrow('database is locked');
+    expect(mapper.getSubtaskId(1, 2)).toBe('child-1.2');
+  });
+});
@@ -0,0 +1,106 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import type { OrphanPolicy } from '../schemas/config.js';
+import { isNotFound } from './drift.js';
+
+/** Label the label policy puts on orphaned issues. */
+export const ORPHAN_LABEL = 'tm2bd:orphaned';
+
+/** A mapped issue whose task or subtask is no longer in tasks.json. */
+export interface Orphan {
+  kind: 'epic' | 'child' | 'test';
+  /** "3" for a task, "3.2" for a subtask, "3 (test)" for a test issue. */
+  ref: string;
+  taskId: number;
+  subtaskId?: number;
+  beadsId: string;
+}
+
+export interface OrphanAction extends Orphan {
+  /** What happened to the issue; `missing` when it was already gone from Beads. */
+  outcome: 'closed' | 'labelled' | 'deleted' | 'missing';
+}
+
+/**
+ * List the mapped issues of one tag whose task or subtask was removed from
+ * tasks.json. A removed task brings its children and test issue with it;
+ * they come before their epic so it can be deleted last.
+ */
+export function findOrphans(tasks: TaskMasterTask[], mapper: IdMapper): Orphan[] {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const orphans: Orphan[] = [];
+
+  for (const mapping of mapper.getTaskMappings()) {
+    const taskId = mapping.tmId;
+    const task = tasksById.get(taskId);
+    const subtaskIds = new Set((task?.subtasks ?? []).map(s => s.id));
+
+    if (!task && mapping.testIssueId) {
+      orphans.push({ kind: 'test', ref: `${taskId} (test)`, taskId, beadsId: mapping.testIssueId });
+    }
+    for (const subtask of mapping.subtasks) {
+      if (subtaskIds.has(subtask.tmId)) continue;
+      orphans.push({
+        kind: 'child',
+        ref: `${taskId}.${subtask.tmId}`,
+        taskId,
+        subtaskId: subtask.tmId,
+        beadsId: subtask.beadsId,
+      });
+    }
+    if (!task) {
+      orphans.push({ kind: 'epic', ref: `${taskId}`, taskId, beadsId: mapping.beadsId });
+    }
+  }
+  return orphans;
+}
+
+/**
+ * Close, label or delete each orphaned issue as the policy says, then drop
+ * it from the mapping and checkpoint. Issues already gone from Beads are
+ * only dropped from the mapping. The ignore policy changes nothing, so the
+ * orphans keep showing up in `tm2bd status`.
+ */
+export async function applyOrphanPolicy(
+  orphans: Orphan[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  policy: OrphanPolicy,
+  reason: string,
+): Promise<OrphanAction[]> {
+  if (policy === 'ignore') return [];
+
+  const actions: OrphanAction[] = [];
+  for (const orphan of orphans) {
+    let outcome: OrphanAction['outcome'];
+    try {
+      switch (policy) {
+        case 'close':
+          await cli.close(orphan.beadsId, reason);
+          outcome = 'closed';
+          break;
+        case 'label':
+          await cli.updateIssue(orphan.beadsId, { addLabels: [ORPHAN_LABEL] });
+          outcome = 'labelled';
+          break;
+        case 'delete':
+          await cli.deleteIssue(orphan.beadsId);
+          outcome = 'deleted';
+          break;
+      }
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      outcome = 'missing';
+    }
+
+    if (orphan.kind === 'epic') {
+      mapper.removeTask(orphan.taskId);
+    } else if (orphan.kind === 'child') {
+      mapper.removeSubtask(orphan.taskId, orphan.subtaskId!);
+    }
+    await mapper.checkpoint();
+    actions.push({ ...orphan, outcome });
+  }
+  return actions;
+}
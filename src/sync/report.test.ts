@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import { RecordingTracker } from '../tracker/recording-tracker.js';
+import { beadsCommandError } from '../beads/errors.js';
+import { SyncReporter, SYNC_REPORT_VERSION } from './report.js';
+import { createEpics } from './epic-creator.js';
+import { createAllChildren } from './child-creator.js';
+import { createAllTestChildren } from './test-creator.js';
+import { wireAllDependencies } from './dependency-wirer.js';
+import { syncAllStatuses } from './status-syncer.js';
+import { buildSyncPlan } from './sync-plan.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('SyncReporter', () => {
+  it('reports operations with their Task-Master IDs, counts and timings', async () => {
+    const mapper = new IdMapper();
+    const tracker = new RecordingTracker(new InMemoryTracker());
+    const reporter = new SyncReporter(mapper, true);
+    const tasks = [
+      makeTask({ id: 1, status: 'done' }),
+      makeTask({
+        id: 2,
+        dependencies: [1],
+        testStrategy: 'Check it',
+        subtasks: [{ id: 1, title: 'Sub', description: '', status: 'pending' }],
+      }),
+    ];
+
+    const tag = reporter.startTag('master', 2, 1);
+    reporter.recordSkipped(tasks, mapper);
+    await reporter.phase(tag, 'epics', () => createEpics(tasks, tracker, mapper));
+    await reporter.phase(tag, 'children', () => createAllChildren(tasks, tracker, mapper));
+    await reporter.phase(tag, 'tests', () => createAllTestChildren(tasks, tracker, mapper));
+    await reporter.phase(tag, 'dependencies', () => wireAllDependencies(tasks, tracker, mapper));
+    await reporter.phase(tag, 'statuses', () => syncAllStatuses(tasks, tracker, mapper));
+
+    const report = reporter.build(tracker.operations, mapper);
+
+    expect(report).toMatchObject({
+      version: SYNC_REPORT_VERSION,
+      command: 'sync',
+      success: true,
+      dryRun: true,
+      summary: {
+        created: { epics: 2, children: 1, tests: 1 },
+        skipped: { epics: 0, children: 0, tests: 0 },
+        dependencies: 2,
+        statusChanges: 1,
+      },
+      stats: { epicCount: 2, childCount: 1, testIssueCount: 1 },
+      skipped: [],
+      errors: [],
+    });
+    expect(report.tags[0].phases.map(p => p.name)).toEqual(['epics', 'children', 'tests', 'dependencies', 'statuses']);
+    expect(report.operations[2]).toMatchObject({
+      type: 'create',
+      beadsId: 'mem-3',
+      item: { kind: 'child', tag: 'master', tmId: '2.1' },
+    });
+    expect(report.operations.find(op => op.type === 'dependency')).toMatchObject({
+      item: { kind: 'epic', tmId: '2' },
+      blockingItem: { kind: 'epic', tmId: '1' },
+    });
+    expect(report.operations.find(op => op.type === 'status')).toMatchObject({
+      item: { tmId: '1' },
+      status: 'closed',
+    });
+  });
+
+  it('lists items that were already mapped as skipped', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addSubtask(1, 1, 'bd-1.1');
+    const reporter = new SyncReporter(mapper, false);
+
+    reporter.recordSkipped([
+      makeTask({ id: 1, subtasks: [{ id: 1, title: 'Sub', description: '', status: 'pending' }] }),
+    ], mapper);
+    const report = reporter.build([], mapper);
+
+    expect(report.skipped).toEqual([
+      { kind: 'epic', tag: 'master', tmId: '1', beadsId: 'bd-1' },
+      { kind: 'child', tag: 'master', tmId: '1.1', beadsId: 'bd-1.1' },
+    ]);
+    expect(report.summary.created).toEqual({ epics: 0, children: 0, tests: 0 });
+  });
+
+  it('reports each aggregated error with the bd command that failed', () => {
+    const mapper = new IdMapper();
+    const reporter = new SyncReporter(mapper, false);
+    const locked = beadsCommandError({ args: ['create', 'Epic'], exitCode: 1, stderr: 'database is locked' });
+
+    reporter.recordError(new AggregateError([locked, new Error('other')], '2 operations failed'));
+    const report = reporter.build([], mapper);
+
+    expect(report.success).toBe(false);
+    expect(report.errors).toEqual([
+      {
+        message: 'bd create failed (exit code 1): database is locked',
+        kind: 'locked',
+        command: 'bd create Epic',
+        exitCode: 1,
+        stderr: 'database is locked',
+      },
+      { message: 'other' },
+    ]);
+  });
+
+  it('keeps the report shape for a dry run and embeds the plan', async () => {
+    const mapper = new IdMapper();
+    const tasks = [
+      makeTask({ id: 1, status: 'done' }),
+      makeTask({ id: 2, dependencies: [1] }),
+    ];
+    const reporter = new SyncReporter(mapper, true);
+    reporter.startTag('master', 2, 0);
+    reporter.recordSkipped(tasks, mapper);
+
+    const plan = await buildSyncPlan(new Map([['master', { tasks }]]), mapper, DEFAULT_SYNC_CONFIG, new InMemoryTracker());
+    reporter.recordPlan(plan);
+    const report = reporter.build([], mapper);
+
+    expect(report).toMatchObject({
+      version: SYNC_REPORT_VERSION,
+      command: 'sync',
+      dryRun: true,
+      summary: {
+        created: { epics: 2, children: 0, tests: 0 },
+        dependencies: 1,
+        statusChanges: 1,
+      },
+      operations: [],
+      plan,
+    });
+  });
+});
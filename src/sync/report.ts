@@ -0,0 +1,281 @@
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import type { RecordedOperation } from '../tracker/recording-tracker.js';
+import { BeadsCommandError } from '../beads/errors.js';
+import type { BeadsErrorKind } from '../beads/errors.js';
+import { summarizeSyncPlan } from './sync-plan.js';
+import type { SyncPlan } from './sync-plan.js';
+
+/**
+ * Machine-readable record of one `tm2bd sync` run, printed by `--json` and
+ * written by `--report <file>`. The schema is versioned: fields are only
+ * ever added within a version, and `version` changes when one is removed or
+ * changes meaning.
+ */
+export const SYNC_REPORT_VERSION = 1;
+
+export type ReportItemKind = 'epic' | 'child' | 'test';
+
+/** A Task-Master item and the Beads issue it maps to. */
+export interface ReportItem {
+  kind: ReportItemKind;
+  tag: string;
+  /** "3" for task 3 and its test issue, "3.2" for subtask 2 of task 3. */
+  tmId: string;
+  beadsId: string;
+}
+
+export interface ReportOperation {
+  /** Closing an issue is reported as a status change to "closed". */
+  type: 'create' | 'dependency' | 'remove_dependency' | 'status' | 'update' | 'delete' | 'import';
+  startedAt: string;
+  durationMs: number;
+  /** The issue created, changed or (for dependencies) blocked. */
+  beadsId?: string;
+  /** The Task-Master item behind `beadsId`, when it is in the mapping. */
+  item?: Omit<ReportItem, 'beadsId'>;
+  title?: string;
+  blockingBeadsId?: string;
+  blockingItem?: Omit<ReportItem, 'beadsId'>;
+  status?: string;
+  /** For imports: the issues the batch created. */
+  beadsIds?: string[];
+}
+
+export interface ReportError {
+  message: string;
+  /** Set when the error came from a bd call. */
+  kind?: BeadsErrorKind;
+  command?: string;
+  exitCode?: number;
+  stderr?: string;
+}
+
+export interface TagReport {
+  tag: string;
+  taskCount: number;
+  subtaskCount: number;
+  durationMs: number;
+  /** Time spent in each pipeline step, in the order they ran. */
+  phases: { name: string; durationMs: number }[];
+}
+
+export interface ItemCounts {
+  epics: number;
+  children: number;
+  tests: number;
+}
+
+export interface SyncReport {
+  version: typeof SYNC_REPORT_VERSION;
+  command: 'sync';
+  success: boolean;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  tags: TagReport[];
+  summary: {
+    created: ItemCounts;
+    skipped: ItemCounts;
+    dependencies: number;
+    removedDependencies: number;
+    statusChanges: number;
+  };
+  /** `IdMapper.getStats` after the run, across every tag in the mapping. */
+  stats: { epicCount: number; childCount: number; testIssueCount: number };
+  /** The calls made to bd; a dry run makes none. */
+  operations: ReportOperation[];
+  /**
+   * For a dry run, the plan it printed, as `tm2bd plan` saves it. The
+   * summary then counts what the plan would do.
+   */
+  plan?: SyncPlan;
+  /** Items that were already in the mapping and left alone. */
+  skipped: ReportItem[];
+  errors: ReportError[];
+}
+
+/** Every mapped item, keyed by Beads ID. */
+function indexMapping(mapper: IdMapper): Map<string, ReportItem> {
+  const index = new Map<string, ReportItem>();
+  for (const tag of mapper.getTags()) {
+    for (const task of mapper.forTag(tag).getTaskMappings()) {
+      const tmId = String(task.tmId);
+      index.set(task.beadsId, { kind: 'epic', tag, tmId, beadsId: task.beadsId });
+      for (const subtask of task.subtasks) {
+        index.set(subtask.beadsId, { kind: 'child', tag, tmId: `${tmId}.${subtask.tmId}`, beadsId: subtask.beadsId });
+      }
+      if (task.testIssueId) {
+        index.set(task.testIssueId, { kind: 'test', tag, tmId, beadsId: task.testIssueId });
+      }
+    }
+  }
+  return index;
+}
+
+function countItems(items: ReportItem[]): ItemCounts {
+  return {
+    epics: items.filter(i => i.kind === 'epic').length,
+    children: items.filter(i => i.kind === 'child').length,
+    tests: items.filter(i => i.kind === 'test').length,
+  };
+}
+
+function toReportError(error: unknown): ReportError[] {
+  if (error instanceof AggregateError) {
+    return error.errors.flatMap(toReportError);
+  }
+  if (error instanceof BeadsCommandError) {
+    return [{
+      message: error.message,
+      kind: error.kind,
+      command: error.command,
+      exitCode: error.exitCode,
+      stderr: error.stderr,
+    }];
+  }
+  return [{ message: error instanceof Error ? error.message : String(error) }];
+}
+
+/**
+ * Collects timings, skipped items and errors while a sync runs, then turns
+ * them and the recorded tracker operations into a SyncReport.
+ */
+export class SyncReporter {
+  private readonly startedAt = new Date();
+  private readonly dryRun: boolean;
+  private readonly existingIds: Set<string>;
+  private readonly tags: TagReport[] = [];
+  private readonly skipped: ReportItem[] = [];
+  private readonly errors: ReportError[] = [];
+  private plan?: SyncPlan;
+
+  /** `mapper` is read now to tell items this run creates from existing ones. */
+  constructor(mapper: IdMapper, dryRun: boolean) {
+    this.dryRun = dryRun;
+    this.existingIds = mapper.getBeadsIds();
+  }
+
+  startTag(tag: string, taskCount: number, subtaskCount: number): TagReport {
+    const report: TagReport = { tag, taskCount, subtaskCount, durationMs: 0, phases: [] };
+    this.tags.push(report);
+    return report;
+  }
+
+  /** Run one pipeline step and add its duration to the tag's report. */
+  async phase<T>(tag: TagReport, name: string, run: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      return await run();
+    } finally {
+      const durationMs = Date.now() - started;
+      tag.phases.push({ name, durationMs });
+      tag.durationMs += durationMs;
+    }
+  }
+
+  /** Note the items of `tasks` that are already mapped and will be skipped. */
+  recordSkipped(tasks: TaskMasterTask[], mapper: IdMapper): void {
+    const tag = mapper.getTag();
+    for (const task of tasks) {
+      const epicId = mapper.getEpicId(task.id);
+      if (epicId !== undefined) {
+        this.skipped.push({ kind: 'epic', tag, tmId: String(task.id), beadsId: epicId });
+      }
+      for (const subtask of task.subtasks ?? []) {
+        const childId = mapper.getSubtaskId(task.id, subtask.id);
+        if (childId !== undefined) {
+          this.skipped.push({ kind: 'child', tag, tmId: `${task.id}.${subtask.id}`, beadsId: childId });
+        }
+      }
+      const testId = task.testStrategy ? mapper.getTestIssueId(task.id) : undefined;
+      if (testId !== undefined) {
+        this.skipped.push({ kind: 'test', tag, tmId: String(task.id), beadsId: testId });
+      }
+    }
+  }
+
+  /** Record the plan a dry run worked out instead of running it. */
+  recordPlan(plan: SyncPlan): void {
+    this.plan = plan;
+  }
+
+  /** Record a failure; aggregated errors are reported one by one. */
+  recordError(error: unknown): void {
+    this.errors.push(...toReportError(error));
+  }
+
+  build(operations: RecordedOperation[], mapper: IdMapper): SyncReport {
+    const finishedAt = new Date();
+    const index = indexMapping(mapper);
+    const itemOf = (beadsId: string) => {
+      const item = index.get(beadsId);
+      if (!item) return undefined;
+      const { beadsId: _beadsId, ...rest } = item;
+      return rest;
+    };
+
+    const created = [...index.values()].filter(item => !this.existingIds.has(item.beadsId));
+    const createdByCall = new Set(
+      operations.flatMap(({ operation }) => (operation.kind === 'create' ? [operation.id] : [])),
+    );
+
+    const reportOperations = operations.map(({ operation, startedAt, durationMs }): ReportOperation => {
+      const base = { startedAt: startedAt.toISOString(), durationMs };
+      switch (operation.kind) {
+        case 'create':
+          return { type: 'create', ...base, beadsId: operation.id, item: itemOf(operation.id), title: operation.title };
+        case 'dependency':
+        case 'remove_dependency':
+          return {
+            type: operation.kind,
+            ...base,
+            beadsId: operation.blockedId,
+            item: itemOf(operation.blockedId),
+            blockingBeadsId: operation.blockingId,
+            blockingItem: itemOf(operation.blockingId),
+          };
+        case 'status':
+          return { type: 'status', ...base, beadsId: operation.id, item: itemOf(operation.id), status: operation.status };
+        case 'close':
+          return { type: 'status', ...base, beadsId: operation.id, item: itemOf(operation.id), status: 'closed' };
+        case 'update':
+          return { type: 'update', ...base, beadsId: operation.id, item: itemOf(operation.id) };
+        case 'delete':
+          return { type: 'delete', ...base, beadsId: operation.id, item: itemOf(operation.id) };
+        case 'import':
+          return {
+            type: 'import',
+            ...base,
+            beadsIds: created.map(item => item.beadsId).filter(id => !createdByCall.has(id)),
+          };
+      }
+    });
+
+    const planned = this.plan ? summarizeSyncPlan(this.plan) : undefined;
+    return {
+      version: SYNC_REPORT_VERSION,
+      command: 'sync',
+      success: this.errors.length === 0,
+      dryRun: this.dryRun,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+      tags: this.tags,
+      summary: {
+        created: planned?.created ?? countItems(created),
+        skipped: countItems(this.skipped),
+        dependencies: planned?.addedDependencies ?? reportOperations.filter(op => op.type === 'dependency').length,
+        removedDependencies: planned?.removedDependencies
+          ?? reportOperations.filter(op => op.type === 'remove_dependency').length,
+        statusChanges: planned?.statuses ?? reportOperations.filter(op => op.type === 'status').length,
+      },
+      stats: mapper.getStats(),
+      operations: reportOperations,
+      ...(this.plan ? { plan: this.plan } : {}),
+      skipped: this.skipped,
+      errors: this.errors,
+    };
+  }
+}
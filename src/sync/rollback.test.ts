@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { planRollback, executeRollback, ROLLBACK_CLOSE_REASON } from './rollback.js';
+
+function createMockCli() {
+  return {
+    createEpic: vi.fn().mockResolvedValue({ id: 'epic-1', title: 'Test' }),
+    createChild: vi.fn().mockResolvedValue({ id: 'child-1', title: 'Test' }),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    deleteIssue: vi.fn().mockResolvedValue(undefined),
+    checkInit: vi.fn().mockResolvedValue(true),
+  } as any;
+}
+
+function buildMapper(): IdMapper {
+  const mapper = new IdMapper();
+  mapper.addEpic(1, 'epic-1');
+  mapper.addSubtask(1, 1, 'child-1.1');
+  mapper.addSubtask(1, 2, 'child-1.2');
+  mapper.setTestIssueId(1, 'test-1');
+  mapper.addEpic(2, 'epic-2');
+  mapper.addSubtask(2, 1, 'child-2.1');
+  return mapper;
+}
+
+describe('planRollback', () => {
+  it('orders dependents first and children before their epic', () => {
+    const actions = planRollback(buildMapper());
+
+    expect(actions.map(a => a.beadsId)).toEqual([
+      'child-2.1',
+      'epic-2',
+      'test-1',
+      'child-1.2',
+      'child-1.1',
+      'epic-1',
+    ]);
+    expect(actions.map(a => a.label)).toEqual(['2.1', '2', '1 (test)', '1.2', '1.1', '1']);
+  });
+
+  it('follows the recorded dependencies rather than task IDs', () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addEpic(2, 'epic-2');
+    mapper.addSubtask(2, 1, 'child-2.1');
+    mapper.addEpic(3, 'epic-3');
+    // Task 1 depends on task 2, which depends on task 3
+    mapper.recordDependency('epic-1', 'epic-2');
+    mapper.recordDependency('epic-2', 'epic-3');
+
+    expect(planRollback(mapper).map(a => a.beadsId)).toEqual(['epic-1', 'child-2.1', 'epic-2', 'epic-3']);
+  });
+
+  it('limits the plan to the given task IDs', () => {
+    const actions = planRollback(buildMapper(), [2]);
+
+    expect(actions.map(a => a.beadsId)).toEqual(['child-2.1', 'epic-2']);
+  });
+
+  it('only covers the mapper tag', () => {
+    const mapper = buildMapper();
+    mapper.forTag('feature').addEpic(1, 'feature-epic-1');
+
+    expect(planRollback(mapper.forTag('feature')).map(a => a.beadsId)).toEqual(['feature-epic-1']);
+  });
+});
+
+describe('executeRollback', () => {
+  it('deletes every issue and drops torn-down tasks from the mapping', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+    const actions = planRollback(mapper, [2]);
+
+    const progressCalls: Array<[number, number]> = [];
+    await executeRollback(actions, cli, mapper, 'delete', (current, total) => {
+      progressCalls.push([current, total]);
+    });
+
+    expect(cli.deleteIssue.mock.calls.map((c: string[]) => c[0])).toEqual(['child-2.1', 'epic-2']);
+    expect(cli.close).not.toHaveBeenCalled();
+    expect(mapper.getEpicId(2)).toBeUndefined();
+    expect(mapper.getEpicId(1)).toBe('epic-1');
+    expect(progressCalls).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('closes issues with a reason in close mode', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+
+    await executeRollback(planRollback(mapper, [2]), cli, mapper, 'close');
+
+    expect(cli.close).toHaveBeenCalledWith('child-2.1', ROLLBACK_CLOSE_REASON);
+    expect(cli.close).toHaveBeenCalledWith('epic-2', ROLLBACK_CLOSE_REASON);
+    expect(cli.deleteIssue).not.toHaveBeenCalled();
+  });
+
+  it('keeps a task mapped when tearing it down fails', async () => {
+    const cli = createMockCli();
+    const mapper = buildMapper();
+    cli.deleteIssue.mockImplementation(async (id: string) => {
+      if (id === 'epic-2') throw new Error('database locked');
+    });
+
+    await expect(
+      executeRollback(planRollback(mapper, [2]), cli, mapper, 'delete'),
+    ).rejects.toThrow('database locked');
+    expect(mapper.getEpicId(2)).toBe('epic-2');
+  });
+
+  it('checkpoints a migrated mapping file that a full rollback archived', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rollback-test-'));
+    try {
+      const filePath = path.join(dir, 'map.json');
+      await fs.writeFile(filePath, JSON.stringify({
+        version: '1.0',
+        generatedAt: '2024-01-01T00:00:00.000Z',
+        tasks: [
+          { tmId: 1, beadsId: 'epic-1', type: 'epic', subtasks: [] },
+          { tmId: 2, beadsId: 'epic-2', type: 'epic', subtasks: [] },
+        ],
+      }), 'utf-8');
+      const mapper = await IdMapper.load(filePath);
+      const archivePath = await IdMapper.archive(filePath);
+      mapper.enableCheckpoints(filePath);
+      const cli = createMockCli();
+
+      await executeRollback(planRollback(mapper), cli, mapper, 'delete');
+
+      expect(cli.deleteIssue.mock.calls.map((c: string[]) => c[0])).toEqual(['epic-2', 'epic-1']);
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).tasks).toEqual([]);
+      expect(JSON.parse(await fs.readFile(archivePath, 'utf-8')).version).toBe('1.0');
+      expect(await IdMapper.exists(mapper.getMigration()!.backupPath)).toBe(false);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
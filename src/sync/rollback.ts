@@ -0,0 +1,75 @@
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+
+export type RollbackMode = 'delete' | 'close';
+
+export interface RollbackAction {
+  tmId: number;
+  label: string;
+  beadsId: string;
+  kind: 'epic' | 'child' | 'test';
+}
+
+export const ROLLBACK_CLOSE_REASON = 'Rolled back by tm2bd';
+
+/**
+ * List the issues to tear down for one tag, in reverse dependency order.
+ * Task order comes from the dependencies tm2bd recorded between epics, so
+ * dependents are handled before the tasks they depend on. Within a task,
+ * the test issue and children go before their epic.
+ */
+export function planRollback(mapper: IdMapper, only?: number[]): RollbackAction[] {
+  const scope = only ? new Set(only) : undefined;
+  const actions: RollbackAction[] = [];
+
+  const mappings = mapper.getTaskMappings().filter(t => !scope || scope.has(t.tmId));
+  const tmIds = new Map(mappings.map(t => [t.beadsId, t.tmId]));
+  const sorted = topologicalSort(mappings.map(mapping => ({
+    id: mapping.tmId,
+    dependencies: (mapping.dependsOn ?? [])
+      .map(beadsId => tmIds.get(beadsId))
+      .filter((tmId): tmId is number => tmId !== undefined),
+    mapping,
+  })));
+  for (const { task: { mapping: task } } of sorted.reverse()) {
+    if (task.testIssueId) {
+      actions.push({ tmId: task.tmId, label: `${task.tmId} (test)`, beadsId: task.testIssueId, kind: 'test' });
+    }
+    for (const subtask of [...task.subtasks].reverse()) {
+      actions.push({ tmId: task.tmId, label: `${task.tmId}.${subtask.tmId}`, beadsId: subtask.beadsId, kind: 'child' });
+    }
+    actions.push({ tmId: task.tmId, label: String(task.tmId), beadsId: task.beadsId, kind: 'epic' });
+  }
+
+  return actions;
+}
+
+/**
+ * Delete or close every planned issue. Once all issues of a task are gone
+ * the task is dropped from the mapping and checkpointed, so a failed rollback
+ * can be re-run without touching the tasks that were already torn down.
+ */
+export async function executeRollback(
+  actions: RollbackAction[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  mode: RollbackMode,
+  onProgress?: (current: number, total: number, action: RollbackAction) => void,
+): Promise<void> {
+  const total = actions.length;
+  for (let i = 0; i < total; i++) {
+    const action = actions[i];
+    if (mode === 'delete') {
+      await cli.deleteIssue(action.beadsId);
+    } else {
+      await cli.close(action.beadsId, ROLLBACK_CLOSE_REASON);
+    }
+
+    if (action.kind === 'epic') {
+      mapper.removeTask(action.tmId);
+      await mapper.checkpoint();
+    }
+    onProgress?.(i + 1, total, action);
+  }
+}
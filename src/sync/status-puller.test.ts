@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import type { TaskMasterTask, TaskMasterSubtask } from '../schemas/taskmaster.js';
+import {
+  mapBeadsStatus,
+  collectStatusChanges,
+  applyStatusChanges,
+  writeStatusChanges,
+} from './status-puller.js';
+import type { StatusChange } from './status-puller.js';
+import { resolveConfig } from '../schemas/config.js';
+import { BeadsNotFoundError } from '../beads/errors.js';
+
+function createMockCli() {
+  return {
+    createEpic: vi.fn().mockResolvedValue({ id: 'epic-1', title: 'Test' }),
+    createChild: vi.fn().mockResolvedValue({ id: 'child-1', title: 'Test' }),
+    addDependency: vi.fn().mockResolvedValue(undefined),
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    showIssue: vi.fn(),
+    showIssues: vi.fn().mockResolvedValue([]),
+    checkInit: vi.fn().mockResolvedValue(true),
+  } as any;
+}
+
+function createMockMapper(tag = 'master') {
+  const epics = new Map<number, string>();
+  const subtasks = new Map<string, string>();
+  return {
+    addEpic: vi.fn((tmId: number, beadsId: string) => epics.set(tmId, beadsId)),
+    addSubtask: vi.fn((taskId: number, subId: number, beadsId: string) => subtasks.set(`${taskId}.${subId}`, beadsId)),
+    getEpicId: vi.fn((tmId: number) => epics.get(tmId)),
+    getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
+    getTag: vi.fn(() => tag),
+  } as any;
+}
+
+function makeSubtask(overrides: Partial<TaskMasterSubtask> = {}): TaskMasterSubtask {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('mapBeadsStatus', () => {
+  it('maps closed to done', () => {
+    expect(mapBeadsStatus('closed')).toBe('done');
+  });
+
+  it('maps in_progress to in-progress', () => {
+    expect(mapBeadsStatus('in_progress')).toBe('in-progress');
+  });
+
+  it('maps deferred to deferred', () => {
+    expect(mapBeadsStatus('deferred')).toBe('deferred');
+  });
+
+  it('maps open to pending', () => {
+    expect(mapBeadsStatus('open')).toBe('pending');
+  });
+
+  it('returns undefined for statuses without an equivalent', () => {
+    expect(mapBeadsStatus('blocked')).toBeUndefined();
+  });
+
+  it('inverts a configured status map', () => {
+    const statusMap = resolveConfig({ statusMap: { deferred: { status: 'blocked', close: false } } }).statusMap;
+    expect(mapBeadsStatus('blocked', statusMap)).toBe('deferred');
+    expect(mapBeadsStatus('deferred', statusMap)).toBeUndefined();
+  });
+});
+
+describe('collectStatusChanges', () => {
+  it('reports only items whose Beads status differs', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.addEpic(1, 'epic-1');
+    mapper.addSubtask(1, 1, 'child-1');
+    mapper.addSubtask(1, 2, 'child-2');
+    mapper.addEpic(2, 'epic-2');
+
+    cli.showIssues.mockResolvedValue([
+      { id: 'epic-1', title: 'A', status: 'in_progress' },
+      { id: 'child-1', title: 'A1', status: 'closed' },
+      { id: 'child-2', title: 'A2', status: 'open' },
+      { id: 'epic-2', title: 'B', status: 'blocked' },
+    ]);
+
+    const tasks = [
+      makeTask({
+        id: 1,
+        title: 'A',
+        subtasks: [makeSubtask({ id: 1, title: 'A1' }), makeSubtask({ id: 2, title: 'A2' })],
+      }),
+      makeTask({ id: 2, title: 'B' }),
+      makeTask({ id: 3, title: 'Unmapped' }),
+    ];
+
+    const { changes, skipped } = await collectStatusChanges(tasks, cli, mapper);
+
+    expect(cli.showIssues).toHaveBeenCalledWith(['epic-1', 'child-1', 'child-2', 'epic-2']);
+    expect(changes).toEqual([
+      { tag: 'master', taskId: 1, title: 'A', from: 'pending', to: 'in-progress' },
+      { tag: 'master', taskId: 1, subtaskId: 1, title: 'A1', from: 'pending', to: 'done' },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('reads statuses in batches and skips issues gone from Beads', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    const tasks = Array.from({ length: 150 }, (_, i) => makeTask({ id: i + 1, title: `T${i + 1}` }));
+    for (const task of tasks) mapper.addEpic(task.id, `epic-${task.id}`);
+
+    cli.showIssues.mockImplementation(async (ids: string[]) => {
+      if (ids.includes('epic-120')) {
+        throw new BeadsNotFoundError('bd show failed', { args: ['show'], stderr: 'not found' });
+      }
+      return ids.map(id => ({ id, title: id, status: 'open' }));
+    });
+    cli.showIssue.mockImplementation(async (id: string) => {
+      if (id === 'epic-120') {
+        throw new BeadsNotFoundError('bd show failed', { args: ['show', id], stderr: 'not found' });
+      }
+      return { id, title: id, status: id === 'epic-130' ? 'closed' : 'open' };
+    });
+
+    const { changes, skipped } = await collectStatusChanges(tasks, cli, mapper);
+
+    expect(cli.showIssues).toHaveBeenCalledTimes(2);
+    expect(cli.showIssues.mock.calls[0][0]).toHaveLength(100);
+    expect(changes).toEqual([
+      { tag: 'master', taskId: 130, title: 'T130', from: 'pending', to: 'done' },
+    ]);
+    expect(skipped).toEqual([
+      { tag: 'master', taskId: 120, title: 'T120', beadsId: 'epic-120' },
+    ]);
+  });
+});
+
+describe('applyStatusChanges', () => {
+  it('updates tasks and subtasks in a tagged document and keeps unknown fields', () => {
+    const json = {
+      master: {
+        tasks: [
+          { id: 1, status: 'pending', custom: 'keep', subtasks: [{ id: 1, status: 'pending' }] },
+        ],
+        metadata: { updated: 'yesterday' },
+      },
+      feature: { tasks: [{ id: 1, status: 'pending' }] },
+    };
+    const changes: StatusChange[] = [
+      { tag: 'master', taskId: 1, title: 'A', from: 'pending', to: 'done' },
+      { tag: 'master', taskId: 1, subtaskId: 1, title: 'A1', from: 'pending', to: 'in-progress' },
+    ];
+
+    const applied = applyStatusChanges(json, changes);
+
+    expect(applied).toBe(2);
+    expect(json.master.tasks[0].status).toBe('done');
+    expect(json.master.tasks[0].custom).toBe('keep');
+    expect(json.master.tasks[0].subtasks[0].status).toBe('in-progress');
+    expect(json.master.metadata).toEqual({ updated: 'yesterday' });
+    expect(json.feature.tasks[0].status).toBe('pending');
+  });
+
+  it('updates legacy untagged documents for the master tag', () => {
+    const json = { tasks: [{ id: 4, status: 'pending' }] };
+
+    applyStatusChanges(json, [{ tag: 'master', taskId: 4, title: 'D', from: 'pending', to: 'deferred' }]);
+
+    expect(json.tasks[0].status).toBe('deferred');
+  });
+});
+
+describe('writeStatusChanges', () => {
+  const tempFiles: string[] = [];
+
+  afterEach(async () => {
+    for (const f of tempFiles) {
+      await fs.unlink(f).catch(() => {});
+    }
+    tempFiles.length = 0;
+  });
+
+  it('rewrites the file keeping its indentation and trailing newline', async () => {
+    const filePath = path.join(os.tmpdir(), `status-puller-test-${Date.now()}.json`);
+    tempFiles.push(filePath);
+    const original = { master: { tasks: [{ id: 1, title: 'A', status: 'pending' }] } };
+    await fs.writeFile(filePath, JSON.stringify(original, null, 4) + '\n', 'utf-8');
+
+    const applied = await writeStatusChanges(filePath, [
+      { tag: 'master', taskId: 1, title: 'A', from: 'pending', to: 'done' },
+    ]);
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    expect(applied).toBe(1);
+    expect(content).toBe(
+      JSON.stringify({ master: { tasks: [{ id: 1, title: 'A', status: 'done' }] } }, null, 4) + '\n',
+    );
+  });
+});
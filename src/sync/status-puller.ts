@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import { DEFAULT_TAG } from '../schemas/taskmaster.js';
+import type { TaskMasterTask, TaskMasterStatus } from '../schemas/taskmaster.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { StatusAction, SyncConfig } from '../schemas/config.js';
+import { fetchIssues } from './drift.js';
+
+export interface StatusChange {
+  tag: string;
+  taskId: number;
+  subtaskId?: number;
+  title: string;
+  from: TaskMasterStatus;
+  to: TaskMasterStatus;
+}
+
+/** A mapped task or subtask whose issue is gone from Beads. */
+export interface SkippedStatus {
+  tag: string;
+  taskId: number;
+  subtaskId?: number;
+  title: string;
+  beadsId: string;
+}
+
+export interface StatusPull {
+  changes: StatusChange[];
+  skipped: SkippedStatus[];
+}
+
+/** The Beads status a Task-Master status maps to. */
+export function beadsStatusFor(action: StatusAction): string {
+  return action.close ? 'closed' : action.status ?? 'open';
+}
+
+/**
+ * Inverse of mapStatus: translate a Beads status back to a Task-Master status.
+ * Returns undefined for Beads statuses with no Task-Master equivalent
+ * (e.g. blocked), which leaves the task untouched. When several Task-Master
+ * statuses map to the same Beads status, the first one in the map wins.
+ */
+export function mapBeadsStatus(
+  bdStatus: string,
+  statusMap: SyncConfig['statusMap'] = DEFAULT_SYNC_CONFIG.statusMap,
+): TaskMasterStatus | undefined {
+  for (const [tmStatus, action] of Object.entries(statusMap) as Array<[TaskMasterStatus, StatusAction]>) {
+    if (beadsStatusFor(action) === bdStatus) {
+      return tmStatus;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Query Beads for every mapped task and subtask, in batches, and return the
+ * statuses that differ from tasks.json. Unmapped items are ignored; mapped
+ * items whose issue is gone from Beads are returned as skipped.
+ */
+export async function collectStatusChanges(
+  tasks: TaskMasterTask[],
+  cli: IssueTracker,
+  mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+): Promise<StatusPull> {
+  const issueIds: string[] = [];
+  for (const task of tasks) {
+    const epicId = mapper.getEpicId(task.id);
+    if (epicId === undefined) continue;
+    issueIds.push(epicId);
+    for (const subtask of task.subtasks ?? []) {
+      const childId = mapper.getSubtaskId(task.id, subtask.id);
+      if (childId !== undefined) issueIds.push(childId);
+    }
+  }
+
+  const { issues, missing } = await fetchIssues(issueIds, cli);
+
+  const changes: StatusChange[] = [];
+  const skipped: SkippedStatus[] = [];
+  const tag = mapper.getTag();
+
+  const compare = (
+    beadsId: string | undefined,
+    current: TaskMasterStatus,
+    change: Omit<StatusChange, 'from' | 'to' | 'tag'>,
+  ) => {
+    if (beadsId === undefined) return;
+    if (missing.has(beadsId)) {
+      skipped.push({ tag, ...change, beadsId });
+      return;
+    }
+    const bdStatus = issues.get(beadsId)?.status;
+    if (bdStatus === undefined) return;
+    // Already in sync, even if the inverse mapping would pick another status
+    if (beadsStatusFor(config.statusMap[current]) === bdStatus) return;
+    const next = mapBeadsStatus(bdStatus, config.statusMap);
+    if (next !== undefined && next !== current) {
+      changes.push({ tag, ...change, from: current, to: next });
+    }
+  };
+
+  for (const task of tasks) {
+    compare(mapper.getEpicId(task.id), task.status, { taskId: task.id, title: task.title });
+    for (const subtask of task.subtasks ?? []) {
+      compare(mapper.getSubtaskId(task.id, subtask.id), subtask.status, {
+        taskId: task.id,
+        subtaskId: subtask.id,
+        title: subtask.title,
+      });
+    }
+  }
+
+  return { changes, skipped };
+}
+
+type RawItem = { id?: unknown; status?: unknown; subtasks?: unknown };
+
+function findRawTasks(json: unknown, tag: string): RawItem[] | undefined {
+  const record = json as Record<string, unknown>;
+  if (Array.isArray(record.tasks)) {
+    return tag === DEFAULT_TAG ? (record.tasks as RawItem[]) : undefined;
+  }
+  const tagged = record[tag] as { tasks?: unknown } | undefined;
+  return Array.isArray(tagged?.tasks) ? (tagged.tasks as RawItem[]) : undefined;
+}
+
+/**
+ * Apply status changes to a raw (unvalidated) tasks.json document in place.
+ * Working on the raw document rather than the zod-parsed project keeps every
+ * field tm2bd does not know about. Returns the number of statuses changed.
+ */
+export function applyStatusChanges(json: unknown, changes: StatusChange[]): number {
+  let applied = 0;
+
+  for (const change of changes) {
+    const task = findRawTasks(json, change.tag)?.find(t => t.id === change.taskId);
+    if (!task) continue;
+
+    let target: RawItem | undefined = task;
+    if (change.subtaskId !== undefined) {
+      const subtasks = Array.isArray(task.subtasks) ? (task.subtasks as RawItem[]) : [];
+      target = subtasks.find(s => s.id === change.subtaskId);
+    }
+    if (!target) continue;
+
+    target.status = change.to;
+    applied++;
+  }
+
+  return applied;
+}
+
+/**
+ * Rewrite tasks.json with the given status changes, keeping its indentation,
+ * key order, trailing newline and all unknown fields.
+ */
+export async function writeStatusChanges(filePath: string, changes: StatusChange[]): Promise<number> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const json: unknown = JSON.parse(content);
+  const applied = applyStatusChanges(json, changes);
+  if (applied === 0) return 0;
+
+  const indentMatch = content.match(/^[ \t]+(?=")/m);
+  const indent = indentMatch ? indentMatch[0] : 2;
+  const trailingNewline = content.endsWith('\n') ? '\n' : '';
+  await fs.writeFile(filePath, JSON.stringify(json, null, indent) + trailingNewline, 'utf-8');
+  return applied;
+}
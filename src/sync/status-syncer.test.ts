@@ -6,6 +6,7 @@ import {
   syncSubtaskStatus,
   syncAllStatuses,
 } from './status-syncer.js';
+import { resolveConfig } from '../schemas/config.js';
 
 function createMockCli() {
   return {
@@ -29,6 +30,7 @@ function createMockMapper() {
     getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
     setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
     getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -74,6 +76,11 @@ describe('mapStatus', () => {
   it('maps unknown status to no action', () => {
     expect(mapStatus('unknown-status')).toEqual({ close: false });
   });
+
+  it('uses a configured status map', () => {
+    const statusMap = resolveConfig({ statusMap: { deferred: { close: true } } }).statusMap;
+    expect(mapStatus('deferred', statusMap)).toEqual({ close: true });
+  });
 });
 
 describe('syncEpicStatus', () => {
@@ -1,33 +1,34 @@
 import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import type { BeadsCli } from '../beads/cli.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
 import type { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
 
-export function mapStatus(tmStatus: string): { status?: string; close: boolean } {
-  switch (tmStatus) {
-    case 'pending':
-      return { close: false };
-    case 'in-progress':
-      return { status: 'in_progress', close: false };
-    case 'done':
-      return { close: true };
-    case 'deferred':
-      return { status: 'deferred', close: false };
-    default:
-      return { close: false };
+export function mapStatus(
+  tmStatus: string,
+  statusMap: SyncConfig['statusMap'] = DEFAULT_SYNC_CONFIG.statusMap,
+): { status?: string; close: boolean } {
+  const action = Object.hasOwn(statusMap, tmStatus)
+    ? statusMap[tmStatus as keyof SyncConfig['statusMap']]
+    : undefined;
+  if (!action) {
+    return { close: false };
   }
+  return action.status ? { status: action.status, close: action.close } : { close: action.close };
 }
 
 export async function syncEpicStatus(
   task: TaskMasterTask,
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
 ): Promise<void> {
   const epicId = mapper.getEpicId(task.id);
   if (!epicId) {
     throw new Error(`No beads epic found for task ${task.id}`);
   }
 
-  const mapped = mapStatus(task.status);
+  const mapped = mapStatus(task.status, config.statusMap);
 
   if (mapped.close) {
     await cli.close(epicId);
@@ -39,8 +40,9 @@ export async function syncEpicStatus(
 
 export async function syncSubtaskStatus(
   task: TaskMasterTask,
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
 ): Promise<void> {
   if (!task.subtasks) {
     return;
@@ -52,7 +54,7 @@ export async function syncSubtaskStatus(
       continue;
     }
 
-    const mapped = mapStatus(subtask.status);
+    const mapped = mapStatus(subtask.status, config.statusMap);
 
     if (mapped.close) {
       await cli.close(subtaskId);
@@ -64,11 +66,12 @@ export async function syncSubtaskStatus(
 
 export async function syncAllStatuses(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
 ): Promise<void> {
   for (const task of tasks) {
-    await syncEpicStatus(task, cli, mapper);
-    await syncSubtaskStatus(task, cli, mapper);
+    await syncEpicStatus(task, cli, mapper, config);
+    await syncSubtaskStatus(task, cli, mapper, config);
   }
 }
@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskMasterProject, TaskMasterTask } from '../schemas/taskmaster.js';
+import { DEFAULT_SYNC_CONFIG } from '../schemas/config.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import { hashSubtask, hashTask } from './content-hash.js';
+import { recordLastSynced, settleConflicts, taskFields } from './conflicts.js';
+import { syncAllStatuses } from './status-syncer.js';
+import {
+  applySyncPlan,
+  buildSyncPlan,
+  parseSyncPlan,
+  summarizeSyncPlan,
+  SyncPlanError,
+} from './sync-plan.js';
+import type { SyncPlan } from './sync-plan.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/** Task 1 (in progress, with a test strategy and two subtasks) and task 2, which depends on it. */
+function buildTasks(): TaskMasterTask[] {
+  return [
+    makeTask({
+      id: 1,
+      title: 'Build API',
+      status: 'in-progress',
+      testStrategy: 'Call every endpoint',
+      subtasks: [
+        { id: 1, title: 'Routes', description: '', status: 'done' },
+        { id: 2, title: 'Handlers', description: '', status: 'pending', dependencies: [1] },
+      ],
+    }),
+    makeTask({ id: 2, title: 'Build UI', dependencies: [1] }),
+  ];
+}
+
+function projectsOf(tasks: TaskMasterTask[]): Map<string, TaskMasterProject> {
+  return new Map([['master', { tasks }]]);
+}
+
+/** What each step does, without titles and descriptions. */
+function outline(plan: SyncPlan): string[] {
+  return plan.steps.map((step) => {
+    switch (step.op) {
+      case 'create_epic': return `${step.op} ${step.item}`;
+      case 'create_child':
+      case 'create_test': return `${step.op} ${step.item} under ${step.parent.beadsId ?? step.parent.item}`;
+      case 'add_dependency':
+      case 'remove_dependency':
+        return `${step.op} ${step.blocked.beadsId ?? step.blocked.item} on ${step.blocking.beadsId ?? step.blocking.item}`;
+      case 'set_status': return `${step.op} ${step.issue.beadsId ?? step.issue.item} ${step.status}`;
+      case 'update_issue': return `${step.op} ${step.issue.beadsId} ${step.title ?? ''}`.trimEnd();
+      case 'close':
+      case 'orphan': return `${step.op} ${step.issue.beadsId ?? step.issue.item}`;
+    }
+  });
+}
+
+describe('buildSyncPlan', () => {
+  it('plans every issue, dependency and status of a first sync', async () => {
+    const plan = await buildSyncPlan(projectsOf(buildTasks()), new IdMapper(), DEFAULT_SYNC_CONFIG, new InMemoryTracker());
+
+    expect(outline(plan)).toEqual([
+      'create_epic 1',
+      'create_epic 2',
+      'create_child 1.1 under 1',
+      'create_child 1.2 under 1',
+      'create_test 1 (test) under 1',
+      'add_dependency 1.2 on 1.1',
+      'add_dependency 1 (test) on 1.1',
+      'add_dependency 1 (test) on 1.2',
+      'add_dependency 2 on 1',
+      'set_status 1 in_progress',
+      'close 1.1',
+    ]);
+    expect(plan.steps[0]).toMatchObject({
+      tag: 'master',
+      title: 'Build API',
+      type: 'epic',
+      priority: 1,
+      labels: ['tm2bd', 'tm:master', 'tier:0'],
+      contentHash: hashTask(buildTasks()[0]),
+    });
+    expect(plan.steps[0]).toHaveProperty('description', expect.stringContaining('Call every endpoint'));
+    expect(summarizeSyncPlan(plan)).toEqual({
+      created: { epics: 2, children: 2, tests: 1 },
+      addedDependencies: 4,
+      removedDependencies: 0,
+      statuses: 2,
+      updates: 0,
+      orphans: 0,
+    });
+  });
+
+  it('only plans what differs from the issues already in Beads', async () => {
+    const source = new InMemoryTracker();
+    source.addIssue({ id: 'bd-1', title: 'Build API', status: 'in_progress' });
+    source.addIssue({ id: 'bd-3', title: 'Unrelated', status: 'open' });
+    // 2 on 1 is still wanted; tm2bd added 2 on 1.1, which left tasks.json;
+    // 2 on bd-3 and 1 on 2 were added by hand
+    source.addIssue({ id: 'bd-2', title: 'Build UI', status: 'open', blockedBy: ['bd-1', 'bd-1.1', 'bd-3'] });
+    source.addIssue({ id: 'bd-1.1', title: 'Routes', status: 'closed', parent: 'bd-1', blockedBy: ['bd-2'] });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addSubtask(1, 1, 'bd-1.1');
+    mapper.addEpic(2, 'bd-2');
+    mapper.recordDependency('bd-2', 'bd-1.1');
+
+    const plan = await buildSyncPlan(projectsOf(buildTasks()), mapper, DEFAULT_SYNC_CONFIG, source);
+
+    expect(outline(plan)).toEqual([
+      'create_child 1.2 under bd-1',
+      'create_test 1 (test) under bd-1',
+      'add_dependency 1.2 on bd-1.1',
+      'add_dependency 1 (test) on bd-1.1',
+      'add_dependency 1 (test) on 1.2',
+      'remove_dependency bd-2 on bd-1.1',
+    ]);
+    expect(mapper.getSubtaskId(1, 2)).toBeUndefined();
+    expect(source.operations).toEqual([]);
+  });
+
+  it('lists mapped issues that are gone from Beads and leaves out the steps that touch them', async () => {
+    const source = new InMemoryTracker();
+    source.addIssue({ id: 'bd-1', title: 'Build API', status: 'in_progress' });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addSubtask(1, 1, 'bd-1.1');
+    mapper.addEpic(2, 'bd-2');
+
+    const plan = await buildSyncPlan(projectsOf(buildTasks()), mapper, DEFAULT_SYNC_CONFIG, source);
+
+    expect(plan.missing).toEqual([
+      { tag: 'master', item: '1.1', beadsId: 'bd-1.1' },
+      { tag: 'master', item: '2', beadsId: 'bd-2' },
+    ]);
+    expect(outline(plan)).toEqual([
+      'create_child 1.2 under bd-1',
+      'create_test 1 (test) under bd-1',
+      'add_dependency 1 (test) on 1.2',
+    ]);
+    expect(parseSyncPlan(JSON.parse(JSON.stringify(plan)), 'plan.json')).toEqual(plan);
+  });
+
+  it('settles conflicts with Beads edits the way sync --resume does', async () => {
+    const base = makeTask({ id: 1, title: 'Build API' });
+    const source = new InMemoryTracker();
+    source.addIssue({ id: 'bd-1', ...taskFields(base) });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    recordLastSynced([base], mapper);
+    await source.close('bd-1');
+    await source.updateIssue('bd-1', { title: 'Beads title' });
+    source.operations.length = 0;
+    const tasks = [makeTask({ id: 1, title: 'Task-Master title', status: 'in-progress' })];
+    const config = { ...DEFAULT_SYNC_CONFIG, conflicts: { ...DEFAULT_SYNC_CONFIG.conflicts, title: 'tm-wins' as const } };
+
+    const plan = await buildSyncPlan(projectsOf(tasks), mapper, config, source);
+
+    expect(outline(plan)).toEqual(['update_issue bd-1 Task-Master title']);
+    expect(plan.conflicts).toMatchObject([
+      { tag: 'master', item: '1', beadsId: 'bd-1', field: 'status', outcome: 'reported' },
+      { tag: 'master', item: '1', beadsId: 'bd-1', field: 'title', outcome: 'taskMaster' },
+    ]);
+    expect(tasks[0].status).toBe('in-progress');
+
+    // sync --resume on the same state makes the same changes
+    const resumed = mapper.clone();
+    const settled = await settleConflicts(tasks, source, resumed, config);
+    await syncAllStatuses(tasks, settled.tracker, resumed, config);
+    expect(source.operations).toEqual([{ kind: 'update', id: 'bd-1', edit: { title: 'Task-Master title' } }]);
+  });
+
+  it('plans the orphan policy for items removed from tasks.json', async () => {
+    const source = new InMemoryTracker();
+    source.addIssue({ id: 'bd-1', title: 'Build API', status: 'open' });
+    source.addIssue({ id: 'bd-9', title: 'Gone', status: 'open' });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+    mapper.addEpic(9, 'bd-9');
+    const config = { ...DEFAULT_SYNC_CONFIG, orphans: { policy: 'close' as const, reason: 'Dropped' } };
+
+    const plan = await buildSyncPlan(projectsOf([makeTask({ id: 1 })]), mapper, config, source);
+
+    expect(plan.steps).toEqual([
+      { op: 'orphan', tag: 'master', issue: { item: '9', beadsId: 'bd-9' }, policy: 'close', reason: 'Dropped' },
+    ]);
+  });
+});
+
+describe('applySyncPlan', () => {
+  it('executes the plan and records the created issues and their hashes', async () => {
+    const tasks = buildTasks();
+    const plan = await buildSyncPlan(projectsOf(tasks), new IdMapper(), DEFAULT_SYNC_CONFIG, new InMemoryTracker());
+    const tracker = new InMemoryTracker('bd');
+    const mapper = new IdMapper();
+    const progress: number[] = [];
+
+    await applySyncPlan(plan, tracker, mapper, (_step, current) => progress.push(current));
+
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(mapper.getEpicId(1)).toBe('bd-1');
+    expect(mapper.getSubtaskId(1, 2)).toBe('bd-4');
+    expect(mapper.getTestIssueId(1)).toBe('bd-5');
+    expect(tracker.getDependencies('bd-4')).toEqual(['bd-3']);
+    expect((await tracker.showIssue('bd-1')).status).toBe('in_progress');
+    expect((await tracker.showIssue('bd-3')).status).toBe('closed');
+    expect(mapper.getContentHash(1)).toBe(hashTask(tasks[0]));
+    expect(mapper.getSubtaskContentHash(1, 2)).toBe(hashSubtask(tasks[0].subtasks![1], tasks[0]));
+    expect(mapper.getLastSynced(1)).toEqual({ taskMaster: taskFields(tasks[0]), beads: taskFields(tasks[0]) });
+    expect(mapper.getSubtaskLastSynced(1, 1)?.beads.status).toBe('closed');
+  });
+
+  it('applies update steps to existing issues', async () => {
+    const tracker = new InMemoryTracker();
+    tracker.addIssue({ id: 'bd-1', title: 'Beads title', status: 'open' });
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-1');
+
+    await applySyncPlan({
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      steps: [{ op: 'update_issue', tag: 'master', issue: { item: '1', beadsId: 'bd-1' }, title: 'Task-Master title' }],
+    }, tracker, mapper);
+
+    expect(tracker.operations).toEqual([{ kind: 'update', id: 'bd-1', edit: { title: 'Task-Master title' } }]);
+  });
+
+  it('applies orphan steps and drops the orphans from the mapping', async () => {
+    const tracker = new InMemoryTracker();
+    tracker.addIssue({ id: 'bd-9', title: 'Gone', status: 'open' });
+    const mapper = new IdMapper();
+    mapper.addEpic(9, 'bd-9');
+
+    await applySyncPlan({
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      steps: [{ op: 'orphan', tag: 'master', issue: { item: '9', beadsId: 'bd-9' }, policy: 'delete', reason: 'Gone' }],
+    }, tracker, mapper);
+
+    expect(tracker.operations).toEqual([{ kind: 'delete', id: 'bd-9' }]);
+    expect(mapper.getEpicId(9)).toBeUndefined();
+  });
+
+  it('refuses a plan that no longer matches the mapping before changing anything', async () => {
+    const plan = await buildSyncPlan(projectsOf(buildTasks()), new IdMapper(), DEFAULT_SYNC_CONFIG, new InMemoryTracker());
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    mapper.addEpic(2, 'bd-7');
+
+    await expect(applySyncPlan(plan, tracker, mapper)).rejects.toThrow(SyncPlanError);
+    await expect(applySyncPlan(plan, tracker, mapper)).rejects.toThrow('master 2 is already mapped to bd-7');
+    expect(tracker.operations).toEqual([]);
+  });
+
+  it('refuses a plan whose existing issues are mapped elsewhere now', async () => {
+    const mapper = new IdMapper();
+    mapper.addEpic(1, 'bd-2');
+
+    await expect(applySyncPlan({
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      steps: [{ op: 'close', tag: 'master', issue: { item: '1', beadsId: 'bd-1' } }],
+    }, new InMemoryTracker(), mapper)).rejects.toThrow('master 1 is mapped to bd-2, the plan expects bd-1');
+  });
+});
+
+describe('parseSyncPlan', () => {
+  it('reads back a plan saved as JSON', async () => {
+    const plan = await buildSyncPlan(projectsOf(buildTasks()), new IdMapper(), DEFAULT_SYNC_CONFIG, new InMemoryTracker());
+
+    expect(parseSyncPlan(JSON.parse(JSON.stringify(plan)), 'plan.json')).toEqual(plan);
+  });
+
+  it('rejects plans of another version', () => {
+    expect(() => parseSyncPlan({ version: 2, generatedAt: '', steps: [] }, 'plan.json'))
+      .toThrow('Plan plan.json has version 2, but this tm2bd only applies version 1');
+  });
+
+  it('names every invalid field', () => {
+    const json = {
+      version: 1,
+      generatedAt: '',
+      steps: [
+        { op: 'close', tag: 'master', issue: { item: 'one' } },
+        { op: 'teleport', tag: 'master' },
+      ],
+    };
+
+    expect(() => parseSyncPlan(json, 'plan.json')).toThrow(SyncPlanError);
+    expect(() => parseSyncPlan(json, 'plan.json')).toThrow(/steps\.0\.issue\.item: Expected an item[\s\S]*steps\.1/);
+  });
+});
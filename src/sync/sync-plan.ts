@@ -0,0 +1,589 @@
+import { z } from 'zod';
+import type { TaskMasterProject, TaskMasterTask } from '../schemas/taskmaster.js';
+import { ConflictFieldSchema, ConflictStrategySchema, OrphanPolicySchema } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
+import { InMemoryTracker } from '../tracker/memory-tracker.js';
+import type { TrackerOperation } from '../tracker/memory-tracker.js';
+import type { IdMapper, SyncedFields } from '../mapping/id-mapper.js';
+import { ContentHashSchema } from '../mapping/mapping-file.js';
+import { topologicalSort } from '../utils/topological-sort.js';
+import { createEpics } from './epic-creator.js';
+import { createAllChildren } from './child-creator.js';
+import { createAllTestChildren } from './test-creator.js';
+import { reconcileAllDependencies } from './dependency-wirer.js';
+import { syncAllStatuses } from './status-syncer.js';
+import { applyOrphanPolicy, findOrphans } from './orphans.js';
+import type { Orphan } from './orphans.js';
+import { hashSubtask, hashTask } from './content-hash.js';
+import { fetchIssues } from './drift.js';
+import { settleConflicts } from './conflicts.js';
+import type { ItemCounts } from './report.js';
+
+/**
+ * A sync worked out ahead of time as a list of steps, so it can be reviewed
+ * before anything touches Beads. `tm2bd plan` saves one and `tm2bd apply`
+ * executes exactly its steps, in order.
+ */
+export const SYNC_PLAN_VERSION = 1;
+
+// --- Schemas ---
+
+/** "3" for a task's epic, "3.2" for a subtask's child, "3 (test)" for a test issue. */
+const ItemRefSchema = z.string().regex(/^\d+(\.\d+| \(test\))?$/, 'Expected an item such as "3", "3.2" or "3 (test)"');
+
+/**
+ * An issue a step acts on. `beadsId` is set for issues that already exist;
+ * issues made by an earlier create step of the plan only have their item.
+ */
+export const PlanIssueRefSchema = z.strictObject({
+  item: ItemRefSchema,
+  beadsId: z.string().min(1).optional(),
+});
+
+const CreateFields = {
+  tag: z.string().min(1),
+  item: ItemRefSchema,
+  title: z.string().min(1),
+  description: z.string(),
+  type: z.string().min(1),
+  priority: z.number().int().min(0).max(4),
+  labels: z.array(z.string()),
+};
+
+export const SyncPlanStepSchema = z.discriminatedUnion('op', [
+  z.strictObject({ op: z.literal('create_epic'), ...CreateFields, contentHash: ContentHashSchema }),
+  z.strictObject({
+    op: z.literal('create_child'),
+    ...CreateFields,
+    parent: PlanIssueRefSchema,
+    contentHash: ContentHashSchema,
+  }),
+  z.strictObject({ op: z.literal('create_test'), ...CreateFields, parent: PlanIssueRefSchema }),
+  z.strictObject({
+    op: z.literal('add_dependency'),
+    tag: z.string().min(1),
+    blocked: PlanIssueRefSchema,
+    blocking: PlanIssueRefSchema,
+  }),
+  z.strictObject({
+    op: z.literal('remove_dependency'),
+    tag: z.string().min(1),
+    blocked: PlanIssueRefSchema,
+    blocking: PlanIssueRefSchema,
+  }),
+  z.strictObject({
+    op: z.literal('set_status'),
+    tag: z.string().min(1),
+    issue: PlanIssueRefSchema,
+    status: z.string().min(1),
+  }),
+  z.strictObject({ op: z.literal('close'), tag: z.string().min(1), issue: PlanIssueRefSchema }),
+  z.strictObject({
+    op: z.literal('update_issue'),
+    tag: z.string().min(1),
+    issue: PlanIssueRefSchema.required(),
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    priority: z.number().int().min(0).max(4).optional(),
+  }),
+  z.strictObject({
+    op: z.literal('orphan'),
+    tag: z.string().min(1),
+    issue: PlanIssueRefSchema.required(),
+    policy: OrphanPolicySchema.exclude(['ignore']),
+    reason: z.string().min(1),
+  }),
+]);
+
+/** A mapped issue that is gone from Beads. */
+export const MissingIssueSchema = z.strictObject({
+  tag: z.string().min(1),
+  item: ItemRefSchema,
+  beadsId: z.string().min(1),
+});
+
+/**
+ * A field changed in both tasks.json and Beads since the last sync, and how
+ * the configured strategy resolved it. Steps pushing the tasks.json side are
+ * in the plan; the Beads side is left as it is.
+ */
+export const PlanConflictSchema = z.strictObject({
+  tag: z.string().min(1),
+  item: ItemRefSchema,
+  beadsId: z.string().min(1),
+  field: ConflictFieldSchema,
+  strategy: ConflictStrategySchema,
+  outcome: z.enum(['taskMaster', 'beads', 'reported']),
+  message: z.string(),
+});
+
+export const SyncPlanSchema = z.strictObject({
+  version: z.literal(SYNC_PLAN_VERSION),
+  generatedAt: z.string(),
+  steps: z.array(SyncPlanStepSchema),
+  /** Steps that would touch these issues are left out of the plan. */
+  missing: z.array(MissingIssueSchema).optional(),
+  conflicts: z.array(PlanConflictSchema).optional(),
+});
+
+// --- Types ---
+
+export type PlanIssueRef = z.infer<typeof PlanIssueRefSchema>;
+export type SyncPlanStep = z.infer<typeof SyncPlanStepSchema>;
+export type MissingIssue = z.infer<typeof MissingIssueSchema>;
+export type PlanConflict = z.infer<typeof PlanConflictSchema>;
+export type SyncPlan = z.infer<typeof SyncPlanSchema>;
+
+export interface SyncPlanSummary {
+  created: ItemCounts;
+  addedDependencies: number;
+  removedDependencies: number;
+  /** Status changes and closes. */
+  statuses: number;
+  /** Title, description and priority edits. */
+  updates: number;
+  orphans: number;
+}
+
+/** A plan file that cannot be read, or a plan that no longer fits the mapping. */
+export class SyncPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncPlanError';
+  }
+}
+
+// --- Items ---
+
+interface ItemKey {
+  taskId: number;
+  subtaskId?: number;
+  test: boolean;
+}
+
+function parseItem(item: string): ItemKey {
+  const [, taskId, subtaskId, test] = /^(\d+)(?:\.(\d+))?( \(test\))?$/.exec(item)!;
+  return {
+    taskId: Number(taskId),
+    ...(subtaskId !== undefined ? { subtaskId: Number(subtaskId) } : {}),
+    test: test !== undefined,
+  };
+}
+
+/** The Beads ID an item is mapped to in a tag view of the mapping. */
+function lookupItem(mapper: IdMapper, item: string): string | undefined {
+  const { taskId, subtaskId, test } = parseItem(item);
+  if (test) return mapper.getTestIssueId(taskId);
+  return subtaskId !== undefined ? mapper.getSubtaskId(taskId, subtaskId) : mapper.getEpicId(taskId);
+}
+
+/** Item names of every issue mapped in a tag view, by Beads ID. */
+function itemsByBeadsId(mapper: IdMapper): Map<string, string> {
+  const items = new Map<string, string>();
+  for (const task of mapper.getTaskMappings()) {
+    items.set(task.beadsId, `${task.tmId}`);
+    for (const subtask of task.subtasks) items.set(subtask.beadsId, `${task.tmId}.${subtask.tmId}`);
+    if (task.testIssueId) items.set(task.testIssueId, `${task.tmId} (test)`);
+  }
+  return items;
+}
+
+// --- Planning ---
+
+/** The existing issues an operation acts on; for a create, its parent. */
+function operationTargets(operation: TrackerOperation): string[] {
+  switch (operation.kind) {
+    case 'create': return operation.parentId !== undefined ? [operation.parentId] : [];
+    case 'dependency':
+    case 'remove_dependency': return [operation.blockedId, operation.blockingId];
+    case 'import': return [];
+    default: return [operation.id];
+  }
+}
+
+/**
+ * Turn what the pipeline did to the in-memory tracker for one tag into plan
+ * steps. Status changes that leave an issue as it was are dropped, and so
+ * are operations on a `skipped` issue; issues created under one are skipped
+ * in turn.
+ */
+async function toSteps(
+  operations: TrackerOperation[],
+  tag: string,
+  tasks: TaskMasterTask[],
+  mapper: IdMapper,
+  tracker: InMemoryTracker,
+  statuses: Map<string, string>,
+  config: SyncConfig,
+  skipped: Set<string>,
+): Promise<SyncPlanStep[]> {
+  const items = itemsByBeadsId(mapper);
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const created = new Set<string>();
+  const ref = (beadsId: string): PlanIssueRef => {
+    const item = items.get(beadsId);
+    if (item === undefined) {
+      throw new Error(`Planned operation on ${beadsId}, which is not in the mapping`);
+    }
+    return created.has(beadsId) ? { item } : { item, beadsId };
+  };
+
+  const steps: SyncPlanStep[] = [];
+  for (const operation of operations) {
+    if (operationTargets(operation).some(id => skipped.has(id))) {
+      if (operation.kind === 'create') skipped.add(operation.id);
+      continue;
+    }
+    switch (operation.kind) {
+      case 'create': {
+        const item = items.get(operation.id)!;
+        const { taskId, subtaskId, test } = parseItem(item);
+        const task = tasksById.get(taskId)!;
+        const fields = {
+          tag,
+          item,
+          title: operation.title,
+          description: (await tracker.showIssue(operation.id)).description ?? '',
+          type: operation.type,
+          priority: operation.priority,
+          labels: operation.labels,
+        };
+        if (test) {
+          steps.push({ op: 'create_test', ...fields, parent: ref(operation.parentId!) });
+        } else if (subtaskId !== undefined) {
+          const subtask = task.subtasks!.find(s => s.id === subtaskId)!;
+          steps.push({ op: 'create_child', ...fields, parent: ref(operation.parentId!), contentHash: hashSubtask(subtask, task, config) });
+        } else {
+          steps.push({ op: 'create_epic', ...fields, contentHash: hashTask(task, config) });
+        }
+        created.add(operation.id);
+        statuses.set(operation.id, 'open');
+        break;
+      }
+      case 'dependency':
+        steps.push({ op: 'add_dependency', tag, blocked: ref(operation.blockedId), blocking: ref(operation.blockingId) });
+        break;
+      case 'remove_dependency':
+        steps.push({ op: 'remove_dependency', tag, blocked: ref(operation.blockedId), blocking: ref(operation.blockingId) });
+        break;
+      case 'status':
+        if (statuses.get(operation.id) === operation.status) break;
+        statuses.set(operation.id, operation.status);
+        steps.push({ op: 'set_status', tag, issue: ref(operation.id), status: operation.status });
+        break;
+      case 'close':
+        if (statuses.get(operation.id) === 'closed') break;
+        statuses.set(operation.id, 'closed');
+        steps.push({ op: 'close', tag, issue: ref(operation.id) });
+        break;
+      case 'update': {
+        const { title, description, priority } = operation.edit;
+        steps.push({
+          op: 'update_issue',
+          tag,
+          issue: { item: ref(operation.id).item, beadsId: operation.id },
+          ...(title !== undefined ? { title } : {}),
+          ...(description !== undefined ? { description } : {}),
+          ...(priority !== undefined ? { priority } : {}),
+        });
+        break;
+      }
+      default:
+        throw new Error(`Unexpected ${operation.kind} operation while planning`);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Work out what `tm2bd sync --resume` would do with these projects and
+ * mapping. The sync pipeline runs against an in-memory tracker loaded with
+ * the current state of every mapped issue from `source`, so the plan holds
+ * only real changes. Conflicts with Beads edits are settled first, the way
+ * `sync --resume` does. Mapped issues that are gone from Beads are listed in
+ * `missing` rather than planned around, since `tm2bd verify --repair` is
+ * what recreates them. Neither `projects`, `mapper` nor `source` is
+ * modified.
+ */
+export async function buildSyncPlan(
+  projects: Map<string, TaskMasterProject>,
+  mapper: IdMapper,
+  config: SyncConfig,
+  source: IssueTracker,
+  tasksModifiedAt: Date = new Date(),
+): Promise<SyncPlan> {
+  const planned = mapper.clone();
+  const tracker = new InMemoryTracker('planned');
+  const statuses = new Map<string, string>();
+  const mappedIds = [...mapper.getBeadsIds()];
+  const { issues, missing } = await fetchIssues(mappedIds, source);
+  for (const issue of issues.values()) {
+    tracker.addIssue(issue);
+    statuses.set(issue.id, issue.status);
+  }
+  // Stand-ins let the pipeline run; toSteps drops whatever touches them
+  for (const beadsId of missing) {
+    tracker.addIssue({ id: beadsId, title: beadsId, status: 'open' });
+  }
+
+  const steps: SyncPlanStep[] = [];
+  const missingIssues: MissingIssue[] = [];
+  const conflicts: PlanConflict[] = [];
+  for (const [tag, project] of projects) {
+    const tagMapper = planned.forTag(tag);
+    // Conflicts resolved for Beads change task statuses in place
+    const sorted = topologicalSort(structuredClone(project.tasks));
+    const tasks = sorted.map(s => s.task);
+    const tiers = new Map(sorted.map(s => [s.task.id, s.tier]));
+
+    const skipped = new Set(missing);
+    const resolving = tracker.operations.length;
+    const settled = await settleConflicts(tasks, tracker, tagMapper, config, tasksModifiedAt);
+    for (const resolution of settled.resolutions) {
+      if (missing.has(resolution.beadsId)) continue;
+      const { ref: item, beadsId, field, strategy, outcome, message } = resolution;
+      conflicts.push({ tag, item, beadsId, field, strategy, outcome, message });
+    }
+    steps.push(...await toSteps(tracker.operations.slice(resolving), tag, tasks, tagMapper, tracker, statuses, config, skipped));
+
+    const { policy, reason } = config.orphans;
+    if (policy !== 'ignore') {
+      const orphans = findOrphans(tasks, tagMapper);
+      await applyOrphanPolicy(orphans, tracker, tagMapper, policy, reason);
+      for (const orphan of orphans) {
+        steps.push({ op: 'orphan', tag, issue: { item: orphan.ref, beadsId: orphan.beadsId }, policy, reason });
+      }
+    }
+
+    // Orphan steps cope with a missing issue by themselves
+    for (const [beadsId, item] of itemsByBeadsId(tagMapper)) {
+      if (missing.has(beadsId)) missingIssues.push({ tag, item, beadsId });
+    }
+
+    const start = tracker.operations.length;
+    await createEpics(tasks, tracker, tagMapper, undefined, config, tiers);
+    await createAllChildren(tasks, tracker, tagMapper, undefined, config);
+    await createAllTestChildren(tasks, tracker, tagMapper, undefined, config);
+    await reconcileAllDependencies(tasks, tracker, tagMapper);
+    await syncAllStatuses(tasks, settled.tracker, tagMapper, config);
+    steps.push(...await toSteps(tracker.operations.slice(start), tag, tasks, tagMapper, tracker, statuses, config, skipped));
+  }
+
+  return { version: SYNC_PLAN_VERSION, generatedAt: new Date().toISOString(), steps, missing: missingIssues, conflicts };
+}
+
+export function summarizeSyncPlan(plan: SyncPlan): SyncPlanSummary {
+  const summary: SyncPlanSummary = {
+    created: { epics: 0, children: 0, tests: 0 },
+    addedDependencies: 0,
+    removedDependencies: 0,
+    statuses: 0,
+    updates: 0,
+    orphans: 0,
+  };
+  for (const step of plan.steps) {
+    switch (step.op) {
+      case 'create_epic': summary.created.epics++; break;
+      case 'create_child': summary.created.children++; break;
+      case 'create_test': summary.created.tests++; break;
+      case 'add_dependency': summary.addedDependencies++; break;
+      case 'remove_dependency': summary.removedDependencies++; break;
+      case 'set_status':
+      case 'close': summary.statuses++; break;
+      case 'update_issue': summary.updates++; break;
+      case 'orphan': summary.orphans++; break;
+    }
+  }
+  return summary;
+}
+
+// --- Reading ---
+
+/**
+ * Validate a parsed plan file.
+ * @throws SyncPlanError naming every offending field
+ */
+export function parseSyncPlan(json: unknown, source: string): SyncPlan {
+  const version = (json as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== SYNC_PLAN_VERSION) {
+    throw new SyncPlanError(
+      `Plan ${source} has version ${JSON.stringify(version)}, but this tm2bd only applies version ${SYNC_PLAN_VERSION}. ` +
+      'Run `tm2bd plan` again.',
+    );
+  }
+  const result = SyncPlanSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new SyncPlanError(`Invalid plan ${source}:\n${issues}`);
+  }
+  return result.data;
+}
+
+// --- Applying ---
+
+function existingRefs(step: SyncPlanStep): PlanIssueRef[] {
+  switch (step.op) {
+    case 'create_epic': return [];
+    case 'create_child':
+    case 'create_test': return [step.parent];
+    case 'add_dependency':
+    case 'remove_dependency': return [step.blocked, step.blocking];
+    case 'set_status':
+    case 'close':
+    case 'update_issue':
+    case 'orphan': return [step.issue];
+  }
+}
+
+/**
+ * Check that the mapping is still the one the plan was made from: every
+ * issue the plan creates is still unmapped, and every existing issue it
+ * names is still mapped to the same Beads ID.
+ * @throws SyncPlanError listing every mismatch
+ */
+export function checkSyncPlan(plan: SyncPlan, mapper: IdMapper): void {
+  const problems = new Set<string>();
+  for (const step of plan.steps) {
+    const tagMapper = mapper.forTag(step.tag);
+    if (step.op === 'create_epic' || step.op === 'create_child' || step.op === 'create_test') {
+      const existing = lookupItem(tagMapper, step.item);
+      if (existing !== undefined) {
+        problems.add(`${step.tag} ${step.item} is already mapped to ${existing}`);
+      }
+    }
+    for (const ref of existingRefs(step)) {
+      if (ref.beadsId === undefined) continue;
+      const current = lookupItem(tagMapper, ref.item);
+      if (current !== ref.beadsId) {
+        problems.add(`${step.tag} ${ref.item} is mapped to ${current ?? 'nothing'}, the plan expects ${ref.beadsId}`);
+      }
+    }
+  }
+  if (problems.size > 0) {
+    throw new SyncPlanError(
+      `The plan no longer matches the mapping file; run \`tm2bd plan\` again:\n` +
+      [...problems].map(problem => `  ${problem}`).join('\n'),
+    );
+  }
+}
+
+/**
+ * Execute a plan step by step, recording every created issue in the mapping
+ * and checkpointing after each one. The content hash and last-synced state
+ * of each created task and subtask are stored once every step has run.
+ * @throws SyncPlanError if the plan does not fit the mapping, before any step runs
+ */
+export async function applySyncPlan(
+  plan: SyncPlan,
+  tracker: IssueTracker,
+  mapper: IdMapper,
+  onStep?: (step: SyncPlanStep, current: number, total: number) => void,
+): Promise<void> {
+  checkSyncPlan(plan, mapper);
+
+  const total = plan.steps.length;
+  for (const [index, step] of plan.steps.entries()) {
+    const tagMapper = mapper.forTag(step.tag);
+    const resolve = (ref: PlanIssueRef): string => {
+      const beadsId = ref.beadsId ?? lookupItem(tagMapper, ref.item);
+      if (beadsId === undefined) {
+        throw new SyncPlanError(`Step ${index + 1} needs ${step.tag} ${ref.item}, which no earlier step created`);
+      }
+      return beadsId;
+    };
+
+    switch (step.op) {
+      case 'create_epic': {
+        const result = await tracker.createEpic(step.title, step.description, step.priority, step.type, step.labels);
+        tagMapper.addEpic(parseItem(step.item).taskId, result.id);
+        await tagMapper.checkpoint();
+        break;
+      }
+      case 'create_child':
+      case 'create_test': {
+        const result = await tracker.createChild(resolve(step.parent), step.title, step.description, {
+          type: step.type,
+          priority: step.priority,
+          labels: step.labels,
+        });
+        const { taskId, subtaskId } = parseItem(step.item);
+        if (step.op === 'create_test') {
+          tagMapper.setTestIssueId(taskId, result.id);
+        } else {
+          tagMapper.addSubtask(taskId, subtaskId!, result.id);
+        }
+        await tagMapper.checkpoint();
+        break;
+      }
+      case 'add_dependency': {
+        const blockedId = resolve(step.blocked);
+        const blockingId = resolve(step.blocking);
+        await tracker.addDependency(blockedId, blockingId);
+        tagMapper.recordDependency(blockedId, blockingId);
+        break;
+      }
+      case 'remove_dependency': {
+        const blockedId = resolve(step.blocked);
+        const blockingId = resolve(step.blocking);
+        await tracker.removeDependency(blockedId, blockingId);
+        tagMapper.forgetDependency(blockedId, blockingId);
+        break;
+      }
+      case 'set_status':
+        await tracker.updateStatus(resolve(step.issue), step.status);
+        break;
+      case 'close':
+        await tracker.close(resolve(step.issue));
+        break;
+      case 'update_issue': {
+        const { op: _op, tag: _tag, issue, ...edit } = step;
+        await tracker.updateIssue(resolve(issue), edit);
+        break;
+      }
+      case 'orphan': {
+        const { taskId, subtaskId, test } = parseItem(step.issue.item);
+        const orphan: Orphan = {
+          kind: test ? 'test' : subtaskId !== undefined ? 'child' : 'epic',
+          ref: step.issue.item,
+          taskId,
+          subtaskId,
+          beadsId: step.issue.beadsId,
+        };
+        await applyOrphanPolicy([orphan], tracker, tagMapper, step.policy, step.reason);
+        break;
+      }
+    }
+    onStep?.(step, index + 1, total);
+  }
+
+  // Created issues start open; later steps of the plan may change that
+  const statuses = new Map<string, string>();
+  for (const step of plan.steps) {
+    if (step.op === 'set_status' || step.op === 'close') {
+      statuses.set(`${step.tag}:${step.issue.beadsId ?? step.issue.item}`, step.op === 'close' ? 'closed' : step.status);
+    }
+  }
+
+  for (const step of plan.steps) {
+    if (step.op !== 'create_epic' && step.op !== 'create_child') continue;
+    const tagMapper = mapper.forTag(step.tag);
+    const { taskId, subtaskId } = parseItem(step.item);
+    const synced: SyncedFields = {
+      title: step.title,
+      description: step.description,
+      status: statuses.get(`${step.tag}:${step.item}`) ?? 'open',
+      ...(step.op === 'create_epic' ? { priority: step.priority } : {}),
+    };
+    const lastSynced = { taskMaster: synced, beads: { ...synced } };
+    if (step.op === 'create_epic') {
+      tagMapper.setContentHash(taskId, step.contentHash);
+      tagMapper.setLastSynced(taskId, lastSynced);
+    } else {
+      tagMapper.setSubtaskContentHash(taskId, subtaskId!, step.contentHash);
+      tagMapper.setSubtaskLastSynced(taskId, subtaskId!, lastSynced);
+    }
+  }
+}
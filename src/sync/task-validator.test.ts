@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { validateTasksDocument } from './task-validator.js';
+
+function rawSubtask(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    title: 'Subtask',
+    description: 'Subtask description',
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function rawTask(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('validateTasksDocument', () => {
+  it('reports nothing for a valid file', () => {
+    const report = validateTasksDocument({
+      tasks: [
+        rawTask({ id: 1, subtasks: [rawSubtask({ id: 1 }), rawSubtask({ id: 2, dependencies: [1] })] }),
+        rawTask({ id: 2, dependencies: [1], subtasks: [rawSubtask({ id: 1, dependencies: ['1.2'] })] }),
+      ],
+    });
+
+    expect(report).toEqual({ tags: ['master'], tasks: 2, subtasks: 3, problems: [] });
+  });
+
+  it('reports schema errors with their JSON path and item', () => {
+    const report = validateTasksDocument({
+      master: {
+        tasks: [
+          rawTask({ id: 1, priority: 'urgent' }),
+          rawTask({ id: 2, subtasks: [rawSubtask({ id: 4, status: 'open' })] }),
+          rawTask({ id: 3 }),
+        ],
+      },
+    });
+
+    expect(report.tasks).toBe(1);
+    expect(report.problems).toEqual([
+      expect.objectContaining({ kind: 'schema', tag: 'master', path: 'master.tasks[0].priority', ref: '1' }),
+      expect.objectContaining({ kind: 'schema', tag: 'master', path: 'master.tasks[1].subtasks[0].status', ref: '2.4' }),
+    ]);
+  });
+
+  it('reports duplicate task and subtask IDs', () => {
+    const report = validateTasksDocument({
+      tasks: [
+        rawTask({ id: 1, subtasks: [rawSubtask({ id: 1 }), rawSubtask({ id: 1 })] }),
+        rawTask({ id: 1 }),
+      ],
+    });
+
+    expect(report.problems.map(p => [p.kind, p.ref])).toEqual([
+      ['duplicate_id', '1.1'],
+      ['duplicate_id', '1'],
+    ]);
+  });
+
+  it('reports dangling and self-dependencies at both levels', () => {
+    const report = validateTasksDocument({
+      tasks: [
+        rawTask({ id: 1, dependencies: [1, 9] }),
+        rawTask({
+          id: 2,
+          subtasks: [
+            rawSubtask({ id: 1, dependencies: ['2.1', 8, '1.5'] }),
+          ],
+        }),
+      ],
+    });
+
+    expect(report.problems.map(p => p.message)).toEqual([
+      'task 1 depends on itself',
+      'task 1 depends on non-existent task 9',
+      'subtask 2.1 depends on itself',
+      'subtask 2.1 depends on non-existent task 8',
+      'subtask 2.1 depends on non-existent subtask 1.5',
+    ]);
+  });
+
+  it('reports every cycle, not just the first', () => {
+    const report = validateTasksDocument({
+      tasks: [
+        rawTask({ id: 1, dependencies: [2] }),
+        rawTask({ id: 2, dependencies: [1] }),
+        rawTask({ id: 3, dependencies: [5] }),
+        rawTask({ id: 4, dependencies: [3] }),
+        rawTask({
+          id: 5,
+          dependencies: [4],
+          subtasks: [rawSubtask({ id: 1, dependencies: ['6.1'] })],
+        }),
+        rawTask({ id: 6, subtasks: [rawSubtask({ id: 1, dependencies: ['5.1'] })] }),
+      ],
+    });
+
+    expect(report.problems.filter(p => p.kind === 'cycle').map(p => p.message)).toEqual([
+      'Circular dependency: 1 → 2 → 1',
+      'Circular dependency: 3 → 5 → 4 → 3',
+      'Circular subtask dependency: 5.1 → 6.1 → 5.1',
+    ]);
+  });
+
+  it('only checks the requested tags', () => {
+    const document = {
+      master: { tasks: [rawTask()] },
+      broken: { tasks: [rawTask({ dependencies: [7] })] },
+    };
+
+    expect(validateTasksDocument(document, ['master']).problems).toEqual([]);
+    expect(validateTasksDocument(document).problems).toEqual([
+      expect.objectContaining({ kind: 'dangling_dependency', tag: 'broken', ref: '1' }),
+    ]);
+    expect(() => validateTasksDocument(document, ['nope'])).toThrow('Tag "nope" not found');
+  });
+
+  it('reports a tag whose tasks are not an array', () => {
+    const report = validateTasksDocument({ master: { tasks: {} } });
+
+    expect(report.problems).toEqual([
+      { kind: 'schema', tag: 'master', path: 'master.tasks', message: 'tasks must be an array' },
+    ]);
+  });
+});
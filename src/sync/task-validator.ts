@@ -0,0 +1,231 @@
+import { TaskMasterTaskSchema, splitTaggedDocument } from '../schemas/taskmaster.js';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { resolveSubtaskDependency, formatSubtaskDependency } from './dependency-wirer.js';
+
+export type ValidationProblemKind =
+  /** A value does not match the tasks.json schema. */
+  | 'schema'
+  /** Two tasks, or two subtasks of one task, share an ID. */
+  | 'duplicate_id'
+  /** A dependency names a task or subtask that does not exist. */
+  | 'dangling_dependency'
+  /** A task or subtask depends on itself. */
+  | 'self_dependency'
+  /** Dependencies form a loop. */
+  | 'cycle';
+
+export interface ValidationProblem {
+  kind: ValidationProblemKind;
+  tag: string;
+  /** JSON path of the offending value, e.g. "master.tasks[2].subtasks[0].status". */
+  path?: string;
+  /** "3" for a task, "3.2" for a subtask, when the item is known. */
+  ref?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  tags: string[];
+  /** Tasks and subtasks that passed the schema and were checked further. */
+  tasks: number;
+  subtasks: number;
+  problems: ValidationProblem[];
+}
+
+function formatPath(base: string, segments: PropertyKey[]): string {
+  let result = base;
+  for (const segment of segments) {
+    result += typeof segment === 'number' ? `[${segment}]` : `.${String(segment)}`;
+  }
+  return result;
+}
+
+function rawId(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const id = (value as Record<string, unknown>).id;
+  return typeof id === 'number' || typeof id === 'string' ? String(id) : undefined;
+}
+
+// Name the task (or subtask) a schema issue belongs to, from the raw value
+function schemaRef(rawTask: unknown, segments: PropertyKey[]): string | undefined {
+  const taskId = rawId(rawTask);
+  if (taskId === undefined) return undefined;
+  if (segments[0] === 'subtasks' && typeof segments[1] === 'number') {
+    const subtasks = (rawTask as Record<string, unknown>).subtasks;
+    const subtaskId = Array.isArray(subtasks) ? rawId(subtasks[segments[1]]) : undefined;
+    if (subtaskId !== undefined) return `${taskId}.${subtaskId}`;
+  }
+  return taskId;
+}
+
+/**
+ * Every cycle in a dependency graph, each reported once and rotated to start
+ * at its smallest node. Self-loops are left out; they are reported as
+ * self-dependencies instead.
+ */
+function findCycles(graph: Map<string, string[]>, compare: (a: string, b: string) => number): string[][] {
+  const cycles = new Map<string, string[]>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (node: string) => {
+    visited.add(node);
+    stack.push(node);
+    onStack.add(node);
+    for (const next of graph.get(node) ?? []) {
+      if (next === node) continue;
+      if (onStack.has(next)) {
+        const cycle = stack.slice(stack.indexOf(next));
+        const start = cycle.reduce((min, n, i) => (compare(n, cycle[min]) < 0 ? i : min), 0);
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(rotated.join(' '), rotated);
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    onStack.delete(node);
+  };
+
+  for (const node of [...graph.keys()].sort(compare)) {
+    if (!visited.has(node)) visit(node);
+  }
+  return [...cycles.values()];
+}
+
+const compareRefs = (a: string, b: string) => {
+  const [aTask, aSub = 0] = a.split('.').map(Number);
+  const [bTask, bSub = 0] = b.split('.').map(Number);
+  return aTask - bTask || aSub - bSub;
+};
+
+/**
+ * Check the tasks of one tag that passed the schema for duplicate IDs,
+ * dangling dependencies, self-dependencies and cycles at both task and
+ * subtask level.
+ */
+export function validateTaskGraph(tasks: TaskMasterTask[], tag: string): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+  const add = (kind: ValidationProblemKind, ref: string, message: string) => {
+    problems.push({ kind, tag, ref, message });
+  };
+
+  const tasksById = new Map<number, TaskMasterTask>();
+  for (const task of tasks) {
+    if (tasksById.has(task.id)) {
+      add('duplicate_id', `${task.id}`, `task ID ${task.id} is used by more than one task`);
+    } else {
+      tasksById.set(task.id, task);
+    }
+    const subtaskIds = new Set<number>();
+    for (const subtask of task.subtasks ?? []) {
+      if (subtaskIds.has(subtask.id)) {
+        add('duplicate_id', `${task.id}.${subtask.id}`, `subtask ID ${subtask.id} is used more than once in task ${task.id}`);
+      }
+      subtaskIds.add(subtask.id);
+    }
+  }
+
+  const taskGraph = new Map<string, string[]>();
+  const subtaskGraph = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    const ref = `${task.id}`;
+    const edges = taskGraph.get(ref) ?? [];
+    taskGraph.set(ref, edges);
+    for (const depId of task.dependencies) {
+      if (depId === task.id) {
+        add('self_dependency', ref, `task ${task.id} depends on itself`);
+      } else if (!tasksById.has(depId)) {
+        add('dangling_dependency', ref, `task ${task.id} depends on non-existent task ${depId}`);
+      } else {
+        edges.push(`${depId}`);
+      }
+    }
+
+    for (const subtask of task.subtasks ?? []) {
+      const childRef = `${task.id}.${subtask.id}`;
+      const childEdges = subtaskGraph.get(childRef) ?? [];
+      subtaskGraph.set(childRef, childEdges);
+      for (const depRef of subtask.dependencies ?? []) {
+        const dep = resolveSubtaskDependency(depRef, task);
+        const described = formatSubtaskDependency(dep, task.id);
+        if (dep.kind === 'task') {
+          if (!tasksById.has(dep.taskId)) {
+            add('dangling_dependency', childRef, `subtask ${childRef} depends on non-existent ${described}`);
+          }
+          continue;
+        }
+        const target = dep.kind === 'sibling' ? task : tasksById.get(dep.taskId);
+        const targetRef = `${dep.kind === 'sibling' ? task.id : dep.taskId}.${dep.subtaskId}`;
+        if (targetRef === childRef) {
+          add('self_dependency', childRef, `subtask ${childRef} depends on itself`);
+        } else if (!target?.subtasks?.some(s => s.id === dep.subtaskId)) {
+          add('dangling_dependency', childRef, `subtask ${childRef} depends on non-existent ${described}`);
+        } else {
+          childEdges.push(targetRef);
+        }
+      }
+    }
+  }
+
+  for (const cycle of findCycles(taskGraph, compareRefs)) {
+    add('cycle', cycle[0], `Circular dependency: ${[...cycle, cycle[0]].join(' → ')}`);
+  }
+  for (const cycle of findCycles(subtaskGraph, compareRefs)) {
+    add('cycle', cycle[0], `Circular subtask dependency: ${[...cycle, cycle[0]].join(' → ')}`);
+  }
+  return problems;
+}
+
+/**
+ * Validate a raw tasks.json document and report every problem at once:
+ * schema errors with their JSON path, then duplicate IDs, dangling and
+ * self-dependencies and cycles among the tasks that did match the schema.
+ * Checks every tag unless `tags` names some.
+ * @throws Error if the document is not an object or a requested tag is missing
+ */
+export function validateTasksDocument(json: unknown, tags?: string[]): ValidationReport {
+  const sections = splitTaggedDocument(json);
+  for (const tag of tags ?? []) {
+    if (!sections.has(tag)) {
+      const available = [...sections.keys()].join(', ') || 'none';
+      throw new Error(`Tag "${tag}" not found in tasks.json (available tags: ${available})`);
+    }
+  }
+
+  const report: ValidationReport = { tags: tags ?? [...sections.keys()], tasks: 0, subtasks: 0, problems: [] };
+  for (const tag of report.tags) {
+    const section = sections.get(tag)!;
+    const rawTasks = (section.value as Record<string, unknown>).tasks;
+    if (!Array.isArray(rawTasks)) {
+      report.problems.push({ kind: 'schema', tag, path: `${section.path}tasks`, message: 'tasks must be an array' });
+      continue;
+    }
+
+    const tasks: TaskMasterTask[] = [];
+    rawTasks.forEach((rawTask, index) => {
+      const base = `${section.path}tasks[${index}]`;
+      const result = TaskMasterTaskSchema.safeParse(rawTask);
+      if (result.success) {
+        tasks.push(result.data);
+        return;
+      }
+      for (const issue of result.error.issues) {
+        report.problems.push({
+          kind: 'schema',
+          tag,
+          path: formatPath(base, issue.path),
+          ref: schemaRef(rawTask, issue.path),
+          message: issue.message,
+        });
+      }
+    });
+
+    report.tasks += tasks.length;
+    report.subtasks += tasks.reduce((sum, t) => sum + (t.subtasks?.length ?? 0), 0);
+    report.problems.push(...validateTaskGraph(tasks, tag));
+  }
+  return report;
+}
@@ -28,6 +28,8 @@ function createMockMapper() {
     getSubtaskId: vi.fn((taskId: number, subId: number) => subtasks.get(`${taskId}.${subId}`)),
     setTestIssueId: vi.fn((tmId: number, beadsId: string) => testIssues.set(tmId, beadsId)),
     getTestIssueId: vi.fn((tmId: number) => testIssues.get(tmId)),
+    getTag: vi.fn(() => 'master'),
+    checkpoint: vi.fn().mockResolvedValue(undefined),
   } as any;
 }
 
@@ -45,7 +47,7 @@ function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
 
 describe('formatTestDescription', () => {
   it('formats test strategy with heading', () => {
-    const result = formatTestDescription('Run unit tests with jest');
+    const result = formatTestDescription(makeTask({ testStrategy: 'Run unit tests with jest' }));
 
     expect(result).toBe('## Test Strategy\nRun unit tests with jest');
   });
@@ -71,6 +73,7 @@ describe('createTestChild', () => {
       'epic-5',
       'Test: Setup project',
       '## Test Strategy\nUnit tests for all modules',
+      { labels: ['tm2bd', 'tm:master', 'test'] },
     );
     expect(mapper.setTestIssueId).toHaveBeenCalledWith(5, 'test-child-1');
   });
@@ -87,6 +90,21 @@ describe('createTestChild', () => {
     expect(cli.createChild).not.toHaveBeenCalled();
     expect(mapper.setTestIssueId).not.toHaveBeenCalled();
   });
+
+  it('returns the existing test issue without calling bd when already mapped', async () => {
+    const cli = createMockCli();
+    const mapper = createMockMapper();
+    mapper.setTestIssueId(5, 'existing-test-5');
+    mapper.setTestIssueId.mockClear();
+
+    const task = makeTask({ id: 5, testStrategy: 'Unit tests' });
+
+    const result = await createTestChild(task, 'epic-5', cli, mapper);
+
+    expect(result).toBe('existing-test-5');
+    expect(cli.createChild).not.toHaveBeenCalled();
+    expect(mapper.setTestIssueId).not.toHaveBeenCalled();
+  });
 });
 
 describe('createAllTestChildren', () => {
@@ -1,39 +1,71 @@
 import type { TaskMasterTask } from '../schemas/taskmaster.js';
-import { BeadsCli } from '../beads/cli.js';
+import type { IssueTracker } from '../tracker/issue-tracker.js';
 import { IdMapper } from '../mapping/id-mapper.js';
+import { DEFAULT_SYNC_CONFIG, DEFAULT_TEMPLATES } from '../schemas/config.js';
+import type { SyncConfig } from '../schemas/config.js';
+import { renderTemplate } from '../utils/template.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { taskTemplateContext } from './epic-creator.js';
+import { testLabels } from './labels.js';
 
-function formatTestDescription(testStrategy: string): string {
-  return ['## Test Strategy', testStrategy].join('\n');
+function formatTestDescription(
+  task: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.test.description,
+): string {
+  return renderTemplate(template, taskTemplateContext(task));
+}
+
+function formatTestTitle(
+  task: TaskMasterTask,
+  template: string = DEFAULT_TEMPLATES.test.title,
+): string {
+  return renderTemplate(template, taskTemplateContext(task));
 }
 
 export async function createTestChild(
   task: TaskMasterTask,
   epicId: string,
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
 ): Promise<string | null> {
   if (!task.testStrategy) return null;
-  const title = `Test: ${task.title}`;
-  const description = formatTestDescription(task.testStrategy);
-  const result = await cli.createChild(epicId, title, description);
+  const existingId = mapper.getTestIssueId(task.id);
+  if (existingId) return existingId;
+  const title = formatTestTitle(task, config.templates.test.title);
+  const description = formatTestDescription(task, config.templates.test.description);
+  const result = await cli.createChild(epicId, title, description, {
+    type: config.issueTypes.test,
+    priority: config.defaults.priority,
+    labels: testLabels(mapper.getTag(), config),
+  });
   mapper.setTestIssueId(task.id, result.id);
+  await mapper.checkpoint();
   return result.id;
 }
 
+/**
+ * Create the test issue of every task with a test strategy, up to
+ * `concurrency` at a time.
+ */
 export async function createAllTestChildren(
   tasks: TaskMasterTask[],
-  cli: BeadsCli,
+  cli: IssueTracker,
   mapper: IdMapper,
-  onProgress?: (current: number, total: number) => void,
+  onProgress?: (current: number, total: number, skipped: boolean) => void,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  concurrency: number = 1,
 ): Promise<void> {
   const tasksWithTests = tasks.filter(t => t.testStrategy);
-  for (let i = 0; i < tasksWithTests.length; i++) {
-    const task = tasksWithTests[i];
-    const epicId = mapper.getEpicId(task.id);
-    if (!epicId) throw new Error(`Epic ID not found for task ${task.id}`);
-    await createTestChild(task, epicId, cli, mapper);
-    onProgress?.(i + 1, tasksWithTests.length);
+  for (const task of tasksWithTests) {
+    if (!mapper.getEpicId(task.id)) throw new Error(`Epic ID not found for task ${task.id}`);
   }
+  let current = 0;
+  await mapWithConcurrency(tasksWithTests, concurrency, async (task) => {
+    const skipped = mapper.getTestIssueId(task.id) !== undefined;
+    await createTestChild(task, mapper.getEpicId(task.id)!, cli, mapper, config);
+    onProgress?.(++current, tasksWithTests.length, skipped);
+  });
 }
 
-export { formatTestDescription };
+export { formatTestDescription, formatTestTitle };
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import type { ConflictField } from '../schemas/config.js';
+import { InMemoryTracker } from './memory-tracker.js';
+import { FieldGuardTracker } from './field-guard-tracker.js';
+
+describe('FieldGuardTracker', () => {
+  it('drops held fields and forwards the rest', async () => {
+    const inner = new InMemoryTracker();
+    inner.addIssue({ id: 'bd-1', title: 'Epic', status: 'open' });
+    inner.addIssue({ id: 'bd-2', title: 'Child', status: 'open' });
+    const tracker = new FieldGuardTracker(inner, new Map<string, Set<ConflictField>>([
+      ['bd-1', new Set(['title', 'status'])],
+      ['bd-2', new Set(['priority'])],
+    ]));
+
+    await tracker.updateIssue('bd-1', { title: 'Renamed', priority: 1 });
+    await tracker.updateStatus('bd-1', 'in_progress');
+    await tracker.close('bd-1');
+    await tracker.updateIssue('bd-2', { title: 'Renamed' });
+    await tracker.close('bd-2');
+
+    expect(inner.operations).toEqual([
+      { kind: 'update', id: 'bd-1', edit: { priority: 1 } },
+      { kind: 'update', id: 'bd-2', edit: { title: 'Renamed' } },
+      { kind: 'close', id: 'bd-2', reason: undefined },
+    ]);
+  });
+});
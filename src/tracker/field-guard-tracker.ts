@@ -0,0 +1,102 @@
+import type {
+  BeadsCreateResult,
+  BeadsIssue,
+  BeadsChildOptions,
+  BeadsIssueEdit,
+  IssueTracker,
+} from './issue-tracker.js';
+import type { ConflictField } from '../schemas/config.js';
+
+/**
+ * An IssueTracker that forwards every call to another tracker, except that
+ * it leaves alone the fields held for each issue: held titles, descriptions
+ * and priorities are dropped from edits, and a held status is neither
+ * changed nor closed. Used to keep Beads edits and unresolved conflicts
+ * from being overwritten by tasks.json.
+ */
+export class FieldGuardTracker implements IssueTracker {
+  private inner: IssueTracker;
+  private held: Map<string, Set<ConflictField>>;
+
+  constructor(inner: IssueTracker, held: Map<string, Set<ConflictField>>) {
+    this.inner = inner;
+    this.held = held;
+  }
+
+  private isHeld(issueId: string, field: ConflictField): boolean {
+    return this.held.get(issueId)?.has(field) ?? false;
+  }
+
+  createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    type?: string,
+    labels?: string[],
+  ): Promise<BeadsCreateResult> {
+    return this.inner.createEpic(title, description, priority, type, labels);
+  }
+
+  createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    options?: BeadsChildOptions,
+  ): Promise<BeadsCreateResult> {
+    return this.inner.createChild(parentId, title, description, options);
+  }
+
+  addDependency(blockedId: string, blockingId: string): Promise<void> {
+    return this.inner.addDependency(blockedId, blockingId);
+  }
+
+  removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    return this.inner.removeDependency(blockedId, blockingId);
+  }
+
+  async updateIssue(issueId: string, edit: BeadsIssueEdit): Promise<void> {
+    const guarded = { ...edit };
+    for (const field of ['title', 'description', 'priority'] as const) {
+      if (this.isHeld(issueId, field)) delete guarded[field];
+    }
+    return this.inner.updateIssue(issueId, guarded);
+  }
+
+  async updateStatus(issueId: string, status: string): Promise<void> {
+    if (this.isHeld(issueId, 'status')) return;
+    return this.inner.updateStatus(issueId, status);
+  }
+
+  async close(issueId: string, reason?: string): Promise<void> {
+    if (this.isHeld(issueId, 'status')) return;
+    return this.inner.close(issueId, reason);
+  }
+
+  deleteIssue(issueId: string): Promise<void> {
+    return this.inner.deleteIssue(issueId);
+  }
+
+  importIssues(filePath: string): Promise<void> {
+    return this.inner.importIssues(filePath);
+  }
+
+  showIssue(issueId: string): Promise<BeadsIssue> {
+    return this.inner.showIssue(issueId);
+  }
+
+  showIssues(issueIds: string[]): Promise<BeadsIssue[]> {
+    return this.inner.showIssues(issueIds);
+  }
+
+  listDependencies(issueId: string): Promise<string[]> {
+    return this.inner.listDependencies(issueId);
+  }
+
+  listIssues(filter?: { parent?: string }): Promise<BeadsIssue[]> {
+    return this.inner.listIssues(filter);
+  }
+
+  checkInit(): Promise<boolean> {
+    return this.inner.checkInit();
+  }
+}
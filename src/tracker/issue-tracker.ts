@@ -0,0 +1,79 @@
+/**
+ * The issue-tracker operations the sync modules depend on. BeadsCli talks to
+ * a real Beads database through `bd`; InMemoryTracker keeps everything in
+ * memory for dry runs and tests.
+ */
+
+export interface BeadsCreateResult {
+  id: string;
+  title: string;
+  type?: string;
+}
+
+export interface BeadsIssue {
+  id: string;
+  title: string;
+  status: string;
+  priority?: number;
+  issue_type?: string;
+  description?: string;
+  labels?: string[];
+  external_ref?: string;
+  /** IDs of the issues this one depends on through `blocks` dependencies. */
+  blockedBy?: string[];
+  /** ID of the issue this one is a child of. */
+  parent?: string;
+  /** When the issue last changed, as an ISO 8601 timestamp. */
+  updated_at?: string;
+}
+
+/** Issue type and priority for a child issue; bd's defaults apply when unset. */
+export interface BeadsChildOptions {
+  type?: string;
+  priority?: number;
+  labels?: string[];
+}
+
+export interface BeadsIssueEdit {
+  title?: string;
+  description?: string;
+  priority?: number;
+  addLabels?: string[];
+  removeLabels?: string[];
+  /** Move the issue under another parent issue. */
+  parent?: string;
+}
+
+export interface IssueTracker {
+  createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    type?: string,
+    labels?: string[],
+  ): Promise<BeadsCreateResult>;
+  createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    options?: BeadsChildOptions,
+  ): Promise<BeadsCreateResult>;
+  addDependency(blockedId: string, blockingId: string): Promise<void>;
+  removeDependency(blockedId: string, blockingId: string): Promise<void>;
+  /** IDs of the issues this one depends on through `blocks` dependencies. */
+  listDependencies(issueId: string): Promise<string[]>;
+  updateIssue(issueId: string, edit: BeadsIssueEdit): Promise<void>;
+  updateStatus(issueId: string, status: string): Promise<void>;
+  close(issueId: string, reason?: string): Promise<void>;
+  deleteIssue(issueId: string): Promise<void>;
+  showIssue(issueId: string): Promise<BeadsIssue>;
+  showIssues(issueIds: string[]): Promise<BeadsIssue[]>;
+  /** List issues of any status, optionally only the children of one parent. */
+  listIssues(filter?: { parent?: string }): Promise<BeadsIssue[]>;
+  /**
+   * Create every issue in a Beads JSONL file in one go. Issues may be given
+   * new IDs; each record's `external_ref` is kept so they can be found again.
+   */
+  importIssues(filePath: string): Promise<void>;
+  checkInit(): Promise<boolean>;
+}
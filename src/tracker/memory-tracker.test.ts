@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { TaskMasterTask } from '../schemas/taskmaster.js';
+import { IdMapper } from '../mapping/id-mapper.js';
+import { createEpics } from '../sync/epic-creator.js';
+import { createAllChildren } from '../sync/child-creator.js';
+import { wireAllDependencies } from '../sync/dependency-wirer.js';
+import { InMemoryTracker } from './memory-tracker.js';
+
+function makeTask(overrides: Partial<TaskMasterTask> = {}): TaskMasterTask {
+  return {
+    id: 1,
+    title: 'Task',
+    description: 'Task description',
+    status: 'pending',
+    priority: 'medium',
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('InMemoryTracker', () => {
+  it('creates epics and children with sequential IDs and logs each operation', async () => {
+    const tracker = new InMemoryTracker();
+
+    const epic = await tracker.createEpic('Epic', 'Body', 1, 'epic', ['tm2bd']);
+    const child = await tracker.createChild(epic.id, 'Child', '', { priority: 3 });
+
+    expect(epic).toEqual({ id: 'mem-1', title: 'Epic', type: 'epic' });
+    expect(child).toEqual({ id: 'mem-2', title: 'Child', type: 'task' });
+    expect(await tracker.listIssues({ parent: 'mem-1' })).toEqual([
+      { id: 'mem-2', title: 'Child', status: 'open', priority: 3, issue_type: 'task', description: undefined, labels: [], parent: 'mem-1' },
+    ]);
+    expect(tracker.operations.map(op => op.kind)).toEqual(['create', 'create']);
+  });
+
+  it('rejects children of unknown parents', async () => {
+    const tracker = new InMemoryTracker();
+
+    await expect(tracker.createChild('bd-404', 'Child', '')).rejects.toThrow('Beads issue bd-404 not found');
+  });
+
+  it('rejects invalid priorities and statuses', async () => {
+    const tracker = new InMemoryTracker();
+    const epic = await tracker.createEpic('Epic', '', 0);
+
+    await expect(tracker.createEpic('Bad', '', 7)).rejects.toThrow('Invalid priority 7');
+    await expect(tracker.updateStatus(epic.id, 'review')).rejects.toThrow('Invalid status "review"');
+  });
+
+  it('records dependencies once and rejects self-dependencies', async () => {
+    const tracker = new InMemoryTracker();
+    const a = await tracker.createEpic('A', '', 1);
+    const b = await tracker.createEpic('B', '', 1);
+
+    await tracker.addDependency(b.id, a.id);
+    await tracker.addDependency(b.id, a.id);
+
+    expect(tracker.getDependencies(b.id)).toEqual([a.id]);
+    expect(tracker.operations.filter(op => op.kind === 'dependency')).toHaveLength(1);
+    await expect(tracker.addDependency(a.id, a.id)).rejects.toThrow('cannot depend on itself');
+  });
+
+  it('removes dependencies and rejects ones that do not exist', async () => {
+    const tracker = new InMemoryTracker();
+    const a = await tracker.createEpic('A', '', 1);
+    const b = await tracker.createEpic('B', '', 1);
+    await tracker.addDependency(b.id, a.id);
+
+    await tracker.removeDependency(b.id, a.id);
+
+    expect(await tracker.listDependencies(b.id)).toEqual([]);
+    expect(tracker.operations.at(-1)).toEqual({ kind: 'remove_dependency', blockedId: b.id, blockingId: a.id });
+    await expect(tracker.removeDependency(b.id, a.id)).rejects.toThrow('does not depend on');
+  });
+
+  it('applies edits, label changes, closes and deletes', async () => {
+    const tracker = new InMemoryTracker();
+    const epic = await tracker.createEpic('Epic', '', 1, 'epic', ['tm2bd', 'tier:0']);
+    const other = await tracker.createEpic('Other', '', 1);
+    await tracker.addDependency(other.id, epic.id);
+
+    await tracker.updateIssue(epic.id, { title: 'Renamed', addLabels: ['tier:1'], removeLabels: ['tier:0'] });
+    await tracker.close(epic.id, 'done');
+
+    expect(await tracker.showIssue(epic.id)).toMatchObject({
+      title: 'Renamed',
+      status: 'closed',
+      labels: ['tm2bd', 'tier:1'],
+    });
+
+    await tracker.deleteIssue(epic.id);
+    await expect(tracker.showIssues([epic.id])).rejects.toThrow('not found');
+    expect(tracker.getDependencies(other.id)).toEqual([]);
+  });
+
+  it('moves issues under another parent', async () => {
+    const tracker = new InMemoryTracker();
+    const first = await tracker.createEpic('First', '', 1);
+    const second = await tracker.createEpic('Second', '', 1);
+    const child = await tracker.createChild(first.id, 'Child', '');
+
+    await tracker.updateIssue(child.id, { parent: second.id });
+
+    expect((await tracker.showIssue(child.id)).parent).toBe(second.id);
+    expect(await tracker.listIssues({ parent: first.id })).toEqual([]);
+    await expect(tracker.updateIssue(child.id, { parent: 'mem-404' })).rejects.toThrow('not found');
+    await expect(tracker.updateIssue(child.id, { parent: child.id })).rejects.toThrow('cannot be its own parent');
+  });
+
+  it('knows issues registered with addIssue without logging them', async () => {
+    const tracker = new InMemoryTracker();
+    tracker.addIssue({ id: 'bd-7', title: 'Existing', status: 'open' });
+
+    const child = await tracker.createChild('bd-7', 'Child', '');
+
+    expect(child.id).toBe('mem-1');
+    expect(tracker.operations).toHaveLength(1);
+  });
+
+  it('keeps the dependencies of issues registered with addIssue', async () => {
+    const tracker = new InMemoryTracker();
+    tracker.addIssue({ id: 'bd-1', title: 'Blocker', status: 'open' });
+    tracker.addIssue({ id: 'bd-2', title: 'Blocked', status: 'open', blockedBy: ['bd-1'] });
+
+    await tracker.removeDependency('bd-2', 'bd-1');
+
+    expect(tracker.getDependencies('bd-2')).toEqual([]);
+    expect((await tracker.showIssue('bd-2')).blockedBy).toBeUndefined();
+  });
+
+  it('runs the sync pipeline and surfaces the errors a real sync would hit', async () => {
+    const tracker = new InMemoryTracker();
+    const mapper = new IdMapper();
+    const tasks = [makeTask({ id: 1 }), makeTask({ id: 2, dependencies: [1] })];
+
+    await createEpics([tasks[1]], tracker, mapper);
+    await createAllChildren([tasks[1]], tracker, mapper);
+
+    await expect(wireAllDependencies(tasks, tracker, mapper)).rejects.toThrow(
+      'no Beads ID found for blocking task 1',
+    );
+  });
+
+  describe('importIssues()', () => {
+    async function writeJsonl(records: object[]): Promise<string> {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-mem-'));
+      const filePath = path.join(dir, 'batch.jsonl');
+      await fs.writeFile(filePath, records.map(r => JSON.stringify(r)).join('\n') + '\n');
+      return filePath;
+    }
+
+    it('creates records with their own IDs, then links and closes them', async () => {
+      const tracker = new InMemoryTracker();
+      const filePath = await writeJsonl([
+        { id: 'bd-a', title: 'Epic', status: 'closed', priority: 1, issue_type: 'epic', external_ref: 'tm2bd:master:1' },
+        {
+          id: 'bd-b', title: 'Child', status: 'in_progress', priority: 2, issue_type: 'task', labels: ['tm2bd'],
+          dependencies: [
+            { issue_id: 'bd-b', depends_on_id: 'bd-a', type: 'parent-child' },
+            { issue_id: 'bd-b', depends_on_id: 'bd-a', type: 'blocks' },
+          ],
+        },
+      ]);
+
+      await tracker.importIssues(filePath);
+
+      expect(await tracker.listIssues({ parent: 'bd-a' })).toEqual([
+        expect.objectContaining({ id: 'bd-b', status: 'in_progress', labels: ['tm2bd'] }),
+      ]);
+      expect((await tracker.showIssue('bd-a')).external_ref).toBe('tm2bd:master:1');
+      expect(tracker.getDependencies('bd-b')).toEqual(['bd-a']);
+      expect(tracker.operations.map(op => op.kind)).toEqual(['create', 'create', 'dependency', 'close', 'status']);
+    });
+
+    it('rejects records that clash with existing issues or have invalid fields', async () => {
+      const tracker = new InMemoryTracker();
+      tracker.addIssue({ id: 'bd-a', title: 'Existing', status: 'open' });
+
+      await expect(tracker.importIssues(await writeJsonl([
+        { id: 'bd-a', title: 'Epic', status: 'open', priority: 1, issue_type: 'epic' },
+      ]))).rejects.toThrow('Beads issue bd-a already exists');
+      await expect(tracker.importIssues(await writeJsonl([
+        { id: 'bd-c', title: 'Epic', status: 'done', priority: 1, issue_type: 'epic' },
+      ]))).rejects.toThrow('Invalid status "done"');
+      expect(tracker.operations).toEqual([]);
+    });
+  });
+});
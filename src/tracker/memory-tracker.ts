@@ -0,0 +1,308 @@
+import fs from 'fs/promises';
+import type {
+  BeadsCreateResult,
+  BeadsIssue,
+  BeadsChildOptions,
+  BeadsIssueEdit,
+  IssueTracker,
+} from './issue-tracker.js';
+
+/** Statuses bd accepts for `bd update -s`. */
+export const BEADS_STATUSES = ['open', 'in_progress', 'blocked', 'deferred', 'closed'];
+
+/** Default type of `bd create` when no -t is given. */
+const DEFAULT_CHILD_TYPE = 'task';
+const DEFAULT_CHILD_PRIORITY = 2;
+
+export type TrackerOperation =
+  | { kind: 'create'; id: string; title: string; type: string; priority: number; parentId?: string; labels: string[] }
+  | { kind: 'update'; id: string; edit: BeadsIssueEdit }
+  | { kind: 'dependency'; blockedId: string; blockingId: string }
+  | { kind: 'remove_dependency'; blockedId: string; blockingId: string }
+  | { kind: 'status'; id: string; status: string }
+  | { kind: 'close'; id: string; reason?: string }
+  | { kind: 'delete'; id: string }
+  | { kind: 'import'; filePath: string };
+
+/** The fields of a Beads JSONL record that the tracker reads. */
+interface ImportRecord {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: number;
+  issue_type: string;
+  labels?: string[];
+  external_ref?: string;
+  dependencies?: { depends_on_id: string; type: string }[];
+}
+
+interface StoredIssue extends BeadsIssue {
+  parentId?: string;
+  dependsOn: Set<string>;
+}
+
+function checkPriority(priority: number): void {
+  if (!Number.isInteger(priority) || priority < 0 || priority > 4) {
+    throw new Error(`Invalid priority ${priority} (expected 0-4)`);
+  }
+}
+
+/**
+ * An IssueTracker that keeps issues in memory and applies the same checks
+ * bd does, so a dry run fails where a real sync would. Every change is
+ * recorded in `operations` in the order it happened.
+ */
+export class InMemoryTracker implements IssueTracker {
+  readonly operations: TrackerOperation[] = [];
+  private issues = new Map<string, StoredIssue>();
+  private prefix: string;
+  private nextId = 1;
+
+  constructor(prefix: string = 'mem') {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Register an issue that already exists, e.g. one recorded in the mapping
+   * file, without logging an operation.
+   */
+  addIssue(issue: BeadsIssue & { parentId?: string }): void {
+    const { parent, blockedBy, ...rest } = issue;
+    this.issues.set(issue.id, { ...rest, parentId: issue.parentId ?? parent, dependsOn: new Set(blockedBy) });
+  }
+
+  /** Beads IDs this issue depends on. */
+  getDependencies(issueId: string): string[] {
+    return [...this.get(issueId).dependsOn];
+  }
+
+  private get(issueId: string): StoredIssue {
+    const issue = this.issues.get(issueId);
+    if (!issue) {
+      throw new Error(`Beads issue ${issueId} not found`);
+    }
+    return issue;
+  }
+
+  private create(
+    title: string,
+    description: string,
+    type: string,
+    priority: number,
+    labels: string[],
+    parentId?: string,
+  ): BeadsCreateResult {
+    if (!title.trim()) {
+      throw new Error('Cannot create an issue without a title');
+    }
+    checkPriority(priority);
+    const id = `${this.prefix}-${this.nextId++}`;
+    this.issues.set(id, {
+      id,
+      title,
+      status: 'open',
+      priority,
+      issue_type: type,
+      description: description || undefined,
+      labels: [...labels],
+      parentId,
+      dependsOn: new Set(),
+    });
+    this.operations.push({ kind: 'create', id, title, type, priority, parentId, labels: [...labels] });
+    return { id, title, type };
+  }
+
+  async createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    type: string = 'epic',
+    labels: string[] = [],
+  ): Promise<BeadsCreateResult> {
+    return this.create(title, description, type, priority, labels);
+  }
+
+  async createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    options: BeadsChildOptions = {},
+  ): Promise<BeadsCreateResult> {
+    this.get(parentId);
+    return this.create(
+      title,
+      description,
+      options.type ?? DEFAULT_CHILD_TYPE,
+      options.priority ?? DEFAULT_CHILD_PRIORITY,
+      options.labels ?? [],
+      parentId,
+    );
+  }
+
+  async addDependency(blockedId: string, blockingId: string): Promise<void> {
+    const blocked = this.get(blockedId);
+    this.get(blockingId);
+    if (blockedId === blockingId) {
+      throw new Error(`Issue ${blockedId} cannot depend on itself`);
+    }
+    if (blocked.dependsOn.has(blockingId)) return;
+    blocked.dependsOn.add(blockingId);
+    this.operations.push({ kind: 'dependency', blockedId, blockingId });
+  }
+
+  async removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    const blocked = this.get(blockedId);
+    if (!blocked.dependsOn.delete(blockingId)) {
+      throw new Error(`Issue ${blockedId} does not depend on ${blockingId}`);
+    }
+    this.operations.push({ kind: 'remove_dependency', blockedId, blockingId });
+  }
+
+  async listDependencies(issueId: string): Promise<string[]> {
+    return this.getDependencies(issueId);
+  }
+
+  async updateIssue(issueId: string, edit: BeadsIssueEdit): Promise<void> {
+    const issue = this.get(issueId);
+    if (Object.values(edit).every(value => value === undefined)) return;
+    if (edit.priority !== undefined) {
+      checkPriority(edit.priority);
+      issue.priority = edit.priority;
+    }
+    if (edit.parent !== undefined) {
+      if (edit.parent === issueId) {
+        throw new Error(`Issue ${issueId} cannot be its own parent`);
+      }
+      this.get(edit.parent);
+      issue.parentId = edit.parent;
+    }
+    if (edit.title !== undefined) issue.title = edit.title;
+    if (edit.description !== undefined) issue.description = edit.description;
+    const labels = new Set(issue.labels ?? []);
+    for (const label of edit.addLabels ?? []) labels.add(label);
+    for (const label of edit.removeLabels ?? []) labels.delete(label);
+    issue.labels = [...labels];
+    this.operations.push({ kind: 'update', id: issueId, edit });
+  }
+
+  async updateStatus(issueId: string, status: string): Promise<void> {
+    const issue = this.get(issueId);
+    if (!BEADS_STATUSES.includes(status)) {
+      throw new Error(`Invalid status "${status}" (expected one of ${BEADS_STATUSES.join(', ')})`);
+    }
+    issue.status = status;
+    this.operations.push({ kind: 'status', id: issueId, status });
+  }
+
+  async close(issueId: string, reason?: string): Promise<void> {
+    this.get(issueId).status = 'closed';
+    this.operations.push({ kind: 'close', id: issueId, reason });
+  }
+
+  async deleteIssue(issueId: string): Promise<void> {
+    this.get(issueId);
+    this.issues.delete(issueId);
+    for (const issue of this.issues.values()) {
+      issue.dependsOn.delete(issueId);
+    }
+    this.operations.push({ kind: 'delete', id: issueId });
+  }
+
+  async showIssue(issueId: string): Promise<BeadsIssue> {
+    return this.toIssue(this.get(issueId));
+  }
+
+  async showIssues(issueIds: string[]): Promise<BeadsIssue[]> {
+    return issueIds.map(id => this.toIssue(this.get(id)));
+  }
+
+  async listIssues(filter: { parent?: string } = {}): Promise<BeadsIssue[]> {
+    return [...this.issues.values()]
+      .filter(issue => filter.parent === undefined || issue.parentId === filter.parent)
+      .map(issue => this.toIssue(issue));
+  }
+
+  /**
+   * Load a Beads JSONL file the way `bd import` does: every record is
+   * created with its own ID, then its dependencies and status are applied.
+   */
+  async importIssues(filePath: string): Promise<void> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const records = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as ImportRecord);
+
+    for (const record of records) {
+      if (this.issues.has(record.id)) {
+        throw new Error(`Beads issue ${record.id} already exists`);
+      }
+      if (!record.title?.trim()) {
+        throw new Error(`Cannot import issue ${record.id} without a title`);
+      }
+      checkPriority(record.priority);
+      if (!BEADS_STATUSES.includes(record.status)) {
+        throw new Error(`Invalid status "${record.status}" (expected one of ${BEADS_STATUSES.join(', ')})`);
+      }
+    }
+
+    for (const record of records) {
+      const parentId = record.dependencies?.find(dep => dep.type === 'parent-child')?.depends_on_id;
+      const labels = record.labels ?? [];
+      this.issues.set(record.id, {
+        id: record.id,
+        title: record.title,
+        status: 'open',
+        priority: record.priority,
+        issue_type: record.issue_type,
+        description: record.description || undefined,
+        labels: [...labels],
+        external_ref: record.external_ref,
+        parentId,
+        dependsOn: new Set(),
+      });
+      this.operations.push({
+        kind: 'create',
+        id: record.id,
+        title: record.title,
+        type: record.issue_type,
+        priority: record.priority,
+        parentId,
+        labels: [...labels],
+      });
+    }
+
+    for (const record of records) {
+      for (const dep of record.dependencies ?? []) {
+        if (dep.type === 'parent-child') {
+          this.get(dep.depends_on_id);
+        } else {
+          await this.addDependency(record.id, dep.depends_on_id);
+        }
+      }
+    }
+
+    for (const record of records) {
+      if (record.status === 'closed') {
+        await this.close(record.id);
+      } else if (record.status !== 'open') {
+        await this.updateStatus(record.id, record.status);
+      }
+    }
+  }
+
+  async checkInit(): Promise<boolean> {
+    return true;
+  }
+
+  private toIssue(issue: StoredIssue): BeadsIssue {
+    const { parentId, dependsOn, ...rest } = issue;
+    return {
+      ...rest,
+      labels: rest.labels ? [...rest.labels] : undefined,
+      ...(dependsOn.size > 0 ? { blockedBy: [...dependsOn] } : {}),
+      ...(parentId !== undefined ? { parent: parentId } : {}),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryTracker } from './memory-tracker.js';
+import { RecordingTracker } from './recording-tracker.js';
+
+describe('RecordingTracker', () => {
+  it('forwards calls and records each change with its timing', async () => {
+    const inner = new InMemoryTracker();
+    const tracker = new RecordingTracker(inner);
+
+    const epic = await tracker.createEpic('Epic', '', 1);
+    const child = await tracker.createChild(epic.id, 'Child', '', { labels: ['tm2bd'] });
+    await tracker.addDependency(child.id, epic.id);
+    await tracker.close(epic.id);
+    await tracker.updateIssue(epic.id, {});
+    await tracker.showIssues([epic.id, child.id]);
+
+    expect(inner.operations).toHaveLength(4);
+    expect(tracker.operations.map(r => r.operation)).toEqual([
+      { kind: 'create', id: 'mem-1', title: 'Epic', type: 'epic', priority: 1, labels: [] },
+      { kind: 'create', id: 'mem-2', title: 'Child', type: 'task', priority: 2, parentId: 'mem-1', labels: ['tm2bd'] },
+      { kind: 'dependency', blockedId: 'mem-2', blockingId: 'mem-1' },
+      { kind: 'close', id: 'mem-1', reason: undefined },
+    ]);
+    expect(tracker.operations[0].startedAt).toBeInstanceOf(Date);
+    expect(tracker.operations[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('does not record calls that fail', async () => {
+    const tracker = new RecordingTracker(new InMemoryTracker());
+
+    await expect(tracker.updateStatus('bd-404', 'closed')).rejects.toThrow('not found');
+    expect(tracker.operations).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import type {
+  BeadsCreateResult,
+  BeadsIssue,
+  BeadsChildOptions,
+  BeadsIssueEdit,
+  IssueTracker,
+} from './issue-tracker.js';
+import type { TrackerOperation } from './memory-tracker.js';
+
+export interface RecordedOperation {
+  operation: TrackerOperation;
+  startedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * An IssueTracker that forwards every call to another tracker and records
+ * each successful change with its timing, for the sync report. Read-only
+ * calls are passed through unrecorded.
+ */
+export class RecordingTracker implements IssueTracker {
+  readonly operations: RecordedOperation[] = [];
+  private inner: IssueTracker;
+
+  constructor(inner: IssueTracker) {
+    this.inner = inner;
+  }
+
+  private async record<T>(
+    run: () => Promise<T>,
+    describe: (result: T) => TrackerOperation,
+  ): Promise<T> {
+    const startedAt = new Date();
+    const result = await run();
+    this.operations.push({
+      operation: describe(result),
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+    return result;
+  }
+
+  async createEpic(
+    title: string,
+    description: string,
+    priority: number,
+    type: string = 'epic',
+    labels: string[] = [],
+  ): Promise<BeadsCreateResult> {
+    return this.record(
+      () => this.inner.createEpic(title, description, priority, type, labels),
+      result => ({ kind: 'create', id: result.id, title, type, priority, labels }),
+    );
+  }
+
+  async createChild(
+    parentId: string,
+    title: string,
+    description: string,
+    options: BeadsChildOptions = {},
+  ): Promise<BeadsCreateResult> {
+    return this.record(
+      () => this.inner.createChild(parentId, title, description, options),
+      result => ({
+        kind: 'create',
+        id: result.id,
+        title,
+        type: result.type ?? options.type ?? 'task',
+        priority: options.priority ?? 2,
+        parentId,
+        labels: options.labels ?? [],
+      }),
+    );
+  }
+
+  async addDependency(blockedId: string, blockingId: string): Promise<void> {
+    return this.record(
+      () => this.inner.addDependency(blockedId, blockingId),
+      () => ({ kind: 'dependency', blockedId, blockingId }),
+    );
+  }
+
+  async removeDependency(blockedId: string, blockingId: string): Promise<void> {
+    return this.record(
+      () => this.inner.removeDependency(blockedId, blockingId),
+      () => ({ kind: 'remove_dependency', blockedId, blockingId }),
+    );
+  }
+
+  async updateIssue(issueId: string, edit: BeadsIssueEdit): Promise<void> {
+    if (Object.values(edit).every(value => value === undefined)) {
+      return this.inner.updateIssue(issueId, edit);
+    }
+    return this.record(
+      () => this.inner.updateIssue(issueId, edit),
+      () => ({ kind: 'update', id: issueId, edit }),
+    );
+  }
+
+  async updateStatus(issueId: string, status: string): Promise<void> {
+    return this.record(
+      () => this.inner.updateStatus(issueId, status),
+      () => ({ kind: 'status', id: issueId, status }),
+    );
+  }
+
+  async close(issueId: string, reason?: string): Promise<void> {
+    return this.record(
+      () => this.inner.close(issueId, reason),
+      () => ({ kind: 'close', id: issueId, reason }),
+    );
+  }
+
+  async deleteIssue(issueId: string): Promise<void> {
+    return this.record(
+      () => this.inner.deleteIssue(issueId),
+      () => ({ kind: 'delete', id: issueId }),
+    );
+  }
+
+  async importIssues(filePath: string): Promise<void> {
+    return this.record(
+      () => this.inner.importIssues(filePath),
+      () => ({ kind: 'import', filePath }),
+    );
+  }
+
+  showIssue(issueId: string): Promise<BeadsIssue> {
+    return this.inner.showIssue(issueId);
+  }
+
+  showIssues(issueIds: string[]): Promise<BeadsIssue[]> {
+    return this.inner.showIssues(issueIds);
+  }
+
+  listDependencies(issueId: string): Promise<string[]> {
+    return this.inner.listDependencies(issueId);
+  }
+
+  listIssues(filter?: { parent?: string }): Promise<BeadsIssue[]> {
+    return this.inner.listIssues(filter);
+  }
+
+  checkInit(): Promise<boolean> {
+    return this.inner.checkInit();
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+      return n * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+
+  it('reports results in item order even when calls finish out of order', async () => {
+    const pending = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const reported: string[] = [];
+
+    const run = mapWithConcurrency([0, 1, 2], 3, (i) => pending[i].promise, (result) => {
+      reported.push(result);
+    });
+    pending[2].resolve('c');
+    await tick();
+    pending[1].resolve('b');
+    await tick();
+    expect(reported).toEqual([]);
+
+    pending[0].resolve('a');
+    await run;
+    expect(reported).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rethrows a single failure as is and stops starting new items', async () => {
+    const started: number[] = [];
+    const error = new Error('boom');
+
+    await expect(mapWithConcurrency([1, 2, 3], 1, async (n) => {
+      started.push(n);
+      if (n === 2) throw error;
+    })).rejects.toBe(error);
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('still reports items that succeeded around a failure', async () => {
+    const reported: number[] = [];
+
+    await expect(mapWithConcurrency([1, 2, 3], 3, async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    }, (n) => {
+      reported.push(n);
+    })).rejects.toThrow('boom');
+    expect(reported).toEqual([1, 3]);
+  });
+
+  it('aggregates several failures in item order', async () => {
+    const run = mapWithConcurrency([1, 2, 3], 3, async (n) => {
+      await new Promise(resolve => setTimeout(resolve, 10 - n * 3));
+      if (n > 1) throw new Error(`failed ${n}`);
+    });
+
+    await expect(run).rejects.toBeInstanceOf(AggregateError);
+    await expect(run).rejects.toThrow('2 operations failed:\n  - failed 2\n  - failed 3');
+  });
+
+  it('rejects a limit below one', async () => {
+    await expect(mapWithConcurrency([1], 0, async () => {})).rejects.toThrow('Invalid concurrency 0');
+  });
+});
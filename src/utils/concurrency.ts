@@ -0,0 +1,76 @@
+/**
+ * Bounded-concurrency helpers for running independent bd calls side by side
+ * while keeping their side effects in a predictable order.
+ */
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ *
+ * `onResult` is called for every successful item in item order, however the
+ * calls finish, so anything it records (mapping entries, progress lines)
+ * comes out the same as a sequential run. Once an item fails no new items
+ * are started, but calls already in flight finish and are still reported.
+ * A single failure is rethrown as is; several are combined into one
+ * AggregateError that lists each message.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, item: T, index: number) => void | Promise<void>,
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency} (expected a positive integer)`);
+  }
+
+  const results: R[] = new Array(items.length);
+  const settled: Array<'ok' | 'failed' | undefined> = new Array(items.length);
+  const errors: { index: number; error: unknown }[] = [];
+  let nextIndex = 0;
+  let nextReport = 0;
+  let failed = false;
+  let reporting = Promise.resolve();
+
+  // Report the finished prefix of items, one at a time and in order
+  const report = async (): Promise<void> => {
+    while (nextReport < items.length && settled[nextReport] !== undefined) {
+      const index = nextReport++;
+      if (settled[index] === 'ok') {
+        await onResult?.(results[index], items[index], index);
+      }
+    }
+  };
+
+  const run = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+        settled[index] = 'ok';
+      } catch (error) {
+        settled[index] = 'failed';
+        errors.push({ index, error });
+        failed = true;
+      }
+      reporting = reporting.then(report).catch((error: unknown) => {
+        errors.push({ index: nextReport - 1, error });
+        failed = true;
+      });
+      await reporting;
+    }
+  };
+
+  // Items start in index order, so once every runner has stopped the
+  // settled items form a prefix and have all been reported
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+
+  if (errors.length === 1) {
+    throw errors[0].error;
+  }
+  if (errors.length > 1) {
+    const sorted = errors.sort((a, b) => a.index - b.index).map(e => e.error);
+    const lines = sorted.map(error => `  - ${error instanceof Error ? error.message : String(error)}`);
+    throw new AggregateError(sorted, `${sorted.length} operations failed:\n${lines.join('\n')}`);
+  }
+  return results;
+}
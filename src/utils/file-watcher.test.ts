@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { watchFiles } from './file-watcher.js';
+
+describe('watchFiles', () => {
+  const cleanups: Array<() => Promise<void> | void> = [];
+
+  afterEach(async () => {
+    for (const cleanup of cleanups.reverse()) {
+      await cleanup();
+    }
+    cleanups.length = 0;
+  });
+
+  async function makeTempDir(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tm2bd-watch-test-'));
+    cleanups.push(() => fs.rm(dir, { recursive: true, force: true }));
+    return dir;
+  }
+
+  it('debounces a burst of writes into one call', async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, 'tasks.json');
+    await fs.writeFile(file, '{}', 'utf-8');
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    cleanups.push(watchFiles([file], onChange, 50));
+
+    for (let i = 0; i < 3; i++) {
+      await fs.writeFile(file, JSON.stringify({ i }), 'utf-8');
+    }
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 });
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(onChange).toHaveBeenCalledWith([file]);
+  });
+
+  it('ignores other files in the same directory', async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, 'tasks.json');
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    cleanups.push(watchFiles([file], onChange, 20));
+
+    await fs.writeFile(path.join(dir, 'other.json'), '{}', 'utf-8');
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('picks up a file replaced by rename', async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, 'tasks.json');
+    await fs.writeFile(file, '{}', 'utf-8');
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    cleanups.push(watchFiles([file], onChange, 20));
+
+    await fs.writeFile(`${file}.tmp`, '{"a":1}', 'utf-8');
+    await fs.rename(`${file}.tmp`, file);
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith([file]), { timeout: 2000 });
+  });
+
+  it('skips directories that do not exist', () => {
+    const stop = watchFiles([path.join(os.tmpdir(), 'tm2bd-missing-dir', 'report.json')], vi.fn(), 20);
+    stop();
+  });
+});
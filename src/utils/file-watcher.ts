@@ -0,0 +1,73 @@
+import { watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import path from 'path';
+
+/**
+ * Watch a set of files and call `onChange` once a burst of writes has been
+ * quiet for `debounceMs`. Runs never overlap: changes that arrive while
+ * `onChange` is running trigger one more run after it finishes. `onChange`
+ * is expected to handle its own errors.
+ *
+ * The parent directories are watched rather than the files themselves, so
+ * files that are replaced by rename (as task-master and most editors do) or
+ * that do not exist yet are still picked up. Returns a function that stops
+ * watching.
+ */
+export function watchFiles(
+  filePaths: string[],
+  onChange: (changed: string[]) => Promise<void>,
+  debounceMs: number,
+): () => void {
+  const targets = new Set(filePaths.map(p => path.resolve(p)));
+  const directories = new Set([...targets].map(p => path.dirname(p)));
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  const run = async (): Promise<void> => {
+    if (running || pending.size === 0) return;
+    running = true;
+    const changed = [...pending];
+    pending.clear();
+    try {
+      await onChange(changed);
+    } finally {
+      running = false;
+      if (pending.size > 0) {
+        schedule();
+      }
+    }
+  };
+
+  function schedule(): void {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      void run();
+    }, debounceMs);
+  }
+
+  const watchers: FSWatcher[] = [];
+  for (const directory of directories) {
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(directory, (_event, fileName) => {
+        if (!fileName) return;
+        const changedPath = path.join(directory, fileName.toString());
+        if (!targets.has(changedPath)) return;
+        pending.add(changedPath);
+        schedule();
+      });
+    } catch {
+      // A missing directory (e.g. no reports yet) just means nothing to watch there
+      continue;
+    }
+    watchers.push(watcher);
+  }
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+}
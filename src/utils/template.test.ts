@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, renderTemplate } from './template.js';
+
+describe('renderTemplate', () => {
+  it('substitutes values and dotted paths', () => {
+    expect(renderTemplate('[TM-{{ id }}] {{title}} in {{task.title}}', {
+      id: 3,
+      title: 'Child',
+      task: { title: 'Parent' },
+    })).toBe('[TM-3] Child in Parent');
+  });
+
+  it('renders missing values as empty and arrays as lists', () => {
+    expect(renderTemplate('{{missing}}|{{task.missing}}|{{deps}}', { deps: [1, 2, 3] })).toBe('||1, 2, 3');
+  });
+
+  it('renders #if blocks only for present values', () => {
+    const template = '{{#if details}}Details: {{details}}{{else}}No details{{/if}}';
+
+    expect(renderTemplate(template, { details: 'Notes' })).toBe('Details: Notes');
+    expect(renderTemplate(template, { details: '' })).toBe('No details');
+    expect(renderTemplate(template, { details: [] })).toBe('No details');
+    expect(renderTemplate(template, {})).toBe('No details');
+  });
+
+  it('treats zero as present', () => {
+    expect(renderTemplate('{{#if id}}#{{id}}{{/if}}', { id: 0 })).toBe('#0');
+  });
+
+  it('renders #unless blocks for absent values', () => {
+    expect(renderTemplate('{{#unless details}}TODO{{/unless}}', {})).toBe('TODO');
+    expect(renderTemplate('{{#unless details}}TODO{{/unless}}', { details: 'x' })).toBe('');
+  });
+
+  it('supports nested blocks', () => {
+    const template = '{{#if a}}A{{#if b}}B{{else}}-{{/if}}{{/if}}';
+
+    expect(renderTemplate(template, { a: 1, b: 1 })).toBe('AB');
+    expect(renderTemplate(template, { a: 1 })).toBe('A-');
+    expect(renderTemplate(template, { b: 1 })).toBe('');
+  });
+
+  it('accepts a parsed template', () => {
+    const parsed = parseTemplate('Hello {{name}}');
+    expect(renderTemplate(parsed, { name: 'bd' })).toBe('Hello bd');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('rejects unclosed blocks', () => {
+    expect(() => parseTemplate('{{#if details}}open')).toThrow('Unclosed {{#if details}} in template');
+  });
+
+  it('rejects mismatched closing tags', () => {
+    expect(() => parseTemplate('{{#if a}}x{{/unless}}')).toThrow('Unexpected {{/unless}} in template');
+    expect(() => parseTemplate('x{{/if}}')).toThrow('Unexpected {{/if}} in template');
+  });
+
+  it('rejects a stray or repeated else', () => {
+    expect(() => parseTemplate('{{else}}')).toThrow('Unexpected {{else}} in template');
+    expect(() => parseTemplate('{{#if a}}{{else}}{{else}}{{/if}}')).toThrow('Unexpected {{else}}');
+  });
+
+  it('rejects malformed tags', () => {
+    expect(() => parseTemplate('{{title | upper}}')).toThrow('Invalid template tag {{title | upper}}');
+    expect(() => parseTemplate('{{#each subtasks}}{{/each}}')).toThrow('Invalid template tag {{#each subtasks}}');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Minimal text templates for issue titles and descriptions.
+ *
+ * Supported syntax:
+ *   {{name}} / {{task.title}}      value lookup (dotted paths for nested objects)
+ *   {{#if name}}...{{/if}}         rendered when the value is present
+ *   {{#unless name}}...{{/unless}} rendered when the value is absent
+ *   {{else}}                       alternative branch inside #if / #unless
+ *
+ * A value is absent when it is undefined, null, false, an empty string or an
+ * empty array. Arrays render as a comma-separated list; missing values render
+ * as an empty string. No escaping is applied.
+ */
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string[] }
+  | { kind: 'block'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface Template {
+  source: string;
+  nodes: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+interface OpenBlock {
+  block: Extract<TemplateNode, { kind: 'block' }>;
+  keyword: 'if' | 'unless';
+  inElse: boolean;
+}
+
+function parsePath(expression: string, tag: string): string[] {
+  if (!PATH_PATTERN.test(expression)) {
+    throw new Error(`Invalid template tag ${tag}`);
+  }
+  return expression.split('.');
+}
+
+/**
+ * Parse a template once so it can be validated up front and rendered often.
+ * @throws Error for malformed tags and unbalanced blocks
+ */
+export function parseTemplate(source: string): Template {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.block.otherwise : open.block.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, expression] = match;
+    if (match.index > lastIndex) {
+      current().push({ kind: 'text', text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + tag.length;
+
+    const opening = expression.match(/^#(if|unless)\s+(\S+)$/);
+    if (opening) {
+      const block: OpenBlock['block'] = {
+        kind: 'block',
+        path: parsePath(opening[2], tag),
+        negate: opening[1] === 'unless',
+        then: [],
+        otherwise: [],
+      };
+      current().push(block);
+      stack.push({ block, keyword: opening[1] as OpenBlock['keyword'], inElse: false });
+      continue;
+    }
+
+    if (expression === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new Error('Unexpected {{else}} in template');
+      }
+      open.inElse = true;
+      continue;
+    }
+
+    const closing = expression.match(/^\/(if|unless)$/);
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.keyword !== closing[1]) {
+        throw new Error(`Unexpected ${tag} in template`);
+      }
+      continue;
+    }
+
+    current().push({ kind: 'value', path: parsePath(expression, tag) });
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ kind: 'text', text: source.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`Unclosed {{#${unclosed.keyword} ${unclosed.block.path.join('.')}}} in template`);
+  }
+
+  return { source, nodes: root };
+}
+
+function lookup(context: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = context;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === '') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'value') {
+      output += stringify(lookup(context, node.path));
+    } else {
+      const present = isPresent(lookup(context, node.path));
+      output += renderNodes(present !== node.negate ? node.then : node.otherwise, context);
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template (source text or a parsed template) against a context.
+ */
+export function renderTemplate(template: string | Template, context: Record<string, unknown>): string {
+  const parsed = typeof template === 'string' ? parseTemplate(template) : template;
+  return renderNodes(parsed.nodes, context);
+}